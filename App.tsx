@@ -1,197 +1,1185 @@
-import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { AppState } from './types';
-import { analyzeTextWithThinking, generateSpeech, summarizeText, answerQuestion } from './services/geminiService';
-import { decode, decodeAudioData, audioBufferToWav } from './utils/audioUtils';
-import { SparkIcon, SoundWaveIcon, SpinnerIcon, DocumentTextIcon, QuestionMarkCircleIcon, DownloadIcon, HistoryIcon, StarIcon } from './components/icons';
+import React, { useState, useRef, useCallback, useEffect, useMemo, useReducer } from 'react';
+import { Annotation, AppState, ChatMessage, ChunkProgress, ExportFormat, FeedbackEntry, FeedbackExportFormat, Flashcard, GlossaryTerm, PromptLibrary, PromptParams, PromptTemplate, QuizExportFormat, QuizQuestion, ResultKind, ReviewGrade, ScriptFormat, SelectionAction, Session, SourceChunk, SourceReference, SourcedText } from './types';
+import { analyzeTextWithThinking, generateSpeechChunked, summarizeText, sendChatMessage, getActiveProviderLabel, getAvailableVoices, getDefaultVoice, dialogueVoiceSelection, getDialogueSpeakers, previewVoice, applySettings, getActiveModels, getModelSuggestions, getThinkingRange, generateQuiz, extractGlossary, pronounceTerm, explainSelection, speakAnnotation, regenerateScriptSection, VoiceSelection } from './services/geminiService';
+import { createSessionId, defaultSessionName, deleteSession, deleteSessionAudio, getSessionAudio, getStorageUsage, initSessionStore, listSessions, pruneOldAudio, saveSession, saveSessionAudio, StorageUsage, updateSession } from './services/sessionStore';
+import { decode, decodeAudioData, audioBufferToWav, concatAudioBuffers, encodePcm16, mixWithMusic, processSpeechSegment, sliceAudioBuffer } from './utils/audioUtils';
+import { createQueuedPlayer, QueuedPlayer } from './utils/queuedPlayer';
+import { estimateSentenceTimings, findSentenceIndex, TimedSentence } from './utils/sentenceTiming';
+import { encodeMp3 } from './utils/audioEncoding';
+import { buildSrt, buildWebVtt } from './utils/subtitles';
+import { quizToCsv, quizToJson } from './utils/quiz';
+import { glossaryToCsv, locateGlossary } from './utils/glossary';
+import { TextRange } from './utils/textChunker';
+import { createAnnotationId, locateAnnotations, rangeFromSelection, trimRange } from './utils/selection';
+import { parseScript, replaceSection, scriptNarration, sectionNarration, sectionTimeSpans, TimeSpan } from './utils/scriptStructure';
+import { dueCards, scheduleReview } from './utils/spacedRepetition';
+import { flashcardsFromQuiz, loadFlashcards, saveFlashcards } from './services/flashcardStore';
+import { createEndpointSink, loadFeedback, recordFeedback, registerFeedbackSink } from './services/feedbackStore';
+import { feedbackToCsv, feedbackToJson } from './utils/feedback';
+import { flowReducer, FlowOperation, initialFlowState } from './utils/appFlow';
+import { isAbortError } from './utils/abort';
+import { ServiceError } from './services/errors';
+import { AppSettings, isLevelId, isToneId, LEVELS, loadSettings, saveSettings, speechProcessingOptions, toLevelChoice, TONES, toToneChoice } from './services/settings';
+import { libraryToJson, loadPromptLibrary, resolveTemplate, savePromptLibrary, templatesFor } from './services/promptLibrary';
+import { formatNumber, getLocale, Locale, LOCALES, setLocale, t } from './i18n';
+import { AudioPlayerControls } from './components/AudioPlayerControls';
+import { ScriptView } from './components/ScriptView';
+import { DocumentImporter } from './components/DocumentImporter';
+import { ChunkProgressBar } from './components/ChunkProgressBar';
+import { SourceReferences } from './components/SourceReferences';
+import { ChatPanel } from './components/ChatPanel';
+import { SessionLibrary } from './components/SessionLibrary';
+import { ExportMenu } from './components/ExportMenu';
+import { VoicePicker } from './components/VoicePicker';
+import { ErrorBanner } from './components/ErrorBanner';
+import { SettingsPanel } from './components/SettingsPanel';
+import { QuizPanel } from './components/QuizPanel';
+import { FlashcardReview } from './components/FlashcardReview';
+import { GlossaryPanel } from './components/GlossaryPanel';
+import { FeedbackAnalytics } from './components/FeedbackAnalytics';
+import { BatchQueue } from './components/BatchQueue';
+import { templateLabel, TemplateManager } from './components/TemplateManager';
+import { GlossaryText } from './components/GlossaryTermSpan';
+import { SelectionMenu } from './components/SelectionMenu';
+import { AnnotationMarker } from './components/AnnotationMarker';
+import { SparkIcon, SoundWaveIcon, SpinnerIcon, DocumentTextIcon, HistoryIcon, StarIcon, SettingsIcon, AcademicCapIcon, CardsIcon, BookOpenIcon, ChartBarIcon, QueueListIcon } from './components/icons';
+
+/** The given voice if the active provider offers it, otherwise the provider's default. */
+const availableVoice = (voice: string): string => (getAvailableVoices().some(v => v.id === voice) ? voice : getDefaultVoice());
 
 const App: React.FC = () => {
+    const [settings, setSettings] = useState<AppSettings>(loadSettings);
+    const [showSettings, setShowSettings] = useState<boolean>(false);
     const [inputText, setInputText] = useState<string>('');
-    const [status, setStatus] = useState<AppState>(AppState.Idle);
+    const [flow, dispatch] = useReducer(flowReducer, initialFlowState);
+    const { status } = flow;
     const [resultContent, setResultContent] = useState<string>('');
-    const [resultTitle, setResultTitle] = useState<string>('');
+    const [resultKind, setResultKind] = useState<ResultKind | null>(null);
+    // The language the shown result was written in; narration and chat follow it.
+    const [resultLanguage, setResultLanguage] = useState<Locale>(settings.locale);
     const [errorMessage, setErrorMessage] = useState<string>('');
-    const [selectedTone, setSelectedTone] = useState<string>('دوستانه');
-    const [selectedLevel, setSelectedLevel] = useState<string>('مبتدی');
-    const [question, setQuestion] = useState<string>('');
-    const [qaHistory, setQaHistory] = useState<{ question: string; answer: string }[]>([]);
+    const [failure, setFailure] = useState<ServiceError | null>(null);
+    // Built-in identifiers, or the text of a custom tone or audience profile.
+    const [selectedTone, setSelectedTone] = useState<string>(settings.defaultTone);
+    const [selectedLevel, setSelectedLevel] = useState<string>(settings.defaultLevel);
+    const [promptLibrary, setPromptLibrary] = useState<PromptLibrary>(loadPromptLibrary);
+    // Empty for the built-in template; a template for another language or format also falls back to it.
+    const [selectedTemplateId, setSelectedTemplateId] = useState<string>('');
+    const [showTemplates, setShowTemplates] = useState<boolean>(false);
+    const [explanationLanguage, setExplanationLanguage] = useState<Locale>(settings.locale);
+    const [scriptFormat, setScriptFormat] = useState<ScriptFormat>('monologue');
+    const [selectedVoice, setSelectedVoice] = useState<string>(() => availableVoice(settings.defaultVoice));
+    const [dialogueVoices, setDialogueVoices] = useState<string[]>(() => {
+        // Two different voices by default, so the hosts are easy to tell apart.
+        const other = getAvailableVoices().find(v => v.id !== getDefaultVoice());
+        return [getDefaultVoice(), other?.id ?? getDefaultVoice()];
+    });
+    const [previewingVoice, setPreviewingVoice] = useState<string | null>(null);
+    const [qaHistory, setQaHistory] = useState<ChatMessage[]>([]);
+    const [pendingReply, setPendingReply] = useState<string | null>(null);
+    const [quiz, setQuiz] = useState<QuizQuestion[] | null>(null);
+    const [flashcards, setFlashcards] = useState<Flashcard[]>(loadFlashcards);
+    const [showFlashcards, setShowFlashcards] = useState<boolean>(false);
+    const [glossary, setGlossary] = useState<GlossaryTerm[] | null>(null);
+    // Shows the input read-only with its glossary terms underlined and its annotations marked, in place of the textarea.
+    const [showAnnotatedInput, setShowAnnotatedInput] = useState<boolean>(false);
+    const [pronouncingTerm, setPronouncingTerm] = useState<string | null>(null);
+    const [annotations, setAnnotations] = useState<Annotation[]>([]);
+    const [selectionMenu, setSelectionMenu] = useState<{ target: Annotation['target']; range: TextRange; x: number; y: number } | null>(null);
+    const [openAnnotationId, setOpenAnnotationId] = useState<string | null>(null);
+    const [speakingAnnotationId, setSpeakingAnnotationId] = useState<string | null>(null);
     
     // New features state
-    const [history, setHistory] = useState<string[]>([]);
+    const [sessions, setSessions] = useState<Session[]>([]);
+    const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+    const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
     const [showHistory, setShowHistory] = useState<boolean>(false);
     const [playbackRate, setPlaybackRate] = useState<number>(1);
     const [volume, setVolume] = useState<number>(1);
     const [feedbackRating, setFeedbackRating] = useState<number>(0);
     const [feedbackText, setFeedbackText] = useState('');
     const [feedbackSubmitted, setFeedbackSubmitted] = useState<boolean>(false);
+    // What the shown result was generated with, so its rating can be attributed.
+    const [resultParams, setResultParams] = useState<PromptParams | null>(null);
+    const [feedbackEntries, setFeedbackEntries] = useState<FeedbackEntry[]>(loadFeedback);
+    const [showAnalytics, setShowAnalytics] = useState<boolean>(false);
+    const [showBatch, setShowBatch] = useState<boolean>(false);
     const [audioBuffer, setAudioBuffer] = useState<AudioBuffer | null>(null);
+    /** Laid under the narration in audio exports, ducked while someone speaks. */
+    const [backgroundMusic, setBackgroundMusic] = useState<{ name: string; buffer: AudioBuffer } | null>(null);
+    const [exportProgress, setExportProgress] = useState<{ format: ExportFormat; progress: number } | null>(null);
+    const [playbackPosition, setPlaybackPosition] = useState<number>(0);
+    const [playbackDuration, setPlaybackDuration] = useState<number>(0);
+    const [sentenceTimings, setSentenceTimings] = useState<TimedSentence[]>([]);
+    const [chunkProgress, setChunkProgress] = useState<ChunkProgress | null>(null);
+    const [sourceChunks, setSourceChunks] = useState<SourceChunk[]>([]);
+    const [sourceReferences, setSourceReferences] = useState<SourceReference[]>([]);
+    /** Which parts of the current result were read back from the result cache. */
+    const [fromCache, setFromCache] = useState<{ text: boolean; audio: boolean }>({ text: false, audio: false });
+    const activeTemplate = resolveTemplate(promptLibrary, selectedTemplateId, explanationLanguage, scriptFormat);
+    // A custom choice restored from a session stays selectable even if it was removed from the library since.
+    const customTones = isToneId(selectedTone) || promptLibrary.tones.includes(selectedTone) ? promptLibrary.tones : [...promptLibrary.tones, selectedTone];
+    const customLevels = isLevelId(selectedLevel) || promptLibrary.audiences.includes(selectedLevel) ? promptLibrary.audiences : [...promptLibrary.audiences, selectedLevel];
+    // Occurrences are looked up again as the input is edited, so underlines and jumps stay in place.
+    const inputGlossary: GlossaryTerm[] = useMemo(() => (glossary ? locateGlossary(inputText, glossary) : []), [glossary, inputText]);
+    const inputAnnotations = useMemo(() => locateAnnotations(inputText, annotations.filter(annotation => annotation.target === 'input')), [annotations, inputText]);
+    const resultAnnotations = useMemo(() => locateAnnotations(resultContent, annotations.filter(annotation => annotation.target === 'result')), [annotations, resultContent]);
+    // Parsed again as the script streams in, so its sections show up as they are written.
+    const structuredScript = useMemo(() => (resultKind === 'script' ? parseScript(resultContent) : null), [resultContent, resultKind]);
+    const sectionSpans = useMemo(
+        () => (structuredScript && audioBuffer ? sectionTimeSpans(resultContent, structuredScript, sentenceTimings, audioBuffer.duration) : []),
+        [audioBuffer, resultContent, sentenceTimings, structuredScript],
+    );
 
     const audioContextRef = useRef<AudioContext | null>(null);
-    const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
+    const playerRef = useRef<QueuedPlayer | null>(null);
+    const inputRef = useRef<HTMLTextAreaElement | null>(null);
+    const annotatedInputRef = useRef<HTMLDivElement | null>(null);
+    const resultTextRef = useRef<HTMLDivElement | null>(null);
+    // What the last selection request asked for, so a failed one can be retried.
+    const lastSelectionRef = useRef<{ target: Annotation['target']; range: TextRange; action: SelectionAction } | null>(null);
+    // The section last asked to be rewritten, so a failed rewrite can be retried.
+    const lastSectionRef = useRef<number | null>(null);
     const gainNodeRef = useRef<GainNode | null>(null);
+    const runIdRef = useRef<number>(0);
+    const abortControllerRef = useRef<AbortController | null>(null);
+    // The input text the active session was created for; editing the input starts a new session.
+    const sessionInputRef = useRef<string | null>(null);
+
+    const refreshLibrary = useCallback(async () => {
+        setSessions(await listSessions());
+        setStorageUsage(await getStorageUsage());
+    }, []);
+
+    // Submissions also go to the team's own collection endpoint when one is configured.
+    useEffect(() => {
+        if (!settings.feedbackEndpoint) return;
+        return registerFeedbackSink(createEndpointSink(settings.feedbackEndpoint));
+    }, [settings.feedbackEndpoint]);
+
+    useEffect(() => {
+        initSessionStore()
+            .then(refreshLibrary)
+            .catch(error => console.error("Failed to open the session library", error));
+    }, [refreshLibrary]);
+
+    const syncPlaybackPosition = useCallback(() => {
+        const player = playerRef.current;
+        setPlaybackPosition(player ? player.getPosition() : 0);
+        setPlaybackDuration(player ? player.getDuration() : 0);
+    }, []);
 
     useEffect(() => {
+        if (status !== AppState.Playing) return;
+        const intervalId = window.setInterval(syncPlaybackPosition, 200);
+        return () => window.clearInterval(intervalId);
+    }, [status, syncPlaybackPosition]);
+
+    const stopPlayback = useCallback(() => {
+        playerRef.current?.stop();
+        syncPlaybackPosition();
+        dispatch({ type: 'STOP' });
+    }, [syncPlaybackPosition]);
+
+    /**
+     * Starts a run of an operation, aborting whichever run was in flight.
+     * `isCurrent` turns false once the run is superseded or cancelled, and
+     * every state update from the run's callbacks is gated on it.
+     */
+    const beginRun = (operation: FlowOperation) => {
+        abortControllerRef.current?.abort();
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        const runId = ++runIdRef.current;
+        dispatch({ type: 'START', runId, operation });
+        return {
+            runId,
+            signal: controller.signal,
+            isCurrent: () => runIdRef.current === runId && !controller.signal.aborted,
+            /** True when this run was aborted by the Cancel button rather than replaced by a newer one. */
+            wasCancelled: () => runIdRef.current === runId && controller.signal.aborted,
+        };
+    };
+
+    /** Aborts the active run without a replacement, e.g. before a saved session is opened. */
+    const abandonRun = () => {
+        abortControllerRef.current?.abort();
+        abortControllerRef.current = null;
+        runIdRef.current++;
+        dispatch({ type: 'RESET' });
+    };
+
+    type Run = ReturnType<typeof beginRun>;
+
+    const handleCancel = () => {
+        abortControllerRef.current?.abort();
+    };
+
+    const showError = (message: string, serviceError: ServiceError | null = null) => {
+        setErrorMessage(message);
+        setFailure(serviceError);
+    };
+
+    const clearError = () => {
+        showError('');
+        setChunkProgress(null);
+    };
+
+    /** Reports a failed run; service errors also record the step that failed so it can be retried. */
+    const failRun = (run: Run, error: unknown) => {
+        console.error(error);
+        showError(error instanceof Error ? error.message : t('errors.unknown'), error instanceof ServiceError ? error : null);
+        // A part that failed stays on show next to the error.
+        setChunkProgress(current => (current?.statuses.includes('failed') ? current : null));
+        dispatch({ type: 'FAIL', runId: run.runId });
+    };
+
+    const resetPlayback = () => {
+        playerRef.current?.stop();
+        playerRef.current = null;
+        setSentenceTimings([]);
+        syncPlaybackPosition();
+    };
+    
+    const ensureAudioGraph = async (): Promise<{ audioContext: AudioContext; gainNode: GainNode }> => {
+        if (!audioContextRef.current) {
+            audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+        }
+        const audioContext = audioContextRef.current;
+        await audioContext.resume();
+
+        if (!gainNodeRef.current || gainNodeRef.current.context !== audioContext) {
+            gainNodeRef.current = audioContext.createGain();
+            gainNodeRef.current.connect(audioContext.destination);
+        }
+        gainNodeRef.current.gain.setValueAtTime(volume, audioContext.currentTime);
+        return { audioContext, gainNode: gainNodeRef.current };
+    };
+
+    /**
+     * Returns the session the current input belongs to, creating one if the
+     * input changed since it was opened. Storage failures only cost
+     * persistence, so they are logged and yield null.
+     */
+    const ensureSession = async (): Promise<string | null> => {
+        if (activeSessionId && sessionInputRef.current === inputText) {
+            return activeSessionId;
+        }
+        const now = Date.now();
+        const session: Session = {
+            id: createSessionId(),
+            name: defaultSessionName(inputText),
+            pinned: false,
+            createdAt: now,
+            updatedAt: now,
+            inputText,
+            tone: selectedTone,
+            level: selectedLevel,
+            language: explanationLanguage,
+            sourceChunks: [],
+            sourceReferences: [],
+            qaHistory: [],
+            hasAudio: false,
+            sizeBytes: 0,
+        };
+        setActiveSessionId(session.id);
+        sessionInputRef.current = inputText;
+        // A quiz, glossary or annotations of the previous input don't carry over to the new session.
+        setQuiz(null);
+        setGlossary(null);
+        setAnnotations([]);
+        setShowAnnotatedInput(false);
+        try {
+            await saveSession(session);
+            await refreshLibrary();
+            return session.id;
+        } catch (error) {
+            console.error("Failed to create session", error);
+            return null;
+        }
+    };
+
+    /** Runs a library write in the background and refreshes the list once it lands. */
+    const persist = (write: () => Promise<unknown>) => {
+        write()
+            .then(refreshLibrary)
+            .catch(error => console.error("Failed to save session", error));
+    };
+
+    const updateQaHistory = (messages: ChatMessage[]) => {
+        setQaHistory(messages);
+        if (activeSessionId) {
+            persist(() => updateSession(activeSessionId, { qaHistory: messages }));
+        }
+    };
+
+    /** The annotations a new result in `sessionId` is saved with: those on the input, if they were made in that session. */
+    const keptAnnotations = (sessionId: string | null): Annotation[] =>
+        sessionId === activeSessionId ? annotations.filter(annotation => annotation.target === 'input') : [];
+
+    const updateAnnotations = (next: Annotation[]) => {
+        setAnnotations(next);
+        if (activeSessionId) {
+            persist(() => updateSession(activeSessionId, { annotations: next }));
+        }
+    };
+
+    const applySourcedResult = (result: SourcedText, kind: ResultKind) => {
+        setResultContent(result.text);
+        setResultKind(kind);
+        setSourceChunks(result.chunks);
+        setSourceReferences(result.references);
+        setChunkProgress(null);
+        setFromCache({ text: Boolean(result.fromCache), audio: false });
+    };
+
+    const clearSourcedResult = () => {
+        // Annotations on the result don't apply to the next one.
+        setAnnotations(current => current.filter(annotation => annotation.target === 'input'));
+        setResultContent('');
+        setResultKind(null);
+        setSourceChunks([]);
+        setSourceReferences([]);
+        setChunkProgress(null);
+        setFromCache({ text: false, audio: false });
+    };
+
+    /** Selects a character range of the input and scrolls it into view. */
+    const highlightInputRange = (start: number, end: number) => {
+        const textarea = inputRef.current;
+        if (!textarea) return;
+        textarea.focus();
+        textarea.setSelectionRange(start, end);
+        textarea.scrollTop = Math.max(0, (start / Math.max(1, textarea.value.length)) * textarea.scrollHeight - textarea.clientHeight / 3);
+    };
+
+    const handleSourceChunkClick = (chunkIndex: number) => {
+        const chunk = sourceChunks[chunkIndex];
+        if (chunk) {
+            highlightInputRange(chunk.start, chunk.end);
+        }
+    };
+
+    const voiceSelectionFor = (language: Locale): VoiceSelection =>
+        scriptFormat === 'dialogue' ? dialogueVoiceSelection(dialogueVoices, language) : { voice: selectedVoice };
+
+    /** Loads finished narration into a fresh player, paused at the start. */
+    const loadNarration = async (buffer: AudioBuffer, timings: TimedSentence[]): Promise<QueuedPlayer> => {
+        const { audioContext, gainNode } = await ensureAudioGraph();
+        const player = createQueuedPlayer(audioContext, gainNode, { playbackRate, autoplay: false });
+        player.onEnded = () => {
+            dispatch({ type: 'STOP' });
+            syncPlaybackPosition();
+        };
+        player.enqueue(buffer);
+        player.finish();
+        playerRef.current = player;
+        setAudioBuffer(buffer);
+        setSentenceTimings(timings);
+        syncPlaybackPosition();
+        return player;
+    };
+
+    /**
+     * Narrates a finished script into a fresh player, starting playback with
+     * the first chunk, and saves the complete audio to the session. Sections
+     * are narrated in chunks of their own, so each can be replaced later.
+     */
+    const synthesizeAudio = async (run: Run, script: string, sessionId: string | null, language: Locale, forceRegenerate = false) => {
+        dispatch({ type: 'SYNTHESIZE', runId: run.runId });
+
+        const { audioContext, gainNode } = await ensureAudioGraph();
+        const player = createQueuedPlayer(audioContext, gainNode, { playbackRate });
+        player.onEnded = () => {
+            dispatch({ type: 'STOP' });
+            syncPlaybackPosition();
+        };
+        playerRef.current = player;
+
+        // Playback starts with the first chunk while the rest are still being synthesized.
+        const chunkBuffers: AudioBuffer[] = [];
+        const timings: TimedSentence[] = [];
+        let allFromCache = true;
+        await generateSpeechChunked(scriptNarration(parseScript(script)), async (base64Audio, chunkText, index, total, chunkFromCache) => {
+            if (!run.isCurrent()) return;
+            allFromCache &&= chunkFromCache;
+            const decoded = await decodeAudioData(decode(base64Audio), audioContext, 24000, 1);
+            const { buffer: chunkBuffer, speechDuration } = await processSpeechSegment(decoded, speechProcessingOptions(settings, index === total - 1));
+            if (!run.isCurrent()) return;
+            const chunkStart = player.getDuration();
+            chunkBuffers.push(chunkBuffer);
+            player.enqueue(chunkBuffer);
+            // The pause after the speech belongs to no sentence.
+            timings.push(...estimateSentenceTimings(chunkText, chunkStart, speechDuration));
+            setSentenceTimings([...timings]);
+            syncPlaybackPosition();
+            if (index === 0) {
+                dispatch({ type: 'AUDIO_READY', runId: run.runId });
+            }
+        }, voiceSelectionFor(language), { signal: run.signal, forceRegenerate });
+        if (!run.isCurrent()) return;
+        player.finish();
+        setFromCache(current => ({ ...current, audio: allFromCache }));
+        const fullAudio = concatAudioBuffers(audioContext, chunkBuffers);
+        setAudioBuffer(fullAudio);
+        if (sessionId) {
+            persist(() => saveSessionAudio({
+                sessionId,
+                sampleRate: fullAudio.sampleRate,
+                numChannels: fullAudio.numberOfChannels,
+                pcm: encodePcm16(fullAudio).buffer as ArrayBuffer,
+                sentenceTimings: timings,
+            }));
+        }
+        dispatch({ type: 'SUCCEED', runId: run.runId });
+    };
+
+    /**
+     * Narrates one section of `script` again and splices it into the current
+     * narration where `span` says the section's old audio was; sentence timings
+     * after it move along with the audio. When the old audio can't be placed,
+     * the whole script is narrated again instead.
+     */
+    const narrateSection = async (run: Run, script: string, index: number, span: TimeSpan | null, forceRegenerate: boolean) => {
+        dispatch({ type: 'SYNTHESIZE', runId: run.runId });
+        const section = parseScript(script).sections[index];
+        const previous = audioBuffer;
+        if (!span || !previous || !section) {
+            resetPlayback();
+            setAudioBuffer(null);
+            await synthesizeAudio(run, script, activeSessionId, resultLanguage, forceRegenerate);
+            return;
+        }
+
+        const { audioContext } = await ensureAudioGraph();
+        const isLast = span.end >= previous.duration;
+        const buffers: AudioBuffer[] = [];
+        const timings: TimedSentence[] = [];
+        let offset = span.start;
+        await generateSpeechChunked(sectionNarration(section), async (base64Audio, chunkText, chunkIndex, total) => {
+            if (!run.isCurrent()) return;
+            const decoded = await decodeAudioData(decode(base64Audio), audioContext, 24000, 1);
+            const { buffer, speechDuration } = await processSpeechSegment(decoded, speechProcessingOptions(settings, isLast && chunkIndex === total - 1));
+            buffers.push(buffer);
+            timings.push(...estimateSentenceTimings(chunkText, offset, speechDuration));
+            offset += buffer.duration;
+        }, voiceSelectionFor(resultLanguage), { signal: run.signal, forceRegenerate });
+        if (!run.isCurrent()) return;
+
+        const sectionAudio = concatAudioBuffers(audioContext, buffers);
+        const shift = sectionAudio.duration - (span.end - span.start);
+        const fullAudio = concatAudioBuffers(audioContext, [
+            ...(span.start > 0 ? [sliceAudioBuffer(audioContext, previous, 0, span.start)] : []),
+            sectionAudio,
+            ...(isLast ? [] : [sliceAudioBuffer(audioContext, previous, span.end, previous.duration)]),
+        ]);
+        const fullTimings = [
+            ...sentenceTimings.filter(sentence => sentence.start < span.start),
+            ...timings,
+            ...sentenceTimings.filter(sentence => sentence.start >= span.end).map(sentence => ({ ...sentence, start: sentence.start + shift, end: sentence.end + shift })),
+        ];
+        resetPlayback();
+        const player = await loadNarration(fullAudio, fullTimings);
+        setFromCache(current => ({ ...current, audio: false }));
+        if (activeSessionId) {
+            const sessionId = activeSessionId;
+            persist(() => saveSessionAudio({
+                sessionId,
+                sampleRate: fullAudio.sampleRate,
+                numChannels: fullAudio.numberOfChannels,
+                pcm: encodePcm16(fullAudio).buffer as ArrayBuffer,
+                sentenceTimings: fullTimings,
+            }));
+        }
+        dispatch({ type: 'SUCCEED', runId: run.runId });
+        // Plays the new section right away, so it can be heard in place.
+        player.seek(span.start);
+        player.play();
+        dispatch({ type: 'PLAY' });
+        syncPlaybackPosition();
+    };
+
+    /**
+     * Rewrites one section of the script and saves the script with it. If the
+     * script was narrated, the new section is narrated and put in place of the
+     * old one's audio.
+     */
+    const handleRegenerateSection = async (index: number) => {
+        const script = resultContent;
+        const section = structuredScript?.sections[index];
+        if (!section) return;
+        lastSectionRef.current = index;
+        // Where the old section lies in the narration has to be read before its text changes.
+        const span = sectionSpans[index] ?? null;
+        const narrated = audioBuffer !== null;
+        const sessionId = activeSessionId;
+        const run = beginRun('section');
+        clearError();
         try {
-            const storedHistory = localStorage.getItem('textHistory');
-            if (storedHistory) {
-                setHistory(JSON.parse(storedHistory));
+            const markdown = await regenerateScriptSection(inputText, script, section, resultParams?.tone ?? selectedTone, resultParams?.level ?? selectedLevel, {
+                language: resultLanguage,
+                format: resultParams?.format ?? scriptFormat,
+                signal: run.signal,
+            });
+            if (!run.isCurrent()) return;
+            const next = replaceSection(script, section, markdown);
+            setResultContent(next);
+            setFromCache(current => ({ ...current, text: false }));
+            if (sessionId) {
+                persist(() => updateSession(sessionId, { script: next }));
+            }
+            if (narrated) {
+                await narrateSection(run, next, index, span, false);
+            } else {
+                dispatch({ type: 'SUCCEED', runId: run.runId });
             }
         } catch (error) {
-            console.error("Failed to parse history from localStorage", error);
+            if (run.wasCancelled()) {
+                playerRef.current?.finish();
+                syncPlaybackPosition();
+                dispatch({ type: 'CANCEL', runId: run.runId });
+                return;
+            }
+            if (!run.isCurrent() || isAbortError(error)) return;
+            failRun(run, error);
         }
-    }, []);
+    };
 
-    const stopPlayback = useCallback(() => {
-        if (audioSourceRef.current) {
-            audioSourceRef.current.stop();
-            audioSourceRef.current.disconnect();
-            audioSourceRef.current = null;
+    /** Narrates one section again, bypassing the cached audio, and leaves the rest of the narration as it is. */
+    const handleRenarrateSection = async (index: number) => {
+        const span = sectionSpans[index] ?? null;
+        const run = beginRun('audio');
+        clearError();
+        try {
+            await narrateSection(run, resultContent, index, span, true);
+        } catch (error) {
+            if (run.wasCancelled()) {
+                playerRef.current?.finish();
+                syncPlaybackPosition();
+                dispatch({ type: 'CANCEL', runId: run.runId });
+                return;
+            }
+            if (!run.isCurrent() || isAbortError(error)) return;
+            failRun(run, error);
         }
-        if (status === AppState.Playing) {
-          setStatus(AppState.Idle);
+    };
+
+    /** The parameters a new result is generated with, recorded alongside its rating. */
+    const promptParamsFor = (kind: ResultKind, language: Locale): PromptParams => {
+        const base = { kind, language, provider: getActiveProviderLabel() };
+        if (kind === 'summary') {
+            return { ...base, model: getActiveModels().summary };
         }
-    }, [status]);
-    
-    const addToHistory = (text: string) => {
-        const newHistory = [text, ...history.filter(item => item !== text)].slice(0, 20);
-        setHistory(newHistory);
-        localStorage.setItem('textHistory', JSON.stringify(newHistory));
+        return {
+            ...base,
+            model: getActiveModels()[scriptFormat === 'dialogue' ? 'dialogue' : 'script'],
+            tone: selectedTone,
+            level: selectedLevel,
+            format: scriptFormat,
+            template: activeTemplate.builtIn ? undefined : templateLabel(activeTemplate),
+            voice: scriptFormat === 'dialogue' ? dialogueVoices.join(' + ') : selectedVoice,
+        };
     };
 
-    const handleProcessText = async () => {
+    /** `forceRegenerate` bypasses the result cache for both the script and its narration. */
+    const handleProcessText = async (forceRegenerate = false) => {
         if (!inputText.trim()) {
-            setErrorMessage('لطفاً برای تحلیل، متنی را وارد کنید.');
-            setStatus(AppState.Error);
+            showError(t('input.emptyForScript'));
+            dispatch({ type: 'REJECT_INPUT' });
             return;
         }
 
-        stopPlayback();
-        setStatus(AppState.Analyzing);
-        setResultContent('');
-        setResultTitle('');
-        setErrorMessage('');
+        const run = beginRun('script');
+        resetPlayback();
+        clearSourcedResult();
+        clearError();
         setQaHistory([]);
         setAudioBuffer(null);
         setFeedbackSubmitted(false);
         setFeedbackRating(0);
         setFeedbackText('');
-        addToHistory(inputText);
+        const sessionId = await ensureSession();
+
+        try {
+            const language = explanationLanguage;
+            const scriptResult = await analyzeTextWithThinking(inputText, selectedTone, selectedLevel, {
+                format: scriptFormat,
+                template: activeTemplate,
+                language,
+                signal: run.signal,
+                forceRegenerate,
+                onProgress: partial => {
+                    if (!run.isCurrent()) return;
+                    dispatch({ type: 'STREAM', runId: run.runId });
+                    setResultKind('script');
+                    setResultLanguage(language);
+                    setResultContent(partial);
+                },
+                onChunkProgress: progress => run.isCurrent() && setChunkProgress(progress),
+            });
+            if (!run.isCurrent()) return;
+            applySourcedResult(scriptResult, 'script');
+            setResultLanguage(language);
+            const params = promptParamsFor('script', language);
+            setResultParams(params);
+            const script = scriptResult.text;
+            if (sessionId) {
+                // Audio of an earlier script no longer matches, so drop it before saving the new one.
+                persist(async () => {
+                    await deleteSessionAudio(sessionId);
+                    await updateSession(sessionId, {
+                        tone: selectedTone,
+                        level: selectedLevel,
+                        language,
+                        scriptFormat,
+                        templateId: activeTemplate.builtIn ? undefined : activeTemplate.id,
+                        script,
+                        activeResult: 'script',
+                        sourceChunks: scriptResult.chunks,
+                        sourceReferences: scriptResult.references,
+                        qaHistory: [],
+                        annotations: keptAnnotations(sessionId),
+                        resultParams: params,
+                        rating: undefined,
+                    });
+                });
+            }
 
+            await synthesizeAudio(run, script, sessionId, language, forceRegenerate);
+        } catch (error) {
+            if (run.wasCancelled()) {
+                // A cancelled script is dropped; a complete script keeps whatever audio was already queued.
+                setChunkProgress(null);
+                if (playerRef.current) {
+                    playerRef.current.finish();
+                    syncPlaybackPosition();
+                } else {
+                    clearSourcedResult();
+                }
+                dispatch({ type: 'CANCEL', runId: run.runId });
+                return;
+            }
+            if (!run.isCurrent() || isAbortError(error)) return;
+            failRun(run, error);
+        }
+    };
+    
+    /** Narrates the current script again after its synthesis failed, keeping the script itself. */
+    const handleRetryAudio = async () => {
+        const script = resultContent;
+        if (!script) return;
+        const run = beginRun('audio');
+        resetPlayback();
+        clearError();
+        setAudioBuffer(null);
         try {
-            const script = await analyzeTextWithThinking(inputText, selectedTone, selectedLevel);
-            setResultContent(script);
-            setResultTitle('اسکریپت تولید شده');
+            await synthesizeAudio(run, script, activeSessionId, resultLanguage);
+        } catch (error) {
+            if (run.wasCancelled()) {
+                playerRef.current?.finish();
+                syncPlaybackPosition();
+                dispatch({ type: 'CANCEL', runId: run.runId });
+                return;
+            }
+            if (!run.isCurrent() || isAbortError(error)) return;
+            failRun(run, error);
+        }
+    };
+    
+    const handleSummarizeText = async (forceRegenerate = false) => {
+        if (!inputText.trim()) {
+            showError(t('input.emptyForSummary'));
+            dispatch({ type: 'REJECT_INPUT' });
+            return;
+        }
+
+        const run = beginRun('summary');
+        resetPlayback();
+        clearSourcedResult();
+        clearError();
+        setQaHistory([]);
+        setAudioBuffer(null);
+        setFeedbackSubmitted(false);
+        setFeedbackRating(0);
+        setFeedbackText('');
+        const sessionId = await ensureSession();
+
+        try {
+            const language = explanationLanguage;
+            const summary = await summarizeText(inputText, {
+                language,
+                signal: run.signal,
+                forceRegenerate,
+                onProgress: partial => {
+                    if (!run.isCurrent()) return;
+                    dispatch({ type: 'STREAM', runId: run.runId });
+                    setResultKind('summary');
+                    setResultLanguage(language);
+                    setResultContent(partial);
+                },
+                onChunkProgress: progress => run.isCurrent() && setChunkProgress(progress),
+            });
+            if (!run.isCurrent()) return;
+            applySourcedResult(summary, 'summary');
+            setResultLanguage(language);
+            const params = promptParamsFor('summary', language);
+            setResultParams(params);
+            dispatch({ type: 'SUCCEED', runId: run.runId });
+            if (sessionId) {
+                persist(() => updateSession(sessionId, {
+                    summary: summary.text,
+                    language,
+                    activeResult: 'summary',
+                    sourceChunks: summary.chunks,
+                    sourceReferences: summary.references,
+                    qaHistory: [],
+                    annotations: keptAnnotations(sessionId),
+                    resultParams: params,
+                    rating: undefined,
+                }));
+            }
+        } catch (error) {
+            if (run.wasCancelled()) {
+                clearSourcedResult();
+                dispatch({ type: 'CANCEL', runId: run.runId });
+                return;
+            }
+            if (!run.isCurrent() || isAbortError(error)) return;
+            failRun(run, error);
+        }
+    };
+
+    const handleGenerateQuiz = async () => {
+        if (!inputText.trim()) {
+            showError(t('input.emptyForQuiz'));
+            dispatch({ type: 'REJECT_INPUT' });
+            return;
+        }
 
-            setStatus(AppState.Synthesizing);
-            const base64Audio = await generateSpeech(script);
+        const run = beginRun('quiz');
+        clearError();
+        const sessionId = await ensureSession();
 
-            if (!audioContextRef.current) {
-                audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+        try {
+            const questions = await generateQuiz(inputText, {
+                language: explanationLanguage,
+                signal: run.signal,
+                onChunkProgress: progress => run.isCurrent() && setChunkProgress(progress),
+            });
+            if (!run.isCurrent()) return;
+            setQuiz(questions);
+            setChunkProgress(null);
+            dispatch({ type: 'SUCCEED', runId: run.runId });
+            if (sessionId) {
+                persist(() => updateSession(sessionId, { quiz: questions }));
+            }
+        } catch (error) {
+            if (run.wasCancelled()) {
+                setChunkProgress(null);
+                dispatch({ type: 'CANCEL', runId: run.runId });
+                return;
             }
-            const audioContext = audioContextRef.current;
-            await audioContext.resume();
+            if (!run.isCurrent() || isAbortError(error)) return;
+            failRun(run, error);
+        }
+    };
+
+    const handleExtractGlossary = async () => {
+        if (!inputText.trim()) {
+            showError(t('input.emptyForGlossary'));
+            dispatch({ type: 'REJECT_INPUT' });
+            return;
+        }
+
+        const run = beginRun('glossary');
+        clearError();
+        const sessionId = await ensureSession();
 
-            if (!gainNodeRef.current || gainNodeRef.current.context !== audioContext) {
-                gainNodeRef.current = audioContext.createGain();
-                gainNodeRef.current.connect(audioContext.destination);
+        try {
+            const terms = await extractGlossary(inputText, {
+                language: explanationLanguage,
+                signal: run.signal,
+                onChunkProgress: progress => run.isCurrent() && setChunkProgress(progress),
+            });
+            if (!run.isCurrent()) return;
+            setGlossary(terms);
+            setShowAnnotatedInput(true);
+            setChunkProgress(null);
+            dispatch({ type: 'SUCCEED', runId: run.runId });
+            if (sessionId) {
+                persist(() => updateSession(sessionId, { glossary: terms }));
+            }
+        } catch (error) {
+            if (run.wasCancelled()) {
+                setChunkProgress(null);
+                dispatch({ type: 'CANCEL', runId: run.runId });
+                return;
             }
+            if (!run.isCurrent() || isAbortError(error)) return;
+            failRun(run, error);
+        }
+    };
 
-            const audioData = decode(base64Audio);
-            const decodedBuffer = await decodeAudioData(audioData, audioContext, 24000, 1);
-            setAudioBuffer(decodedBuffer);
-
-            const source = audioContext.createBufferSource();
-            source.buffer = decodedBuffer;
-            source.playbackRate.value = playbackRate;
-            gainNodeRef.current.gain.setValueAtTime(volume, audioContext.currentTime);
-            source.connect(gainNodeRef.current);
-            
-            source.onended = () => {
-                setStatus(AppState.Idle);
-                audioSourceRef.current = null;
+    /**
+     * Opens the selection menu over a selected span of the input or the
+     * result, in place of the browser's own context menu. Without a selection
+     * the browser's menu shows as usual.
+     */
+    const openSelectionMenu = (e: React.MouseEvent, target: Annotation['target'], range: TextRange | null) => {
+        const selected = range && trimRange(target === 'input' ? inputText : resultContent, range);
+        if (!selected || isProcessing) return;
+        e.preventDefault();
+        // A context menu opened from the keyboard has no pointer position.
+        const anchor = e.clientX || e.clientY ? { x: e.clientX, y: e.clientY } : e.currentTarget.getBoundingClientRect();
+        setSelectionMenu({ target, range: selected, x: anchor.x, y: anchor.y });
+    };
+
+    const closeSelectionMenu = useCallback(() => setSelectionMenu(null), []);
+
+    /** Asks for a note on a span of the input or the result and anchors it there. */
+    const handleExplainSelection = async (target: Annotation['target'], range: TextRange, action: SelectionAction) => {
+        setSelectionMenu(null);
+        lastSelectionRef.current = { target, range, action };
+        const document = target === 'input' ? inputText : resultContent;
+        const run = beginRun('selection');
+        clearError();
+        const sessionId = await ensureSession();
+        // A new session starts without the annotations of the previous one.
+        const existing = sessionId === activeSessionId ? annotations : [];
+
+        try {
+            const note = await explainSelection(document, range, action, {
+                language: target === 'input' ? explanationLanguage : resultLanguage,
+                signal: run.signal,
+            });
+            if (!run.isCurrent()) return;
+            const annotation: Annotation = {
+                id: createAnnotationId(),
+                target,
+                start: range.start,
+                end: range.end,
+                quote: document.slice(range.start, range.end),
+                action,
+                text: note.text,
+                language: note.language,
+                createdAt: Date.now(),
             };
-            source.start();
-            audioSourceRef.current = source;
-            setStatus(AppState.Playing);
+            const next = [...existing, annotation];
+            setAnnotations(next);
+            setOpenAnnotationId(annotation.id);
+            if (target === 'input') {
+                setShowAnnotatedInput(true);
+            }
+            dispatch({ type: 'SUCCEED', runId: run.runId });
+            if (sessionId) {
+                persist(() => updateSession(sessionId, { annotations: next }));
+            }
+        } catch (error) {
+            if (run.wasCancelled()) {
+                dispatch({ type: 'CANCEL', runId: run.runId });
+                return;
+            }
+            if (!run.isCurrent() || isAbortError(error)) return;
+            failRun(run, error);
+        }
+    };
 
+    const handleDeleteAnnotation = (id: string) => {
+        setOpenAnnotationId(null);
+        updateAnnotations(annotations.filter(annotation => annotation.id !== id));
+    };
+
+    const runChatTurn = async (history: ChatMessage[], question: string) => {
+        const userTurn: ChatMessage = { role: 'user', text: question };
+        const run = beginRun('chat');
+        clearError();
+        setQaHistory([...history, userTurn]);
+        setPendingReply('');
+        try {
+            const context = { sourceText: inputText, result: resultContent && resultKind ? { kind: resultKind, text: resultContent } : undefined };
+            const reply = await sendChatMessage(context, history, question, {
+                language: resultLanguage,
+                signal: run.signal,
+                onProgress: partial => run.isCurrent() && setPendingReply(partial),
+            });
+            if (!run.isCurrent()) return;
+            updateQaHistory([...history, userTurn, reply]);
+            dispatch({ type: 'SUCCEED', runId: run.runId });
         } catch (error) {
-            const message = error instanceof Error ? error.message : 'یک خطای ناشناخته رخ داد.';
-            console.error(error);
-            setErrorMessage(message);
-            setStatus(AppState.Error);
+            if (run.wasCancelled()) {
+                // The unanswered question is withdrawn so it can be edited and asked again.
+                setQaHistory(history);
+                dispatch({ type: 'CANCEL', runId: run.runId });
+                return;
+            }
+            if (!run.isCurrent() || isAbortError(error)) return;
+            failRun(run, error);
+        } finally {
+            if (runIdRef.current === run.runId) {
+                setPendingReply(null);
+            }
+        }
+    };
+
+    const handleEditChatTurn = (index: number, question: string) => runChatTurn(qaHistory.slice(0, index), question);
+
+    const handleReaskChatTurn = (index: number) => runChatTurn(qaHistory.slice(0, index), qaHistory[index].text);
+
+    /** Runs the failed step again: the script, the summary, the narration, a selection note, a section or the unanswered chat question. */
+    const handleRetry = () => {
+        const lastTurn = qaHistory[qaHistory.length - 1];
+        const lastSelection = lastSelectionRef.current;
+        switch (failure?.step) {
+            case 'script':
+                return handleProcessText();
+            case 'summary':
+                return handleSummarizeText();
+            case 'speech':
+                return handleRetryAudio();
+            case 'quiz':
+                return handleGenerateQuiz();
+            case 'glossary':
+                return handleExtractGlossary();
+            case 'selection':
+                if (lastSelection) {
+                    return handleExplainSelection(lastSelection.target, lastSelection.range, lastSelection.action);
+                }
+                return;
+            case 'section':
+                if (lastSectionRef.current !== null) {
+                    return handleRegenerateSection(lastSectionRef.current);
+                }
+                return;
+            case 'chat':
+                if (lastTurn?.role === 'user') {
+                    return runChatTurn(qaHistory.slice(0, -1), lastTurn.text);
+                }
         }
     };
+
+    const handleStartChatFromSummary = () => {
+        updateQaHistory([
+            { role: 'user', text: t('chat.summaryRequest') },
+            { role: 'model', text: resultContent },
+        ]);
+    };
     
-    const handleSummarizeText = async () => {
-        if (!inputText.trim()) {
-            setErrorMessage('لطفاً برای خلاصه‌سازی، متنی را وارد کنید.');
-            setStatus(AppState.Error);
-            return;
+    const downloadBlob = (blob: Blob, fileName: string) => {
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = fileName;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+    };
+
+    const handleChooseMusic = async (file: File) => {
+        try {
+            const { audioContext } = await ensureAudioGraph();
+            setBackgroundMusic({ name: file.name, buffer: await audioContext.decodeAudioData(await file.arrayBuffer()) });
+        } catch (error) {
+            console.error("Error decoding background music:", error);
+            showError(t('errors.music', { name: file.name }));
         }
+    };
 
-        stopPlayback();
-        setStatus(AppState.Summarizing);
-        setResultContent('');
-        setResultTitle('');
-        setErrorMessage('');
-        setQaHistory([]);
-        addToHistory(inputText);
+    /** The narration as exported: with the background music mixed in, if one was chosen. */
+    const exportedAudio = (speech: AudioBuffer): Promise<AudioBuffer> =>
+        backgroundMusic ? mixWithMusic(speech, backgroundMusic.buffer) : Promise.resolve(speech);
+
+    const handleDownload = async (format: ExportFormat) => {
+        if (format === 'script') {
+            downloadBlob(new Blob([resultContent], { type: 'text/markdown;charset=utf-8' }), resultKind === 'summary' ? 'summary.md' : 'script.md');
+        } else if (format === 'wav' && audioBuffer) {
+            try {
+                downloadBlob(audioBufferToWav(await exportedAudio(audioBuffer)), 'explanation.wav');
+            } catch (error) {
+                console.error("Error rendering WAV:", error);
+                showError(t('errors.wav'));
+            }
+        } else if (format === 'mp3' && audioBuffer) {
+            setExportProgress({ format, progress: 0 });
+            try {
+                const mp3 = await encodeMp3(await exportedAudio(audioBuffer), {
+                    metadata: {
+                        title: defaultSessionName(inputText),
+                        artist: t('app.title'),
+                        source: inputText.length > 500 ? `${inputText.slice(0, 500)}…` : inputText,
+                    },
+                    onProgress: progress => setExportProgress({ format, progress }),
+                });
+                downloadBlob(mp3, 'explanation.mp3');
+            } catch (error) {
+                console.error("Error encoding MP3:", error);
+                showError(t('errors.mp3'));
+            } finally {
+                setExportProgress(null);
+            }
+        } else if (format === 'srt' && sentenceTimings.length > 0) {
+            downloadBlob(new Blob([buildSrt(sentenceTimings)], { type: 'application/x-subrip;charset=utf-8' }), 'explanation.srt');
+        } else if (format === 'vtt' && sentenceTimings.length > 0) {
+            downloadBlob(new Blob([buildWebVtt(sentenceTimings)], { type: 'text/vtt;charset=utf-8' }), 'explanation.vtt');
+        }
+    };
+
+    const handleQuizExport = (format: QuizExportFormat) => {
+        if (!quiz) return;
+        if (format === 'json') {
+            downloadBlob(new Blob([quizToJson(quiz)], { type: 'application/json' }), 'quiz.json');
+        } else {
+            downloadBlob(new Blob([quizToCsv(quiz)], { type: 'text/csv;charset=utf-8' }), 'quiz.csv');
+        }
+    };
+
+    const handleGlossaryDownload = () => {
+        if (!inputGlossary.length) return;
+        downloadBlob(new Blob([glossaryToCsv(inputGlossary)], { type: 'text/csv;charset=utf-8' }), 'glossary.csv');
+    };
+
+    /** Selects an occurrence in the textarea, which has to be back in place of the annotated view first. */
+    const handleShowOccurrence = (range: TextRange) => {
+        setShowAnnotatedInput(false);
+        window.setTimeout(() => highlightInputRange(range.start, range.end));
+    };
+
+    const updateFlashcards = (cards: Flashcard[]) => {
+        setFlashcards(cards);
+        saveFlashcards(cards);
+    };
+
+    const handleAddFlashcards = (): number => {
+        if (!quiz) return 0;
+        const added = flashcardsFromQuiz(quiz, flashcards);
+        updateFlashcards([...flashcards, ...added]);
+        return added.length;
+    };
+
+    const handleReviewFlashcard = (id: string, grade: ReviewGrade) => {
+        updateFlashcards(flashcards.map(card => (card.id === id ? scheduleReview(card, grade) : card)));
+    };
+
+    const handlePlayPause = () => {
+        const player = playerRef.current;
+        if (!player) return;
+        if (player.isPlaying()) {
+            player.pause();
+            dispatch({ type: 'PAUSE' });
+        } else {
+            player.play();
+            dispatch({ type: 'PLAY' });
+        }
+        syncPlaybackPosition();
+    };
+
+    const handleSeek = (position: number) => {
+        playerRef.current?.seek(position);
+        syncPlaybackPosition();
+    };
+
+    const handleReplay = () => {
+        const player = playerRef.current;
+        if (!player) return;
+        player.seek(0);
+        player.play();
+        dispatch({ type: 'PLAY' });
+        syncPlaybackPosition();
+    };
+
+    const handleSkipSentence = (direction: -1 | 1) => {
+        const player = playerRef.current;
+        if (!player || sentenceTimings.length === 0) return;
+        const position = player.getPosition();
+        const current = findSentenceIndex(sentenceTimings, position);
+        let target = current + direction;
+        // Like a track list: "previous" first returns to the start of the current sentence.
+        if (direction === -1 && current >= 0 && position - sentenceTimings[current].start > 1.5) {
+            target = current;
+        }
+        target = Math.max(0, Math.min(sentenceTimings.length - 1, target));
+        handleSeek(sentenceTimings[target].start);
+    };
+
+    const handleSentenceClick = (index: number) => {
+        const player = playerRef.current;
+        const sentence = sentenceTimings[index];
+        if (!player || !sentence) return;
+        player.seek(sentence.start);
+        if (!player.isPlaying()) {
+            player.play();
+            dispatch({ type: 'PLAY' });
+        }
+        syncPlaybackPosition();
+    };
 
+    /** Plays a short clip once, outside the narration player. */
+    const playClip = async (base64Audio: string) => {
+        const { audioContext, gainNode } = await ensureAudioGraph();
+        const source = audioContext.createBufferSource();
+        source.buffer = await decodeAudioData(decode(base64Audio), audioContext, 24000, 1);
+        source.connect(gainNode);
+        source.start();
+    };
+
+    const handlePreviewVoice = async (voice: string) => {
+        setPreviewingVoice(voice);
         try {
-            const summary = await summarizeText(inputText);
-            setResultContent(summary);
-            setResultTitle('خلاصه');
-            setStatus(AppState.Idle);
+            await playClip(await previewVoice(voice, explanationLanguage));
         } catch (error) {
-            const message = error instanceof Error ? error.message : 'یک خطای ناشناخته رخ داد.';
             console.error(error);
-            setErrorMessage(message);
-            setStatus(AppState.Error);
+            showError(error instanceof Error ? error.message : t('errors.unknown'));
+        } finally {
+            setPreviewingVoice(null);
         }
     };
 
-    const handleAskQuestion = async (e: React.FormEvent) => {
-        e.preventDefault();
-        if (!question.trim()) return;
-        
-        setStatus(AppState.Answering);
-        setErrorMessage('');
+    const handlePronounceTerm = async (term: string) => {
+        if (pronouncingTerm) return;
+        setPronouncingTerm(term);
         try {
-            const answer = await answerQuestion(inputText, question);
-            setQaHistory(prev => [...prev, { question, answer }]);
-            setQuestion('');
-            setStatus(AppState.Idle);
+            await playClip(await pronounceTerm(term, scriptFormat === 'dialogue' ? dialogueVoices[0] : selectedVoice));
         } catch (error) {
-            const message = error instanceof Error ? error.message : 'یک خطای ناشناخته رخ داد.';
             console.error(error);
-            setErrorMessage(message);
-            setStatus(AppState.Error);
+            showError(error instanceof Error ? error.message : t('errors.unknown'));
+        } finally {
+            setPronouncingTerm(null);
         }
     };
-    
-    const handleDownload = (type: 'script' | 'audio') => {
-        if (type === 'script') {
-            const blob = new Blob([resultContent], { type: 'text/plain;charset=utf-8' });
-            const url = URL.createObjectURL(blob);
-            const a = document.createElement('a');
-            a.href = url;
-            a.download = 'script.txt';
-            document.body.appendChild(a);
-            a.click();
-            document.body.removeChild(a);
-            URL.revokeObjectURL(url);
-        } else if (type === 'audio' && audioBuffer) {
-            const wavBlob = audioBufferToWav(audioBuffer);
-            const url = URL.createObjectURL(wavBlob);
-            const a = document.createElement('a');
-            a.href = url;
-            a.download = 'explanation.wav';
-            document.body.appendChild(a);
-            a.click();
-            document.body.removeChild(a);
-            URL.revokeObjectURL(url);
+
+    const handleSpeakAnnotation = async (annotation: Annotation) => {
+        if (speakingAnnotationId) return;
+        setSpeakingAnnotationId(annotation.id);
+        try {
+            await playClip(await speakAnnotation(annotation.text, scriptFormat === 'dialogue' ? dialogueVoices[0] : selectedVoice));
+        } catch (error) {
+            console.error(error);
+            showError(error instanceof Error ? error.message : t('errors.unknown'));
+        } finally {
+            setSpeakingAnnotationId(null);
         }
     };
 
+    const handleSaveSettings = (next: AppSettings) => {
+        applySettings(next);
+        setSettings(next);
+        setShowSettings(false);
+        // Changed defaults apply right away; the provider may have changed too, so voices are checked again.
+        if (next.defaultTone !== settings.defaultTone) setSelectedTone(next.defaultTone);
+        if (next.defaultLevel !== settings.defaultLevel) setSelectedLevel(next.defaultLevel);
+        setSelectedVoice(current => availableVoice(next.defaultVoice !== settings.defaultVoice ? next.defaultVoice : current));
+        setDialogueVoices(current => current.map(availableVoice));
+    };
+
+    /** Switches the interface language and direction; the explanation language is chosen separately. */
+    const handleToggleLocale = () => {
+        const locale = LOCALES.find(candidate => candidate !== getLocale()) ?? 'fa';
+        const next = { ...settings, locale };
+        saveSettings(next);
+        setLocale(locale);
+        setSettings(next);
+    };
+
     const handleVolumeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         const newVolume = parseFloat(e.target.value);
         setVolume(newVolume);
@@ -203,96 +1191,406 @@ const App: React.FC = () => {
     const handlePlaybackRateChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         const newRate = parseFloat(e.target.value);
         setPlaybackRate(newRate);
-        if (audioSourceRef.current) {
-            audioSourceRef.current.playbackRate.value = newRate;
-        }
+        playerRef.current?.setPlaybackRate(newRate);
     };
 
-    const handleSubmitFeedback = () => {
-        console.log('Feedback submitted:', { rating: feedbackRating, text: feedbackText });
+    const handleSubmitFeedback = async () => {
         setFeedbackSubmitted(true);
+        if (activeSessionId) {
+            persist(() => updateSession(activeSessionId, { rating: { stars: feedbackRating, comment: feedbackText } }));
+        }
+        setFeedbackEntries(await recordFeedback({
+            sessionId: activeSessionId,
+            stars: feedbackRating,
+            comment: feedbackText.trim(),
+            // Sessions saved before parameters were recorded fall back to their restored selections.
+            params: resultParams ?? promptParamsFor(resultKind ?? 'script', resultLanguage),
+            output: resultContent,
+        }));
     };
 
-    const isProcessing = [AppState.Analyzing, AppState.Synthesizing, AppState.Summarizing, AppState.Answering].includes(status);
-    const tones = ['دوستانه', 'رسمی', 'مشتاقانه', 'خنثی'];
-    const levels = ['مبتدی', 'متوسط', 'پیشرفته'];
-    
+    const updatePromptLibrary = (library: PromptLibrary) => {
+        setPromptLibrary(library);
+        savePromptLibrary(library);
+    };
+
+    /** Switches the language and format to the template's, so it applies to the next script. */
+    const handleUseTemplate = (template: PromptTemplate) => {
+        setExplanationLanguage(template.language);
+        setScriptFormat(template.format);
+        setSelectedTemplateId(template.builtIn ? '' : template.id);
+        setShowTemplates(false);
+    };
+
+    const handleTemplatesExport = () => {
+        downloadBlob(new Blob([libraryToJson(promptLibrary)], { type: 'application/json' }), 'prompt-templates.json');
+    };
+
+    const handleFeedbackExport = (format: FeedbackExportFormat) => {
+        if (format === 'json') {
+            downloadBlob(new Blob([feedbackToJson(feedbackEntries)], { type: 'application/json' }), 'feedback.json');
+        } else {
+            downloadBlob(new Blob([feedbackToCsv(feedbackEntries)], { type: 'text/csv;charset=utf-8' }), 'feedback.csv');
+        }
+    };
+
+    const handleOpenSession = async (session: Session) => {
+        abandonRun();
+        resetPlayback();
+        setShowHistory(false);
+        setAudioBuffer(null);
+        clearError();
+        setActiveSessionId(session.id);
+        sessionInputRef.current = session.inputText;
+        setInputText(session.inputText);
+        if (session.tone) setSelectedTone(toToneChoice(session.tone));
+        if (session.level) setSelectedLevel(toLevelChoice(session.level));
+        setSelectedTemplateId(session.templateId ?? '');
+        // Sessions saved before the language choice existed were all written in Persian.
+        setExplanationLanguage(session.language ?? 'fa');
+        setResultLanguage(session.language ?? 'fa');
+        setScriptFormat(session.scriptFormat ?? 'monologue');
+        const result = session.activeResult === 'summary' ? session.summary : session.script;
+        setResultContent(result ?? '');
+        setResultKind(result ? (session.activeResult === 'summary' ? 'summary' : 'script') : null);
+        setSourceChunks(session.sourceChunks);
+        setSourceReferences(session.sourceReferences);
+        setChunkProgress(null);
+        setFromCache({ text: false, audio: false });
+        setQaHistory(session.qaHistory);
+        setQuiz(session.quiz ?? null);
+        setGlossary(session.glossary ?? null);
+        setAnnotations(session.annotations ?? []);
+        setOpenAnnotationId(null);
+        setShowAnnotatedInput(false);
+        setFeedbackRating(session.rating?.stars ?? 0);
+        setFeedbackText(session.rating?.comment ?? '');
+        setFeedbackSubmitted(Boolean(session.rating));
+        setResultParams(session.resultParams ?? null);
+
+        if (!session.hasAudio || session.activeResult !== 'script') return;
+        try {
+            const stored = await getSessionAudio(session.id);
+            if (!stored) return;
+            const { audioContext } = await ensureAudioGraph();
+            const buffer = await decodeAudioData(new Uint8Array(stored.pcm), audioContext, stored.sampleRate, stored.numChannels);
+            await loadNarration(buffer, stored.sentenceTimings);
+        } catch (error) {
+            console.error("Failed to restore session audio", error);
+        }
+    };
+
+    const handleRenameSession = (id: string, name: string) => {
+        const session = sessions.find(item => item.id === id);
+        persist(() => updateSession(id, { name, updatedAt: session?.updatedAt }));
+    };
+
+    const handleTogglePinSession = (session: Session) => {
+        persist(() => updateSession(session.id, { pinned: !session.pinned, updatedAt: session.updatedAt }));
+    };
+
+    const handleDeleteSession = (id: string) => {
+        if (id === activeSessionId) {
+            setActiveSessionId(null);
+            sessionInputRef.current = null;
+        }
+        persist(() => deleteSession(id));
+    };
+
+    const isProcessing = [AppState.Analyzing, AppState.Streaming, AppState.Synthesizing, AppState.Summarizing, AppState.Answering, AppState.GeneratingQuiz, AppState.ExtractingGlossary, AppState.ExplainingSelection, AppState.RegeneratingSection].includes(status);
+    const isStreaming = status === AppState.Streaming;
+    const activeSentenceIndex = status === AppState.Playing || status === AppState.Paused
+        ? findSentenceIndex(sentenceTimings, playbackPosition)
+        : -1;
+    const isSummaryBusy = status === AppState.Summarizing || (isStreaming && resultKind === 'summary');
+    const dueFlashcardCount = dueCards(flashcards).length;
+    const hasInputMarkup = inputGlossary.length > 0 || inputAnnotations.length > 0;
+
+    const renderAnnotationMarker = (annotation: Annotation) => (
+        <AnnotationMarker
+            annotation={annotation}
+            number={(annotation.target === 'input' ? inputAnnotations : resultAnnotations).indexOf(annotation) + 1}
+            open={openAnnotationId === annotation.id}
+            speaking={speakingAnnotationId === annotation.id}
+            onToggle={() => setOpenAnnotationId(openAnnotationId === annotation.id ? null : annotation.id)}
+            onSpeak={() => handleSpeakAnnotation(annotation)}
+            onDelete={() => handleDeleteAnnotation(annotation.id)}
+        />
+    );
+
+    const renderSectionActions = (index: number) => (
+        <>
+            <button
+                onClick={() => handleRegenerateSection(index)}
+                disabled={isProcessing}
+                title={t('script.regenerateSection')}
+                aria-label={t('script.regenerateSection')}
+                className="p-1.5 text-gray-400 hover:text-purple-300 hover:bg-gray-700 rounded transition-colors disabled:opacity-40 disabled:pointer-events-none"
+            >
+                <SparkIcon className="w-4 h-4" />
+            </button>
+            {audioBuffer && (
+                <button
+                    onClick={() => handleRenarrateSection(index)}
+                    disabled={isProcessing}
+                    title={t('script.renarrateSection')}
+                    aria-label={t('script.renarrateSection')}
+                    className="p-1.5 text-gray-400 hover:text-purple-300 hover:bg-gray-700 rounded transition-colors disabled:opacity-40 disabled:pointer-events-none"
+                >
+                    <SoundWaveIcon className="w-4 h-4" />
+                </button>
+            )}
+        </>
+    );
+
     return (
         <div className="min-h-screen bg-gray-900 text-gray-100 flex flex-col items-center p-4 sm:p-6 md:p-8 font-sans">
             <main className="w-full max-w-3xl mx-auto flex flex-col gap-8">
-                <header className="text-center">
+                <header className="relative text-center">
+                    <button onClick={handleToggleLocale} className="absolute top-0 start-0 p-2 text-sm text-gray-400 hover:text-white">
+                        {t('app.switchLocale')}
+                    </button>
+                    <div className="absolute top-0 end-0 flex items-center">
+                        <button onClick={() => setShowBatch(true)} className="p-2 text-gray-400 hover:text-white" title={t('batch.title')}>
+                            <QueueListIcon className="w-6 h-6" />
+                        </button>
+                        <button onClick={() => setShowAnalytics(true)} className="p-2 text-gray-400 hover:text-white" title={t('analytics.title')}>
+                            <ChartBarIcon className="w-6 h-6" />
+                        </button>
+                        <button onClick={() => setShowFlashcards(true)} className="relative p-2 text-gray-400 hover:text-white" title={t('flashcards.title')}>
+                            <CardsIcon className="w-6 h-6" />
+                            {dueFlashcardCount > 0 && (
+                                <span className="absolute top-0 end-0 min-w-[1.25rem] px-1 text-xs tabular-nums bg-purple-600 text-white rounded-full">{formatNumber(dueFlashcardCount)}</span>
+                            )}
+                        </button>
+                        <button onClick={() => setShowSettings(true)} disabled={isProcessing} className="p-2 text-gray-400 hover:text-white disabled:text-gray-600" title={t('app.settings')}>
+                            <SettingsIcon className="w-6 h-6" />
+                        </button>
+                    </div>
                     <h1 className="text-4xl sm:text-5xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-purple-400 to-cyan-400">
-                        تشریح کننده متن با هوش مصنوعی
+                        {t('app.title')}
                     </h1>
                     <p className="mt-2 text-lg text-gray-400">
-                        متن را برای خلاصه‌سازی، توضیحات صوتی، یا پرسیدن سوال وارد کنید.
+                        {t('app.subtitle')}
                     </p>
+                    <p className="mt-1 text-xs text-gray-500">{t('app.model', { label: getActiveProviderLabel() })}</p>
                 </header>
 
+                {showSettings && (
+                    <SettingsPanel
+                        settings={settings}
+                        providerLabel={getActiveProviderLabel()}
+                        voices={getAvailableVoices()}
+                        activeModels={getActiveModels()}
+                        modelSuggestions={getModelSuggestions()}
+                        thinkingRange={getThinkingRange}
+                        onSave={handleSaveSettings}
+                        onClose={() => setShowSettings(false)}
+                    />
+                )}
+
+                {showTemplates && (
+                    <TemplateManager
+                        library={promptLibrary}
+                        initialTemplateId={activeTemplate.id}
+                        previewText={inputText}
+                        tone={selectedTone}
+                        level={selectedLevel}
+                        onChange={updatePromptLibrary}
+                        onUse={handleUseTemplate}
+                        onExport={handleTemplatesExport}
+                        onClose={() => setShowTemplates(false)}
+                    />
+                )}
+
+                <BatchQueue
+                    open={showBatch}
+                    currentText={inputText}
+                    settings={{
+                        tone: selectedTone,
+                        level: selectedLevel,
+                        format: scriptFormat,
+                        template: activeTemplate,
+                        language: explanationLanguage,
+                        voice: voiceSelectionFor(explanationLanguage),
+                        processing: isLastChunk => speechProcessingOptions(settings, isLastChunk),
+                    }}
+                    getAudioContext={async () => (await ensureAudioGraph()).audioContext}
+                    onDownload={downloadBlob}
+                    onClose={() => setShowBatch(false)}
+                />
+
+                {showAnalytics && (
+                    <FeedbackAnalytics entries={feedbackEntries} onExport={handleFeedbackExport} onClose={() => setShowAnalytics(false)} />
+                )}
+
+                {showFlashcards && (
+                    <FlashcardReview
+                        cards={flashcards}
+                        onReview={handleReviewFlashcard}
+                        onDelete={id => updateFlashcards(flashcards.filter(card => card.id !== id))}
+                        onClose={() => setShowFlashcards(false)}
+                    />
+                )}
+
                 <div className="bg-gray-800/50 rounded-xl shadow-lg p-6 backdrop-blur-sm border border-gray-700">
                     <div className="relative">
+                       {showAnnotatedInput && hasInputMarkup ? (
+                           <div
+                               ref={annotatedInputRef}
+                               dir="auto"
+                               aria-label={t('input.label')}
+                               onContextMenu={e => annotatedInputRef.current && openSelectionMenu(e, 'input', rangeFromSelection(annotatedInputRef.current, window.getSelection()))}
+                               className="w-full h-48 p-4 pe-20 bg-gray-900 border border-gray-600 rounded-lg overflow-y-auto whitespace-pre-wrap"
+                           >
+                               <GlossaryText
+                                   text={inputText}
+                                   glossary={inputGlossary}
+                                   onPronounce={handlePronounceTerm}
+                                   annotations={inputAnnotations}
+                                   renderMarker={renderAnnotationMarker}
+                               />
+                           </div>
+                       ) : (
                        <textarea
+                            ref={inputRef}
                             value={inputText}
                             onChange={(e) => setInputText(e.target.value)}
-                            placeholder="هر متنی را اینجا وارد کنید..."
+                            onContextMenu={e => openSelectionMenu(e, 'input', { start: e.currentTarget.selectionStart, end: e.currentTarget.selectionEnd })}
+                            placeholder={t('input.placeholder')}
+                            dir="auto"
                             className="w-full h-48 p-4 bg-gray-900 border border-gray-600 rounded-lg focus:ring-2 focus:ring-purple-500 focus:outline-none resize-none transition-all duration-300"
                             disabled={isProcessing}
-                            aria-label="ورودی متن برای تحلیل"
+                            aria-label={t('input.label')}
                         />
-                         <button onClick={() => setShowHistory(!showHistory)} className="absolute top-2 left-2 text-gray-400 hover:text-white" title="تاریخچه"><HistoryIcon className="w-6 h-6"/></button>
-                         {showHistory && (
-                            <div className="absolute z-10 top-12 left-2 w-64 max-h-60 overflow-y-auto bg-gray-800 border border-gray-700 rounded-lg shadow-xl">
-                                {history.length > 0 ? history.map((item, index) => (
-                                    <button key={index} onClick={() => { setInputText(item); setShowHistory(false); }} className="block w-full text-right px-4 py-2 text-sm text-gray-300 hover:bg-gray-700 truncate">
-                                        {item}
-                                    </button>
-                                )) : <p className="px-4 py-2 text-sm text-gray-500">تاریخچه خالی است.</p>}
-                            </div>
+                       )}
+                         {hasInputMarkup && (
+                             <button
+                                 onClick={() => setShowAnnotatedInput(!showAnnotatedInput)}
+                                 disabled={isProcessing}
+                                 className={`absolute top-2 end-10 disabled:text-gray-600 ${showAnnotatedInput ? 'text-amber-400 hover:text-amber-200' : 'text-gray-400 hover:text-white'}`}
+                                 title={showAnnotatedInput ? t('glossary.editInput') : t('glossary.annotateInput')}
+                             >
+                                 <BookOpenIcon className="w-6 h-6"/>
+                             </button>
+                         )}
+                         <button onClick={() => setShowHistory(!showHistory)} disabled={isProcessing} className="absolute top-2 end-2 text-gray-400 hover:text-white disabled:text-gray-600" title={t('app.sessions')}><HistoryIcon className="w-6 h-6"/></button>
+                         {showHistory && !isProcessing && (
+                            <SessionLibrary
+                                sessions={sessions}
+                                usage={storageUsage}
+                                activeSessionId={activeSessionId}
+                                onOpen={handleOpenSession}
+                                onRename={handleRenameSession}
+                                onTogglePin={handleTogglePinSession}
+                                onDelete={handleDeleteSession}
+                                onDeleteAudio={id => persist(() => deleteSessionAudio(id))}
+                                onPrune={() => persist(() => pruneOldAudio())}
+                            />
                          )}
                     </div>
+
+                    <DocumentImporter disabled={isProcessing} onApply={setInputText} />
                     
-                    <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div className="mt-4 grid grid-cols-1 sm:grid-cols-3 gap-4">
                         <div>
-                            <label htmlFor="tone-select" className="block text-sm font-medium text-gray-400 mb-1">لحن</label>
+                            <label htmlFor="tone-select" className="block text-sm font-medium text-gray-400 mb-1">{t('options.tone')}</label>
                             <select id="tone-select" value={selectedTone} onChange={e => setSelectedTone(e.target.value)} disabled={isProcessing} className="w-full bg-gray-900 border border-gray-600 rounded-lg p-2 focus:ring-2 focus:ring-purple-500 focus:outline-none">
-                                {tones.map(tone => <option key={tone} value={tone}>{tone}</option>)}
+                                {TONES.map(tone => <option key={tone} value={tone}>{t(`tone.${tone}`)}</option>)}
+                                {customTones.length > 0 && (
+                                    <optgroup label={t('templates.tones')}>
+                                        {customTones.map(tone => <option key={tone} value={tone}>{tone}</option>)}
+                                    </optgroup>
+                                )}
                             </select>
                         </div>
                         <div>
-                            <label htmlFor="level-select" className="block text-sm font-medium text-gray-400 mb-1">سطح جزئیات</label>
+                            <label htmlFor="level-select" className="block text-sm font-medium text-gray-400 mb-1">{t('options.level')}</label>
                             <select id="level-select" value={selectedLevel} onChange={e => setSelectedLevel(e.target.value)} disabled={isProcessing} className="w-full bg-gray-900 border border-gray-600 rounded-lg p-2 focus:ring-2 focus:ring-purple-500 focus:outline-none">
-                                {levels.map(level => <option key={level} value={level}>{level}</option>)}
+                                {LEVELS.map(level => <option key={level} value={level}>{t(`level.${level}`)}</option>)}
+                                {customLevels.length > 0 && (
+                                    <optgroup label={t('templates.audiences')}>
+                                        {customLevels.map(level => <option key={level} value={level}>{level}</option>)}
+                                    </optgroup>
+                                )}
+                            </select>
+                        </div>
+                        <div>
+                            <label htmlFor="language-select" className="block text-sm font-medium text-gray-400 mb-1">{t('options.language')}</label>
+                            <select id="language-select" value={explanationLanguage} onChange={e => setExplanationLanguage(e.target.value as Locale)} disabled={isProcessing} className="w-full bg-gray-900 border border-gray-600 rounded-lg p-2 focus:ring-2 focus:ring-purple-500 focus:outline-none">
+                                {LOCALES.map(language => <option key={language} value={language}>{t(`language.${language}`)}</option>)}
                             </select>
                         </div>
                     </div>
 
+                    <div className="mt-4">
+                        <label htmlFor="template-select" className="block text-sm font-medium text-gray-400 mb-1">{t('options.template')}</label>
+                        <div className="flex gap-2">
+                            <select id="template-select" value={activeTemplate.id} onChange={e => setSelectedTemplateId(e.target.value)} disabled={isProcessing} className="w-full bg-gray-900 border border-gray-600 rounded-lg p-2 focus:ring-2 focus:ring-purple-500 focus:outline-none">
+                                {templatesFor(promptLibrary, explanationLanguage, scriptFormat).map(template => (
+                                    <option key={template.id} value={template.id}>{templateLabel(template)}</option>
+                                ))}
+                            </select>
+                            <button onClick={() => setShowTemplates(true)} disabled={isProcessing} className="px-4 text-sm text-gray-300 border border-gray-600 rounded-lg hover:bg-gray-700 disabled:text-gray-600 whitespace-nowrap">
+                                {t('templates.manage')}
+                            </button>
+                        </div>
+                    </div>
+
+                    <VoicePicker
+                        voices={getAvailableVoices()}
+                        format={scriptFormat}
+                        onFormatChange={setScriptFormat}
+                        voice={selectedVoice}
+                        onVoiceChange={setSelectedVoice}
+                        speakers={getDialogueSpeakers(explanationLanguage)}
+                        dialogueVoices={dialogueVoices}
+                        onDialogueVoicesChange={setDialogueVoices}
+                        previewingVoice={previewingVoice}
+                        onPreview={handlePreviewVoice}
+                        disabled={isProcessing}
+                    />
+
                     <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-4">
                         <div>
-                            <label htmlFor="volume-slider" className="block text-sm font-medium text-gray-400 mb-1">بلندی صدا: {Math.round(volume * 100)}%</label>
+                            <label htmlFor="volume-slider" className="block text-sm font-medium text-gray-400 mb-1">{t('options.volume', { percent: Math.round(volume * 100) })}</label>
                             <input id="volume-slider" type="range" min="0" max="1" step="0.05" value={volume} onChange={handleVolumeChange} className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-purple-500" />
                         </div>
                         <div>
-                            <label htmlFor="speed-slider" className="block text-sm font-medium text-gray-400 mb-1">سرعت پخش: {playbackRate.toFixed(2)}x</label>
+                            <label htmlFor="speed-slider" className="block text-sm font-medium text-gray-400 mb-1">{t('options.speed', { rate: formatNumber(playbackRate, { minimumFractionDigits: 2, maximumFractionDigits: 2 }) })}</label>
                             <input id="speed-slider" type="range" min="0.5" max="2" step="0.1" value={playbackRate} onChange={handlePlaybackRateChange} className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-cyan-500" />
                         </div>
                     </div>
 
                     <div className="mt-6 flex flex-col sm:flex-row-reverse items-center gap-4">
                         {status !== AppState.Playing ? (
-                             <button onClick={handleProcessText} disabled={isProcessing} className="w-full sm:w-auto flex items-center justify-center gap-2 px-6 py-3 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-semibold rounded-lg shadow-md transition-all duration-300 transform hover:scale-105">
-                                {isProcessing && status !== AppState.Summarizing ? <SpinnerIcon className="w-5 h-5" /> : <SparkIcon className="w-5 h-5" />}
-                                <span>تحلیل و پخش صوتی</span>
+                             <button onClick={() => handleProcessText()} disabled={isProcessing} className="w-full sm:w-auto flex items-center justify-center gap-2 px-6 py-3 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-semibold rounded-lg shadow-md transition-all duration-300 transform hover:scale-105">
+                                {isProcessing && !isSummaryBusy ? <SpinnerIcon className="w-5 h-5" /> : <SparkIcon className="w-5 h-5" />}
+                                <span>{t('actions.analyze')}</span>
                             </button>
                         ) : (
                             <button onClick={stopPlayback} className="w-full sm:w-auto flex items-center justify-center gap-2 px-6 py-3 bg-red-600 hover:bg-red-700 text-white font-semibold rounded-lg shadow-md transition-all duration-300 transform hover:scale-105">
                                 <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8 9a1 1 0 011-1h2a1 1 0 110 2H9a1 1 0 01-1-1z" clipRule="evenodd" /></svg>
-                                <span>توقف</span>
+                                <span>{t('actions.stop')}</span>
                             </button>
                         )}
-                        <button onClick={handleSummarizeText} disabled={isProcessing} className="w-full sm:w-auto flex items-center justify-center gap-2 px-6 py-3 bg-cyan-600 hover:bg-cyan-700 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-semibold rounded-lg shadow-md transition-all duration-300 transform hover:scale-105">
-                            {isProcessing && status === AppState.Summarizing ? <SpinnerIcon className="w-5 h-5" /> : <DocumentTextIcon className="w-5 h-5" />}
-                            <span>خلاصه‌سازی</span>
+                        <button onClick={() => handleSummarizeText()} disabled={isProcessing} className="w-full sm:w-auto flex items-center justify-center gap-2 px-6 py-3 bg-cyan-600 hover:bg-cyan-700 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-semibold rounded-lg shadow-md transition-all duration-300 transform hover:scale-105">
+                            {isSummaryBusy ? <SpinnerIcon className="w-5 h-5" /> : <DocumentTextIcon className="w-5 h-5" />}
+                            <span>{t('actions.summarize')}</span>
+                        </button>
+                        <button onClick={handleGenerateQuiz} disabled={isProcessing} className="w-full sm:w-auto flex items-center justify-center gap-2 px-6 py-3 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-semibold rounded-lg shadow-md transition-all duration-300 transform hover:scale-105">
+                            {status === AppState.GeneratingQuiz ? <SpinnerIcon className="w-5 h-5" /> : <AcademicCapIcon className="w-5 h-5" />}
+                            <span>{t('actions.quiz')}</span>
                         </button>
+                        <button onClick={handleExtractGlossary} disabled={isProcessing} className="w-full sm:w-auto flex items-center justify-center gap-2 px-6 py-3 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-semibold rounded-lg shadow-md transition-all duration-300 transform hover:scale-105">
+                            {status === AppState.ExtractingGlossary ? <SpinnerIcon className="w-5 h-5" /> : <BookOpenIcon className="w-5 h-5" />}
+                            <span>{t('actions.glossary')}</span>
+                        </button>
+                        {flow.run && flow.run.operation !== 'chat' && (
+                            <button onClick={handleCancel} className="w-full sm:w-auto flex items-center justify-center gap-2 px-6 py-3 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-lg shadow-md transition-colors">
+                                <span>{t('actions.cancel')}</span>
+                            </button>
+                        )}
                     </div>
                 </div>
 
@@ -300,21 +1598,78 @@ const App: React.FC = () => {
                     <div className="bg-gray-800/50 rounded-xl shadow-lg p-6 backdrop-blur-sm border border-gray-700 animate-fade-in">
                         <div className="flex justify-between items-center mb-4">
                             <h2 className="text-2xl font-bold text-purple-400 flex items-center gap-2">
-                               {resultTitle === 'خلاصه' ? <DocumentTextIcon className="w-6 h-6"/> : <SoundWaveIcon className="w-6 h-6"/>}
-                               {resultTitle}
+                               {resultKind === 'summary' ? <DocumentTextIcon className="w-6 h-6"/> : <SoundWaveIcon className="w-6 h-6"/>}
+                               {resultKind !== null && t(resultKind === 'summary' ? 'result.summary' : 'result.script')}
+                               {(fromCache.text || fromCache.audio) && !isStreaming && (
+                                   <span title={t('cache.badgeHint')} className="px-2 py-0.5 text-xs font-medium text-cyan-300 bg-cyan-900/50 border border-cyan-700 rounded-full">{t('cache.badge')}</span>
+                               )}
                             </h2>
                             <div className="flex items-center gap-2">
-                                <button onClick={() => handleDownload('script')} title="دانلود اسکریپت" className="p-2 text-gray-400 hover:text-white rounded-full hover:bg-gray-700 transition-colors"><DownloadIcon className="w-5 h-5"/></button>
-                                {audioBuffer && <button onClick={() => handleDownload('audio')} title="دانلود صدا (WAV)" className="p-2 text-gray-400 hover:text-white rounded-full hover:bg-gray-700 transition-colors"><SoundWaveIcon className="w-5 h-5"/></button>}
+                                {resultKind !== null && !isProcessing && (
+                                    <button
+                                        onClick={() => (resultKind === 'summary' ? handleSummarizeText(true) : handleProcessText(true))}
+                                        title={t('cache.regenerateHint')}
+                                        className="px-3 py-1.5 text-sm bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors"
+                                    >
+                                        {t('cache.regenerate')}
+                                    </button>
+                                )}
+                                <ExportMenu
+                                    hasAudio={audioBuffer !== null}
+                                    hasSubtitles={audioBuffer !== null && sentenceTimings.length > 0}
+                                    busy={exportProgress}
+                                    musicName={backgroundMusic?.name ?? null}
+                                    onChooseMusic={handleChooseMusic}
+                                    onClearMusic={() => setBackgroundMusic(null)}
+                                    onExport={handleDownload}
+                                />
                             </div>
                         </div>
-                        <div className="text-gray-300 whitespace-pre-wrap font-serif text-lg leading-relaxed max-h-[40vh] overflow-y-auto pr-2">
-                           {resultContent}
+                        <div
+                            ref={resultTextRef}
+                            onContextMenu={e => resultTextRef.current && openSelectionMenu(e, 'result', rangeFromSelection(resultTextRef.current, window.getSelection()))}
+                        >
+                            <ScriptView
+                                text={resultContent}
+                                sentences={sentenceTimings}
+                                activeIndex={activeSentenceIndex}
+                                onSentenceClick={handleSentenceClick}
+                                glossary={glossary ?? []}
+                                onPronounce={handlePronounceTerm}
+                                annotations={resultAnnotations}
+                                renderMarker={renderAnnotationMarker}
+                                structure={structuredScript}
+                                sectionSpans={sectionSpans}
+                                renderSectionActions={isStreaming ? undefined : renderSectionActions}
+                            >
+                               {isStreaming && <span className="inline-block w-2 h-5 ms-1 align-middle bg-purple-400 animate-pulse" aria-hidden="true" />}
+                            </ScriptView>
                         </div>
+                        {playbackDuration > 0 && (
+                            <AudioPlayerControls
+                                isPlaying={status === AppState.Playing}
+                                position={playbackPosition}
+                                duration={playbackDuration}
+                                onPlayPause={handlePlayPause}
+                                onSeek={handleSeek}
+                                onPreviousSentence={() => handleSkipSentence(-1)}
+                                onNextSentence={() => handleSkipSentence(1)}
+                                onReplay={handleReplay}
+                            />
+                        )}
+                        {status === AppState.Synthesizing && (
+                            <p className="mt-3 flex items-center gap-2 text-sm text-cyan-400">
+                                <SpinnerIcon className="w-4 h-4" /> {t('status.synthesizing')}
+                            </p>
+                        )}
                         
-                        {!feedbackSubmitted ? (
+                        {sourceReferences.length > 0 && !isStreaming && (
+                            <SourceReferences references={sourceReferences} onChunkClick={handleSourceChunkClick} />
+                        )}
+                        
+                        {isStreaming ? null : !feedbackSubmitted ? (
                             <div className="mt-6 border-t border-gray-700 pt-4">
-                                <h3 className="text-lg font-semibold text-gray-300 mb-2">بازخورد شما چطور بود؟</h3>
+                                <h3 className="text-lg font-semibold text-gray-300 mb-2">{t('feedback.question')}</h3>
                                 <div className="flex items-center gap-2 mb-3">
                                     {[1, 2, 3, 4, 5].map(star => (
                                         <button key={star} onClick={() => setFeedbackRating(star)}>
@@ -322,63 +1677,104 @@ const App: React.FC = () => {
                                         </button>
                                     ))}
                                 </div>
-                                <textarea value={feedbackText} onChange={e => setFeedbackText(e.target.value)} placeholder="بازخورد اختیاری..." className="w-full h-20 p-2 bg-gray-900 border border-gray-600 rounded-lg focus:ring-2 focus:ring-purple-500 focus:outline-none resize-none"/>
-                                <button onClick={handleSubmitFeedback} className="mt-2 px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white font-semibold rounded-lg transition-colors">ثبت بازخورد</button>
+                                <textarea value={feedbackText} onChange={e => setFeedbackText(e.target.value)} placeholder={t('feedback.placeholder')} className="w-full h-20 p-2 bg-gray-900 border border-gray-600 rounded-lg focus:ring-2 focus:ring-purple-500 focus:outline-none resize-none"/>
+                                <button onClick={handleSubmitFeedback} disabled={feedbackRating === 0} className="mt-2 px-4 py-2 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-semibold rounded-lg transition-colors">{t('feedback.submit')}</button>
                             </div>
                         ) : (
-                             <div className="mt-6 border-t border-gray-700 pt-4 text-center text-green-400">از بازخورد شما متشکریم!</div>
+                             <div className="mt-6 border-t border-gray-700 pt-4 text-center text-green-400">{t('feedback.thanks')}</div>
                         )}
                     </div>
                 )}
                 
-                {inputText && !resultContent && isProcessing && (
+                {chunkProgress && (isProcessing || status === AppState.Error) && (!resultContent || status === AppState.GeneratingQuiz || status === AppState.ExtractingGlossary) && <ChunkProgressBar progress={chunkProgress} />}
+
+                {inputText && !resultContent && isProcessing && !chunkProgress && (
                     <div className="text-center p-6 text-lg text-cyan-400">
                         <SpinnerIcon className="w-8 h-8 mx-auto mb-2" />
-                        {status === AppState.Analyzing && 'در حال تفکر... تحلیل متن شما با Gemini Pro.'}
-                        {status === AppState.Summarizing && 'در حال ساخت خلاصه...'}
+                        {status === AppState.Analyzing && t('status.analyzing', { label: getActiveProviderLabel() })}
+                        {status === AppState.Summarizing && t('status.summarizing')}
                     </div>
                 )}
-                
-                {errorMessage && (
-                    <div className="bg-red-900/50 border border-red-700 text-red-300 p-4 rounded-lg text-center">
-                        خطا: {errorMessage}
+
+                {status === AppState.GeneratingQuiz && !chunkProgress && (
+                    <div className="text-center p-6 text-lg text-cyan-400">
+                        <SpinnerIcon className="w-8 h-8 mx-auto mb-2" />
+                        {t('status.generatingQuiz')}
                     </div>
                 )}
 
+                {quiz && status !== AppState.GeneratingQuiz && (
+                    <QuizPanel questions={quiz} onExport={handleQuizExport} onAddFlashcards={handleAddFlashcards} />
+                )}
 
-                {resultContent && (
-                    <div className="bg-gray-800/50 rounded-xl shadow-lg p-6 backdrop-blur-sm border border-gray-700 animate-fade-in">
-                        <h2 className="text-2xl font-bold text-purple-400 mb-4 flex items-center gap-2">
-                            <QuestionMarkCircleIcon className="w-6 h-6"/> یک سوال بپرسید
-                        </h2>
-                        <div className="space-y-4 max-h-80 overflow-y-auto pr-2 border-b border-gray-700 pb-4 mb-4">
-                            {qaHistory.length === 0 && <p className="text-gray-400">هنوز سوالی پرسیده نشده است.</p>}
-                            {qaHistory.map((item, index) => (
-                                <div key={index} className="animate-fade-in">
-                                    <p className="font-semibold text-cyan-400">سوال: {item.question}</p>
-                                    <div className="mt-1 text-gray-300 whitespace-pre-wrap border-r-2 border-cyan-500 pr-3">
-                                        {item.answer}
-                                    </div>
+                {status === AppState.ExplainingSelection && (
+                    <p role="status" className="flex items-center justify-center gap-2 text-cyan-400">
+                        <SpinnerIcon className="w-5 h-5" /> {t('status.explainingSelection')}
+                    </p>
+                )}
 
-                                </div>
-                            ))}
-                        </div>
-                        <form onSubmit={handleAskQuestion} className="flex flex-col sm:flex-row-reverse gap-2">
-                            <input
-                                type="text"
-                                value={question}
-                                onChange={e => setQuestion(e.target.value)}
-                                placeholder="در مورد متن سوالی بپرسید..."
-                                className="flex-1 p-2 bg-gray-900 border border-gray-600 rounded-lg focus:ring-2 focus:ring-purple-500 focus:outline-none"
-                                disabled={status === AppState.Answering}
-                                aria-label="یک سوال بپرسید"
-                            />
-                            <button type="submit" disabled={status === AppState.Answering} className="flex items-center justify-center gap-2 px-5 py-2 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-500 text-white font-semibold rounded-lg transition-colors">
-                                {status === AppState.Answering ? <SpinnerIcon className="w-5 h-5"/> : 'بپرس'}
-                            </button>
-                        </form>
+                {status === AppState.RegeneratingSection && (
+                    <p role="status" className="flex items-center justify-center gap-2 text-cyan-400">
+                        <SpinnerIcon className="w-5 h-5" /> {t('status.regeneratingSection')}
+                    </p>
+                )}
+
+                {selectionMenu && (
+                    <SelectionMenu
+                        x={selectionMenu.x}
+                        y={selectionMenu.y}
+                        onPick={action => handleExplainSelection(selectionMenu.target, selectionMenu.range, action)}
+                        onClose={closeSelectionMenu}
+                    />
+                )}
+
+                {status === AppState.ExtractingGlossary && !chunkProgress && (
+                    <div className="text-center p-6 text-lg text-cyan-400">
+                        <SpinnerIcon className="w-8 h-8 mx-auto mb-2" />
+                        {t('status.extractingGlossary')}
                     </div>
                 )}
+
+                {inputGlossary.length > 0 && status !== AppState.ExtractingGlossary && (
+                    <GlossaryPanel
+                        glossary={inputGlossary}
+                        pronouncingTerm={pronouncingTerm}
+                        onPronounce={handlePronounceTerm}
+                        onShowOccurrence={handleShowOccurrence}
+                        onDownload={handleGlossaryDownload}
+                    />
+                )}
+                
+                {errorMessage && (
+                    <ErrorBanner
+                        message={errorMessage}
+                        failure={failure}
+                        canRetryAudio={Boolean(resultContent) && resultKind !== 'summary' && !isProcessing}
+                        onRetry={handleRetry}
+                        onRetryAudio={handleRetryAudio}
+                        onEditInput={() => inputRef.current?.focus()}
+                        onOpenSettings={() => setShowSettings(true)}
+                        onDismiss={clearError}
+                    />
+                )}
+
+
+                {resultContent && !isStreaming && (
+                    <ChatPanel
+                        messages={qaHistory}
+                        pendingReply={pendingReply}
+                        isAnswering={status === AppState.Answering}
+                        disabled={flow.run !== null && flow.run.operation !== 'chat'}
+                        onCancel={handleCancel}
+                        canStartFromSummary={resultKind === 'summary'}
+                        onStartFromSummary={handleStartChatFromSummary}
+                        onSend={question => runChatTurn(qaHistory, question)}
+                        onEdit={handleEditChatTurn}
+                        onReask={handleReaskChatTurn}
+                        onClear={() => updateQaHistory([])}
+                        onCitationClick={citation => highlightInputRange(citation.start, citation.end)}
+                    />
+                )}
             </main>
         </div>
     );
@@ -0,0 +1,88 @@
+import React from 'react';
+import { Annotation } from '../types';
+import { SELECTION_ACTION_LABELS } from './SelectionMenu';
+import { SoundWaveIcon, SpinnerIcon } from './icons';
+import { formatNumber, getDirection, t } from '../i18n';
+
+/** Renders the marker of one annotation where its span ends. */
+export type MarkerRenderer = (annotation: Annotation) => React.ReactNode;
+
+interface OffsetTextProps {
+    text: string;
+    /** Where `text` starts in the whole text the selection offsets refer to. */
+    start: number;
+    annotations?: Annotation[];
+    renderMarker?: MarkerRenderer;
+}
+
+/** The annotations whose span ends within `from` (exclusive) to `to` (inclusive), so each marker is placed exactly once. */
+export const annotationsEndingIn = (annotations: Annotation[], from: number, to: number): Annotation[] =>
+    annotations.filter(annotation => annotation.end > from && annotation.end <= to).sort((a, b) => a.end - b.end);
+
+/**
+ * Plain text in spans tagged with where they start in the whole text, which
+ * `rangeFromSelection` reads selections back from, with the marker of every
+ * annotation ending inside it placed right after that end.
+ */
+export const OffsetText: React.FC<OffsetTextProps> = ({ text, start, annotations = [], renderMarker }) => {
+    const parts: React.ReactNode[] = [];
+    let cursor = 0;
+    for (const annotation of annotationsEndingIn(annotations, start, start + text.length)) {
+        const end = annotation.end - start;
+        if (end > cursor) {
+            parts.push(<span key={`text-${cursor}`} data-start={start + cursor}>{text.slice(cursor, end)}</span>);
+            cursor = end;
+        }
+        parts.push(<React.Fragment key={annotation.id}>{renderMarker?.(annotation)}</React.Fragment>);
+    }
+    if (cursor < text.length) {
+        parts.push(<span key={`text-${cursor}`} data-start={start + cursor}>{text.slice(cursor)}</span>);
+    }
+    return <>{parts}</>;
+};
+
+interface AnnotationMarkerProps {
+    annotation: Annotation;
+    /** Position among the annotations of the same text, shown on the marker. */
+    number: number;
+    open: boolean;
+    speaking: boolean;
+    onToggle: () => void;
+    onSpeak: () => void;
+    onDelete: () => void;
+}
+
+/** A numbered badge after an annotated span that opens the annotation in a card next to it. */
+export const AnnotationMarker: React.FC<AnnotationMarkerProps> = ({ annotation, number, open, speaking, onToggle, onSpeak, onDelete }) => (
+    // Stops clicks from also seeking to the sentence the marker sits in.
+    <span data-overlay className="relative select-none" onClick={e => e.stopPropagation()}>
+        <button
+            onClick={onToggle}
+            aria-expanded={open}
+            title={t(SELECTION_ACTION_LABELS[annotation.action])}
+            className={`mx-0.5 px-1.5 align-super font-sans text-xs tabular-nums rounded-full transition-colors ${open ? 'bg-cyan-500 text-gray-900' : 'bg-cyan-900/70 text-cyan-300 hover:bg-cyan-700'}`}
+        >
+            {formatNumber(number)}
+        </button>
+        {open && (
+            <span
+                role="dialog"
+                aria-label={t(SELECTION_ACTION_LABELS[annotation.action])}
+                onKeyDown={e => { if (e.key === 'Escape') onToggle(); }}
+                className="absolute z-10 top-full start-0 mt-1 w-72 p-3 bg-gray-900 border border-cyan-700 rounded-lg shadow-xl font-sans text-sm text-gray-300 whitespace-normal text-start select-text"
+            >
+                <span className="flex items-center justify-between gap-2 mb-2">
+                    <strong className="text-cyan-300">{t(SELECTION_ACTION_LABELS[annotation.action])}</strong>
+                    <span className="flex items-center gap-2">
+                        <button onClick={onSpeak} disabled={speaking} title={t('selection.listen')} className="text-gray-400 hover:text-white disabled:text-cyan-400">
+                            {speaking ? <SpinnerIcon className="w-4 h-4" /> : <SoundWaveIcon className="w-4 h-4" />}
+                        </button>
+                        <button onClick={onDelete} title={t('actions.delete')} className="text-gray-400 hover:text-red-400">✕</button>
+                    </span>
+                </span>
+                <q dir="auto" className="block mb-2 ps-2 border-s-2 border-gray-600 text-gray-400 line-clamp-3">{annotation.quote}</q>
+                <span dir={getDirection(annotation.language)} className="block max-h-60 overflow-y-auto whitespace-pre-wrap">{annotation.text}</span>
+            </span>
+        )}
+    </span>
+);
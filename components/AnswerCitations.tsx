@@ -0,0 +1,34 @@
+import React from 'react';
+import { Citation } from '../types';
+import { t } from '../i18n';
+
+interface AnswerCitationsProps {
+    citations: Citation[];
+    foundInText: boolean;
+    onCitationClick: (citation: Citation) => void;
+}
+
+/** Citation chips under an answer, or an explicit badge when the input does not support it. */
+export const AnswerCitations: React.FC<AnswerCitationsProps> = ({ citations, foundInText, onCitationClick }) => {
+    if (!foundInText) {
+        return (
+            <span className="mt-2 inline-block px-2 py-0.5 text-xs rounded-full bg-amber-900/60 text-amber-300">
+                {t('citations.notFound')}
+            </span>
+        );
+    }
+    return (
+        <div className="mt-2 flex flex-wrap gap-1">
+            {citations.map((citation, index) => (
+                <button
+                    key={`${citation.start}-${citation.end}`}
+                    onClick={() => onCitationClick(citation)}
+                    title={citation.quote}
+                    className="px-2 py-0.5 text-xs rounded-full bg-cyan-900/60 text-cyan-300 hover:bg-cyan-800"
+                >
+                    {t('citations.citation', { number: index + 1 })}
+                </button>
+            ))}
+        </div>
+    );
+};
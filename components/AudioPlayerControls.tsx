@@ -0,0 +1,52 @@
+import React from 'react';
+import { PlayIcon, PauseIcon, PreviousIcon, NextIcon, ReplayIcon } from './icons';
+import { t } from '../i18n';
+
+interface AudioPlayerControlsProps {
+    isPlaying: boolean;
+    position: number;
+    duration: number;
+    onPlayPause: () => void;
+    onSeek: (position: number) => void;
+    onPreviousSentence: () => void;
+    onNextSentence: () => void;
+    onReplay: () => void;
+}
+
+export const formatTime = (seconds: number): string => {
+    const total = Math.max(0, Math.floor(seconds));
+    const minutes = Math.floor(total / 60);
+    return `${minutes}:${String(total % 60).padStart(2, '0')}`;
+};
+
+const buttonClass = "p-2 text-gray-300 hover:text-white rounded-full hover:bg-gray-700 transition-colors";
+
+export const AudioPlayerControls: React.FC<AudioPlayerControlsProps> = ({
+    isPlaying, position, duration, onPlayPause, onSeek, onPreviousSentence, onNextSentence, onReplay,
+}) => (
+    // Media transports read left to right even in RTL layouts.
+    <div dir="ltr" className="mt-4 flex flex-col gap-2">
+        <div className="flex items-center gap-3">
+            <span className="text-xs tabular-nums text-gray-400 w-10 text-end">{formatTime(position)}</span>
+            <input
+                type="range"
+                min={0}
+                max={duration || 0}
+                step={0.1}
+                value={Math.min(position, duration)}
+                onChange={e => onSeek(parseFloat(e.target.value))}
+                className="flex-1 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-purple-500"
+                aria-label={t('player.position')}
+            />
+            <span className="text-xs tabular-nums text-gray-400 w-10">{formatTime(duration)}</span>
+        </div>
+        <div className="flex items-center justify-center gap-2">
+            <button onClick={onPreviousSentence} title={t('player.previous')} className={buttonClass}><PreviousIcon className="w-5 h-5" /></button>
+            <button onClick={onPlayPause} title={isPlaying ? t('player.pause') : t('player.play')} className="p-3 bg-purple-600 hover:bg-purple-700 text-white rounded-full shadow-md transition-colors">
+                {isPlaying ? <PauseIcon className="w-5 h-5" /> : <PlayIcon className="w-5 h-5" />}
+            </button>
+            <button onClick={onNextSentence} title={t('player.next')} className={buttonClass}><NextIcon className="w-5 h-5" /></button>
+            <button onClick={onReplay} title={t('player.replay')} className={buttonClass}><ReplayIcon className="w-5 h-5" /></button>
+        </div>
+    </div>
+);
@@ -0,0 +1,253 @@
+import React, { useRef, useState } from 'react';
+import { BatchItem, BatchItemStatus } from '../types';
+import { BatchSettings, createBatchItemId, runBatch } from '../services/batchQueue';
+import { defaultSessionName } from '../services/sessionStore';
+import { ACCEPTED_FILE_TYPES, importDocument } from '../utils/documentImport';
+import { assembleAudiobook, AudiobookPart, buildScriptsZip, chapterMarkers, layoutChapters } from '../utils/audiobook';
+import { audioBufferToWav } from '../utils/audioUtils';
+import { formatTimestamp } from '../utils/subtitles';
+import { DownloadIcon, SpinnerIcon, UploadIcon } from './icons';
+import { MessageKey, t } from '../i18n';
+
+interface BatchQueueProps {
+    /** The queue stays mounted while hidden, so a running batch carries on in the background. */
+    open: boolean;
+    /** The text in the main input, which can be queued as is. */
+    currentText: string;
+    /** Tone, level, template, language and voice every item is narrated with. */
+    settings: BatchSettings;
+    getAudioContext: () => Promise<AudioContext>;
+    onDownload: (blob: Blob, fileName: string) => void;
+    onClose: () => void;
+}
+
+const STATUS_LABELS: Record<BatchItemStatus, MessageKey> = {
+    queued: 'batch.status.queued',
+    scripting: 'batch.status.scripting',
+    narrating: 'batch.status.narrating',
+    done: 'batch.status.done',
+    failed: 'batch.status.failed',
+};
+
+const STATUS_CLASSES: Record<BatchItemStatus, string> = {
+    queued: 'text-gray-400',
+    scripting: 'text-cyan-400',
+    narrating: 'text-cyan-400',
+    done: 'text-green-400',
+    failed: 'text-red-400',
+};
+
+const inputClass = "w-full bg-gray-900 border border-gray-600 rounded-lg p-2 focus:ring-2 focus:ring-purple-500 focus:outline-none";
+const buttonClass = "px-3 py-1.5 text-sm bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 disabled:text-gray-500 text-white rounded-lg transition-colors";
+const iconButtonClass = "px-1.5 text-gray-400 hover:text-white disabled:text-gray-600";
+
+const isBusy = (status: BatchItemStatus) => status === 'scripting' || status === 'narrating';
+
+/** The file name without its extension, as the chapter title of an imported document. */
+const titleFromFileName = (name: string) => name.replace(/\.[^.]+$/, '');
+
+/**
+ * Queues texts and imported documents, narrates them a few at a time, and
+ * assembles the finished ones, in queue order, into one audiobook.
+ */
+export const BatchQueue: React.FC<BatchQueueProps> = ({ open, currentText, settings, getAudioContext, onDownload, onClose }) => {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const abortRef = useRef<AbortController | null>(null);
+    const [items, setItems] = useState<BatchItem[]>([]);
+    const [draft, setDraft] = useState<string>('');
+    const [isRunning, setIsRunning] = useState<boolean>(false);
+    const [isImporting, setIsImporting] = useState<boolean>(false);
+    const [importErrors, setImportErrors] = useState<string[]>([]);
+
+    const parts: AudiobookPart[] = items
+        .filter(item => item.status === 'done' && item.audio && item.script !== undefined)
+        .map(item => ({ title: item.title, script: item.script as string, audio: item.audio as AudioBuffer }));
+    const chapters = layoutChapters(parts);
+    const pendingCount = items.filter(item => item.status === 'queued').length;
+    const failedCount = items.filter(item => item.status === 'failed').length;
+
+    const addItem = (title: string, text: string) => {
+        setItems(current => [...current, { id: createBatchItemId(), title, text, status: 'queued' }]);
+    };
+
+    const updateItem = (id: string, update: Partial<BatchItem>) => {
+        setItems(current => current.map(item => (item.id === id ? { ...item, ...update } : item)));
+    };
+
+    const moveItem = (index: number, offset: number) => {
+        setItems(current => {
+            const next = [...current];
+            const [item] = next.splice(index, 1);
+            next.splice(index + offset, 0, item);
+            return next;
+        });
+    };
+
+    const handleAddDraft = () => {
+        if (!draft.trim()) return;
+        addItem(defaultSessionName(draft), draft.trim());
+        setDraft('');
+    };
+
+    const handleImport = async (files: File[]) => {
+        setIsImporting(true);
+        setImportErrors([]);
+        const errors: string[] = [];
+        // One at a time and in the order picked, so the chapters follow the selection.
+        for (const file of files) {
+            try {
+                const imported = await importDocument(file);
+                addItem(titleFromFileName(imported.fileName), imported.sections.map(section => section.text).join('\n\n'));
+            } catch (error) {
+                errors.push(error instanceof Error ? error.message : t('errors.unknown'));
+            }
+        }
+        setImportErrors(errors);
+        setIsImporting(false);
+    };
+
+    const run = async (targets: BatchItem[]) => {
+        if (targets.length === 0) return;
+        const controller = new AbortController();
+        abortRef.current = controller;
+        setIsRunning(true);
+        try {
+            await runBatch(targets, settings, await getAudioContext(), controller.signal, updateItem);
+        } finally {
+            abortRef.current = null;
+            setIsRunning(false);
+        }
+    };
+
+    const handleDownloadAudio = async () => {
+        const audiobook = assembleAudiobook(await getAudioContext(), parts);
+        onDownload(audioBufferToWav(audiobook.audio, chapterMarkers(audiobook.chapters)), 'audiobook.wav');
+    };
+
+    return (
+        <div className={open ? "fixed inset-0 z-20 bg-black/60 flex items-center justify-center p-4" : "hidden"} onClick={onClose}>
+            <div
+                role="dialog"
+                aria-label={t('batch.title')}
+                onClick={e => e.stopPropagation()}
+                className="w-full max-w-3xl max-h-full overflow-y-auto bg-gray-800 border border-gray-700 rounded-xl shadow-xl p-6 flex flex-col gap-6"
+            >
+                <div className="flex justify-between items-center">
+                    <h2 className="text-2xl font-bold text-purple-400">{t('batch.title')}</h2>
+                    <button onClick={onClose} title={t('actions.close')} className="text-gray-400 hover:text-white">✕</button>
+                </div>
+
+                <section className="flex flex-col gap-2">
+                    <textarea
+                        value={draft}
+                        onChange={e => setDraft(e.target.value)}
+                        placeholder={t('batch.draftPlaceholder')}
+                        dir="auto"
+                        className={`${inputClass} h-24 resize-y`}
+                    />
+                    <div className="flex flex-wrap gap-2">
+                        <button onClick={handleAddDraft} disabled={!draft.trim()} className={buttonClass}>{t('batch.addDraft')}</button>
+                        <button onClick={() => addItem(defaultSessionName(currentText), currentText.trim())} disabled={!currentText.trim()} className={buttonClass}>
+                            {t('batch.addCurrent')}
+                        </button>
+                        <button onClick={() => fileInputRef.current?.click()} disabled={isImporting} className={`${buttonClass} flex items-center gap-1`}>
+                            {isImporting ? <SpinnerIcon className="w-4 h-4" /> : <UploadIcon className="w-4 h-4" />} {t('batch.addFiles')}
+                        </button>
+                        <input
+                            ref={fileInputRef}
+                            type="file"
+                            accept={ACCEPTED_FILE_TYPES}
+                            multiple
+                            className="hidden"
+                            onChange={e => {
+                                const files = Array.from<File>(e.target.files ?? []);
+                                if (files.length > 0) handleImport(files);
+                                e.target.value = '';
+                            }}
+                        />
+                    </div>
+                    {importErrors.map(error => <p key={error} role="alert" className="text-sm text-red-400">{error}</p>)}
+                    <p className="text-xs text-gray-500">{t('batch.settingsHint')}</p>
+                </section>
+
+                {items.length > 0 && (
+                    <section>
+                        <ol className="flex flex-col gap-2">
+                            {items.map((item, index) => (
+                                <li key={item.id} className="flex flex-wrap items-center gap-2 p-2 bg-gray-900/60 border border-gray-700 rounded-lg">
+                                    <span className="w-6 text-center text-sm tabular-nums text-gray-500">{index + 1}</span>
+                                    <input
+                                        value={item.title}
+                                        onChange={e => updateItem(item.id, { title: e.target.value })}
+                                        aria-label={t('batch.chapterTitle')}
+                                        dir="auto"
+                                        className="flex-1 min-w-[10rem] bg-transparent border-b border-transparent focus:border-purple-500 focus:outline-none text-gray-200"
+                                    />
+                                    <span className={`flex items-center gap-1 text-sm ${STATUS_CLASSES[item.status]}`}>
+                                        {isBusy(item.status) && <SpinnerIcon className="w-4 h-4" />}
+                                        {t(STATUS_LABELS[item.status])}
+                                    </span>
+                                    {item.status === 'failed' && (
+                                        <button onClick={() => run([item])} disabled={isRunning} className={buttonClass}>{t('errors.retry')}</button>
+                                    )}
+                                    <button onClick={() => moveItem(index, -1)} disabled={index === 0} title={t('batch.moveUp')} className={iconButtonClass}>↑</button>
+                                    <button onClick={() => moveItem(index, 1)} disabled={index === items.length - 1} title={t('batch.moveDown')} className={iconButtonClass}>↓</button>
+                                    <button
+                                        onClick={() => setItems(current => current.filter(other => other.id !== item.id))}
+                                        disabled={isBusy(item.status)}
+                                        title={t('actions.delete')}
+                                        className={iconButtonClass}
+                                    >
+                                        ✕
+                                    </button>
+                                    {item.error && <p className="w-full ps-8 text-xs text-red-400">{item.error}</p>}
+                                </li>
+                            ))}
+                        </ol>
+                        <div className="mt-3 flex flex-wrap gap-2">
+                            {isRunning ? (
+                                <button onClick={() => abortRef.current?.abort()} className={buttonClass}>{t('actions.cancel')}</button>
+                            ) : (
+                                <button
+                                    onClick={() => run(items.filter(item => item.status === 'queued'))}
+                                    disabled={pendingCount === 0}
+                                    className="px-3 py-1.5 text-sm bg-purple-600 hover:bg-purple-700 disabled:bg-gray-800 disabled:text-gray-500 text-white rounded-lg transition-colors"
+                                >
+                                    {t('batch.start', { count: pendingCount })}
+                                </button>
+                            )}
+                            {failedCount > 0 && (
+                                <button onClick={() => run(items.filter(item => item.status === 'failed'))} disabled={isRunning} className={buttonClass}>
+                                    {t('batch.retryFailed', { count: failedCount })}
+                                </button>
+                            )}
+                        </div>
+                    </section>
+                )}
+
+                {chapters.length > 0 && (
+                    <section className="border-t border-gray-700 pt-4">
+                        <h3 className="text-lg font-semibold text-gray-300 mb-2">{t('batch.chapters')}</h3>
+                        <ol className="mb-3 flex flex-col gap-1 text-sm text-gray-300">
+                            {chapters.map((chapter, index) => (
+                                <li key={index} className="flex gap-3">
+                                    <span dir="ltr" className="tabular-nums text-gray-500">{formatTimestamp(chapter.start, '.').slice(0, 8)}</span>
+                                    <span dir="auto">{chapter.title}</span>
+                                </li>
+                            ))}
+                        </ol>
+                        {parts.length < items.length && <p className="mb-3 text-xs text-gray-500">{t('batch.partialHint')}</p>}
+                        <div className="flex flex-wrap gap-2">
+                            <button onClick={handleDownloadAudio} className={`${buttonClass} flex items-center gap-1`}>
+                                <DownloadIcon className="w-4 h-4" /> {t('batch.downloadAudio')}
+                            </button>
+                            <button onClick={() => onDownload(buildScriptsZip(parts, chapters), 'audiobook-scripts.zip')} className={`${buttonClass} flex items-center gap-1`}>
+                                <DownloadIcon className="w-4 h-4" /> {t('batch.downloadScripts')}
+                            </button>
+                        </div>
+                    </section>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,126 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChatMessage, Citation } from '../types';
+import { AnswerCitations } from './AnswerCitations';
+import { QuestionMarkCircleIcon, SpinnerIcon } from './icons';
+import { t } from '../i18n';
+
+interface ChatPanelProps {
+    messages: ChatMessage[];
+    /** The model reply being streamed, or null when none is in flight. */
+    pendingReply: string | null;
+    isAnswering: boolean;
+    /** Set while another operation runs, whose audio or result a new question would abort. */
+    disabled: boolean;
+    onCancel: () => void;
+    /** Offered when the current result is a summary and the chat is still empty. */
+    canStartFromSummary: boolean;
+    onStartFromSummary: () => void;
+    onSend: (message: string) => void;
+    onEdit: (index: number, message: string) => void;
+    onReask: (index: number) => void;
+    onClear: () => void;
+    onCitationClick: (citation: Citation) => void;
+}
+
+export const ChatPanel: React.FC<ChatPanelProps> = ({
+    messages, pendingReply, isAnswering, disabled, onCancel, canStartFromSummary, onStartFromSummary, onSend, onEdit, onReask, onClear, onCitationClick,
+}) => {
+    const [draft, setDraft] = useState<string>('');
+    const [editingIndex, setEditingIndex] = useState<number | null>(null);
+    const [editText, setEditText] = useState<string>('');
+    const endRef = useRef<HTMLDivElement | null>(null);
+
+    useEffect(() => {
+        endRef.current?.scrollIntoView({ block: 'nearest' });
+    }, [messages.length, pendingReply]);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!draft.trim() || isAnswering || disabled) return;
+        onSend(draft.trim());
+        setDraft('');
+    };
+
+    const handleSaveEdit = (index: number) => {
+        if (!editText.trim()) return;
+        setEditingIndex(null);
+        onEdit(index, editText.trim());
+    };
+
+    return (
+        <div className="bg-gray-800/50 rounded-xl shadow-lg p-6 backdrop-blur-sm border border-gray-700 animate-fade-in">
+            <div className="flex justify-between items-center mb-4">
+                <h2 className="text-2xl font-bold text-purple-400 flex items-center gap-2">
+                    <QuestionMarkCircleIcon className="w-6 h-6"/> {t('chat.title')}
+                </h2>
+                {messages.length > 0 && (
+                    <button onClick={onClear} disabled={isAnswering} className="text-sm text-gray-400 hover:text-white disabled:text-gray-600">{t('chat.clear')}</button>
+                )}
+            </div>
+            <div className="space-y-4 max-h-80 overflow-y-auto pe-2 border-b border-gray-700 pb-4 mb-4">
+                {messages.length === 0 && pendingReply === null && (
+                    <div className="text-gray-400">
+                        <p>{t('chat.empty')}</p>
+                        {canStartFromSummary && (
+                            <button onClick={onStartFromSummary} className="mt-2 text-sm text-cyan-400 hover:text-cyan-300">{t('chat.startFromSummary')}</button>
+                        )}
+                    </div>
+                )}
+                {messages.map((message, index) => message.role === 'user' ? (
+                    <div key={index} className="animate-fade-in">
+                        {editingIndex === index ? (
+                            <div className="flex gap-2">
+                                <input value={editText} onChange={e => setEditText(e.target.value)} className="flex-1 p-1 bg-gray-900 border border-gray-600 rounded text-sm" aria-label={t('chat.editQuestion')} />
+                                <button onClick={() => handleSaveEdit(index)} className="text-sm text-purple-400 hover:text-purple-300">{t('actions.send')}</button>
+                                <button onClick={() => setEditingIndex(null)} className="text-sm text-gray-400 hover:text-white">{t('actions.discard')}</button>
+                            </div>
+                        ) : (
+                            <div className="flex items-start gap-2">
+                                <p className="flex-1 font-semibold text-cyan-400">{t('chat.question', { text: message.text })}</p>
+                                {!isAnswering && !disabled && (
+                                    <span className="flex gap-2 text-xs text-gray-500">
+                                        <button onClick={() => { setEditingIndex(index); setEditText(message.text); }} className="hover:text-white">{t('actions.edit')}</button>
+                                        <button onClick={() => onReask(index)} className="hover:text-white">{t('chat.reask')}</button>
+                                    </span>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                ) : (
+                    <div key={index} className="mt-1 text-gray-300 whitespace-pre-wrap border-s-2 border-cyan-500 ps-3 animate-fade-in">
+                        {message.text}
+                        {message.citations && (
+                            <AnswerCitations citations={message.citations} foundInText={message.foundInText ?? false} onCitationClick={onCitationClick} />
+                        )}
+                    </div>
+                ))}
+                {pendingReply !== null && (
+                    <div className="mt-1 text-gray-300 whitespace-pre-wrap border-s-2 border-cyan-500 ps-3">
+                        {pendingReply || <SpinnerIcon className="w-5 h-5" />}
+                    </div>
+                )}
+                <div ref={endRef} />
+            </div>
+            <form onSubmit={handleSubmit} className="flex flex-col sm:flex-row-reverse gap-2">
+                <input
+                    type="text"
+                    value={draft}
+                    onChange={e => setDraft(e.target.value)}
+                    placeholder={messages.length > 0 ? t('chat.followUpPlaceholder') : t('chat.placeholder')}
+                    className="flex-1 p-2 bg-gray-900 border border-gray-600 rounded-lg focus:ring-2 focus:ring-purple-500 focus:outline-none"
+                    disabled={isAnswering || disabled}
+                    aria-label={t('chat.title')}
+                />
+                {isAnswering ? (
+                    <button type="button" onClick={onCancel} className="flex items-center justify-center gap-2 px-5 py-2 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-lg transition-colors">
+                        <SpinnerIcon className="w-5 h-5"/> {t('actions.cancel')}
+                    </button>
+                ) : (
+                    <button type="submit" disabled={disabled} className="flex items-center justify-center gap-2 px-5 py-2 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-500 text-white font-semibold rounded-lg transition-colors">
+                        {t('chat.ask')}
+                    </button>
+                )}
+            </form>
+        </div>
+    );
+};
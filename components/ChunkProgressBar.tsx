@@ -0,0 +1,31 @@
+import React from 'react';
+import { ChunkProgress } from '../types';
+import { t } from '../i18n';
+
+const STATUS_CLASSES = {
+    pending: 'bg-gray-700',
+    running: 'bg-cyan-500 animate-pulse',
+    done: 'bg-purple-500',
+    failed: 'bg-red-500',
+};
+
+export const ChunkProgressBar: React.FC<{ progress: ChunkProgress }> = ({ progress }) => {
+    const done = progress.statuses.filter(status => status === 'done').length;
+    const failed = progress.statuses.indexOf('failed');
+    return (
+        <div className="bg-gray-800/50 rounded-xl p-4 border border-gray-700">
+            <p className="text-sm text-gray-300 mb-2">
+                {failed !== -1
+                    ? t('chunks.failed', { number: failed + 1, total: progress.statuses.length })
+                    : progress.stage === 'map'
+                        ? t('chunks.mapping', { done, total: progress.statuses.length })
+                        : t('chunks.combining')}
+            </p>
+            <div className="flex flex-wrap gap-1">
+                {progress.statuses.map((status, index) => (
+                    <span key={index} title={t(status === 'failed' ? 'chunks.failedChunk' : 'sources.chunk', { number: index + 1 })} className={`h-2 flex-1 min-w-[0.75rem] rounded ${STATUS_CLASSES[status]}`} />
+                ))}
+            </div>
+        </div>
+    );
+};
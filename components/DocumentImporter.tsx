@@ -0,0 +1,122 @@
+import React, { useRef, useState } from 'react';
+import { ImportedDocument } from '../types';
+import { ACCEPTED_FILE_TYPES, detectTextDirection, importDocument } from '../utils/documentImport';
+import { SpinnerIcon, UploadIcon } from './icons';
+import { t } from '../i18n';
+
+interface DocumentImporterProps {
+    disabled: boolean;
+    /** Receives the text of the sections the user picked. */
+    onApply: (text: string) => void;
+}
+
+export const DocumentImporter: React.FC<DocumentImporterProps> = ({ disabled, onApply }) => {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [importedDoc, setImportedDoc] = useState<ImportedDocument | null>(null);
+    const [selected, setSelected] = useState<Set<number>>(new Set());
+    const [isImporting, setIsImporting] = useState<boolean>(false);
+    const [isDragging, setIsDragging] = useState<boolean>(false);
+    const [importError, setImportError] = useState<string>('');
+
+    const handleFile = async (file: File) => {
+        setIsImporting(true);
+        setImportError('');
+        try {
+            const imported = await importDocument(file);
+            setImportedDoc(imported);
+            setSelected(new Set(imported.sections.map((_, index) => index)));
+        } catch (error) {
+            setImportError(error instanceof Error ? error.message : t('errors.unknown'));
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        setIsDragging(false);
+        const file = e.dataTransfer.files[0];
+        if (file && !disabled) {
+            handleFile(file);
+        }
+    };
+
+    const toggleSection = (index: number) => {
+        setSelected(prev => {
+            const next = new Set(prev);
+            if (next.has(index)) next.delete(index); else next.add(index);
+            return next;
+        });
+    };
+
+    const handleApply = () => {
+        if (!importedDoc) return;
+        const text = importedDoc.sections
+            .filter((_, index) => selected.has(index))
+            .map(section => section.text)
+            .join('\n\n');
+        onApply(text);
+        setImportedDoc(null);
+    };
+
+    return (
+        <div className="mt-4">
+            <div
+                onDragOver={e => { e.preventDefault(); setIsDragging(true); }}
+                onDragLeave={() => setIsDragging(false)}
+                onDrop={handleDrop}
+                className={`flex items-center justify-center gap-2 p-3 border-2 border-dashed rounded-lg text-sm transition-colors ${isDragging ? 'border-purple-500 bg-purple-500/10 text-purple-300' : 'border-gray-600 text-gray-400'}`}
+            >
+                {isImporting ? <SpinnerIcon className="w-5 h-5" /> : <UploadIcon className="w-5 h-5" />}
+                <span>{t('import.dropHint')}</span>
+                <button onClick={() => fileInputRef.current?.click()} disabled={disabled || isImporting} className="text-purple-400 hover:text-purple-300 font-semibold disabled:text-gray-500">
+                    {t('import.chooseFile')}
+                </button>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept={ACCEPTED_FILE_TYPES}
+                    className="hidden"
+                    onChange={e => {
+                        const file = e.target.files?.[0];
+                        if (file) handleFile(file);
+                        e.target.value = '';
+                    }}
+                />
+            </div>
+            {importError && <p className="mt-2 text-sm text-red-400">{importError}</p>}
+
+            {importedDoc && (
+                <div className="mt-3 bg-gray-900 border border-gray-700 rounded-lg p-3">
+                    <div className="flex justify-between items-center mb-2">
+                        <h3 className="font-semibold text-gray-200 truncate">{importedDoc.fileName}</h3>
+                        <div className="flex gap-3 text-xs">
+                            <button onClick={() => setSelected(new Set(importedDoc.sections.map((_, index) => index)))} className="text-cyan-400 hover:text-cyan-300">{t('import.selectAll')}</button>
+                            <button onClick={() => setSelected(new Set())} className="text-cyan-400 hover:text-cyan-300">{t('import.selectNone')}</button>
+                        </div>
+                    </div>
+                    <ul className="max-h-60 overflow-y-auto space-y-1">
+                        {importedDoc.sections.map((section, index) => (
+                            <li key={index}>
+                                <label className="flex items-start gap-2 p-2 rounded hover:bg-gray-800 cursor-pointer">
+                                    <input type="checkbox" checked={selected.has(index)} onChange={() => toggleSection(index)} className="mt-1 accent-purple-500" />
+                                    <span className="flex-1 min-w-0">
+                                        <span className="block text-sm font-medium text-gray-200">{section.title}</span>
+                                        <span dir={detectTextDirection(section.text)} className="block text-xs text-gray-500 truncate">{section.text.slice(0, 160)}</span>
+                                    </span>
+                                    <span className="text-xs text-gray-500 whitespace-nowrap">{t('import.characters', { count: section.text.length })}</span>
+                                </label>
+                            </li>
+                        ))}
+                    </ul>
+                    <div className="mt-3 flex gap-2">
+                        <button onClick={handleApply} disabled={selected.size === 0} className="px-4 py-2 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-500 text-white text-sm font-semibold rounded-lg transition-colors">
+                            {t('import.insertSelected', { count: selected.size })}
+                        </button>
+                        <button onClick={() => setImportedDoc(null)} className="px-4 py-2 text-sm text-gray-400 hover:text-white">{t('actions.discard')}</button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,58 @@
+import React from 'react';
+import { ServiceError } from '../services/errors';
+import { ReplayIcon } from './icons';
+import { t } from '../i18n';
+
+interface ErrorBannerProps {
+    message: string;
+    /** The classified failure behind `message`, when it came from a model request. */
+    failure: ServiceError | null;
+    /** Whether the script is still there, so only its narration has to be redone. */
+    canRetryAudio: boolean;
+    onRetry: () => void;
+    onRetryAudio: () => void;
+    onEditInput: () => void;
+    onOpenSettings: () => void;
+    onDismiss: () => void;
+}
+
+const actionClass = "flex items-center gap-1 px-3 py-1.5 text-sm bg-red-800/60 hover:bg-red-700 text-red-100 rounded-lg transition-colors";
+
+export const ErrorBanner: React.FC<ErrorBannerProps> = ({ message, failure, canRetryAudio, onRetry, onRetryAudio, onEditInput, onOpenSettings, onDismiss }) => {
+    const isSpeechFailure = failure?.step === 'speech' && canRetryAudio;
+    // Unclassified failures might well be transient, so they get a retry too.
+    const canRetry = failure !== null && (failure.retryable || failure.kind === 'unknown');
+
+    return (
+        <div role="alert" className="bg-red-900/50 border border-red-700 text-red-300 p-4 rounded-lg">
+            <div className="flex items-start justify-between gap-4">
+                <p>{t('errors.prefix', { message })}</p>
+                <button onClick={onDismiss} title={t('actions.close')} className="text-red-400 hover:text-red-200">✕</button>
+            </div>
+            {failure?.kind === 'rate-limit' && failure.retryAfterMs !== undefined && (
+                <p className="mt-1 text-sm text-red-400">
+                    {t('errors.retryAfter', { seconds: Math.ceil(failure.retryAfterMs / 1000) })}
+                </p>
+            )}
+            {(isSpeechFailure || canRetry || failure?.kind === 'safety' || failure?.kind === 'auth') && (
+                <div className="mt-3 flex flex-wrap justify-center gap-2">
+                    {isSpeechFailure ? (
+                        <button onClick={onRetryAudio} className={actionClass}>
+                            <ReplayIcon className="w-4 h-4" /> {t('errors.retryAudio')}
+                        </button>
+                    ) : canRetry && (
+                        <button onClick={onRetry} className={actionClass}>
+                            <ReplayIcon className="w-4 h-4" /> {t('errors.retry')}
+                        </button>
+                    )}
+                    {failure?.kind === 'safety' && (
+                        <button onClick={onEditInput} className={actionClass}>{t('errors.editInput')}</button>
+                    )}
+                    {failure?.kind === 'auth' && (
+                        <button onClick={onOpenSettings} className={actionClass}>{t('errors.openSettings')}</button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
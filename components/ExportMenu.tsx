@@ -0,0 +1,79 @@
+import React, { useRef, useState } from 'react';
+import { ExportFormat } from '../types';
+import { DownloadIcon, SpinnerIcon } from './icons';
+import { formatNumber, t } from '../i18n';
+
+interface ExportMenuProps {
+    hasAudio: boolean;
+    /** Subtitles need sentence timings, which only exist once audio was synthesized. */
+    hasSubtitles: boolean;
+    /** The export being prepared, with its progress from 0 to 1. */
+    busy: { format: ExportFormat; progress: number } | null;
+    /** File name of the background music mixed into audio exports, if any. */
+    musicName: string | null;
+    onChooseMusic: (file: File) => void;
+    onClearMusic: () => void;
+    onExport: (format: ExportFormat) => void;
+}
+
+const OPTIONS: { format: ExportFormat; needs: 'none' | 'audio' | 'subtitles' }[] = [
+    { format: 'script', needs: 'none' },
+    { format: 'mp3', needs: 'audio' },
+    { format: 'wav', needs: 'audio' },
+    { format: 'srt', needs: 'subtitles' },
+    { format: 'vtt', needs: 'subtitles' },
+];
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ hasAudio, hasSubtitles, busy, musicName, onChooseMusic, onClearMusic, onExport }) => {
+    const musicInputRef = useRef<HTMLInputElement>(null);
+    const [isOpen, setIsOpen] = useState<boolean>(false);
+    const available = OPTIONS.filter(option =>
+        option.needs === 'none' || (option.needs === 'audio' && hasAudio) || (option.needs === 'subtitles' && hasSubtitles));
+
+    return (
+        <div className="relative">
+            <button onClick={() => setIsOpen(!isOpen)} title={t('export.download')} className="flex items-center gap-1 p-2 text-gray-400 hover:text-white rounded-full hover:bg-gray-700 transition-colors">
+                {busy ? <SpinnerIcon className="w-5 h-5" /> : <DownloadIcon className="w-5 h-5" />}
+                {busy && <span className="text-xs tabular-nums text-cyan-400">{formatNumber(busy.progress, { style: 'percent' })}</span>}
+            </button>
+            {isOpen && (
+                <div className="absolute z-10 end-0 mt-1 w-56 bg-gray-800 border border-gray-700 rounded-lg shadow-xl py-1 text-sm">
+                    {available.map(option => (
+                        <button
+                            key={option.format}
+                            onClick={() => { setIsOpen(false); onExport(option.format); }}
+                            disabled={busy !== null}
+                            className="block w-full text-start px-4 py-2 text-gray-300 hover:bg-gray-700 disabled:text-gray-600"
+                        >
+                            {t(`export.${option.format}`)}
+                        </button>
+                    ))}
+                    {hasAudio && (
+                        <div className="mt-1 px-4 pt-2 pb-1 border-t border-gray-700 text-xs text-gray-400">
+                            <div className="mb-1">{t('export.music')}</div>
+                            {musicName ? (
+                                <div className="flex items-center gap-2">
+                                    <span className="flex-1 truncate text-gray-300" dir="auto" title={musicName}>{musicName}</span>
+                                    <button onClick={onClearMusic} title={t('actions.delete')} className="text-gray-400 hover:text-white">✕</button>
+                                </div>
+                            ) : (
+                                <button onClick={() => musicInputRef.current?.click()} className="text-purple-400 hover:text-purple-300">{t('export.chooseMusic')}</button>
+                            )}
+                            <input
+                                ref={musicInputRef}
+                                type="file"
+                                accept="audio/*"
+                                className="hidden"
+                                onChange={e => {
+                                    const file = e.target.files?.[0];
+                                    if (file) onChooseMusic(file);
+                                    e.target.value = '';
+                                }}
+                            />
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
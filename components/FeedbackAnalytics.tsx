@@ -0,0 +1,108 @@
+import React from 'react';
+import { FeedbackEntry, FeedbackExportFormat } from '../types';
+import { averageRating, averageRatingBy, FeedbackDimension } from '../utils/feedback';
+import { isLevelId, isToneId } from '../services/settings';
+import { DownloadIcon, StarIcon } from './icons';
+import { formatDateTime, formatNumber, MessageKey, t } from '../i18n';
+
+interface FeedbackAnalyticsProps {
+    entries: FeedbackEntry[];
+    onExport: (format: FeedbackExportFormat) => void;
+    onClose: () => void;
+}
+
+const DIMENSIONS: { dimension: FeedbackDimension; title: MessageKey }[] = [
+    { dimension: 'tone', title: 'analytics.byTone' },
+    { dimension: 'level', title: 'analytics.byLevel' },
+    { dimension: 'model', title: 'analytics.byModel' },
+];
+
+// Built-in tones and levels are stored as identifiers; custom ones and model names are shown as they are.
+const valueLabel = (dimension: FeedbackDimension, value: string): string => {
+    if (dimension === 'tone' && isToneId(value)) return t(`tone.${value}`);
+    if (dimension === 'level' && isLevelId(value)) return t(`level.${value}`);
+    return value;
+};
+
+const formatAverage = (average: number) => formatNumber(average, { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+
+/** Average ratings per tone, level and model, with the latest comments and an export of everything. */
+export const FeedbackAnalytics: React.FC<FeedbackAnalyticsProps> = ({ entries, onExport, onClose }) => {
+    const latestComments = entries.filter(entry => entry.comment.trim()).slice(-5).reverse();
+
+    return (
+        <div className="fixed inset-0 z-20 bg-black/60 flex items-center justify-center p-4" onClick={onClose}>
+            <div
+                role="dialog"
+                aria-label={t('analytics.title')}
+                onClick={e => e.stopPropagation()}
+                className="w-full max-w-2xl max-h-full overflow-y-auto bg-gray-800 border border-gray-700 rounded-xl shadow-xl p-6 flex flex-col gap-6"
+            >
+                <div className="flex justify-between items-center">
+                    <h2 className="text-2xl font-bold text-purple-400">{t('analytics.title')}</h2>
+                    <button onClick={onClose} title={t('actions.close')} className="text-gray-400 hover:text-white">✕</button>
+                </div>
+
+                {entries.length === 0 ? (
+                    <p className="text-gray-400 text-center py-6">{t('analytics.empty')}</p>
+                ) : (
+                    <>
+                        <div className="flex flex-wrap justify-between items-center gap-2">
+                            <p className="flex items-center gap-1 text-gray-300">
+                                <StarIcon className="w-5 h-5 text-yellow-400" />
+                                {t('analytics.overall', { average: formatAverage(averageRating(entries)), count: entries.length })}
+                            </p>
+                            <div className="flex gap-2">
+                                {(['json', 'csv'] as const).map(format => (
+                                    <button key={format} onClick={() => onExport(format)} className="flex items-center gap-1 px-3 py-1.5 text-sm bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors">
+                                        <DownloadIcon className="w-4 h-4" /> {t(format === 'json' ? 'analytics.exportJson' : 'analytics.exportCsv')}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+
+                        {DIMENSIONS.map(({ dimension, title }) => {
+                            const groups = averageRatingBy(entries, dimension);
+                            if (groups.length === 0) return null;
+                            return (
+                                <section key={dimension}>
+                                    <h3 className="text-lg font-semibold text-gray-300 mb-2">{t(title)}</h3>
+                                    <ul className="flex flex-col gap-1">
+                                        {groups.map(group => (
+                                            <li key={group.value} className="flex items-center gap-3 text-sm">
+                                                <span className="w-40 truncate text-gray-300" dir="auto">{valueLabel(dimension, group.value)}</span>
+                                                <span className="flex-1 h-2 bg-gray-700 rounded-full overflow-hidden">
+                                                    <span className="block h-full bg-yellow-400" style={{ width: `${(group.average / 5) * 100}%` }} />
+                                                </span>
+                                                <span className="w-28 text-end tabular-nums text-gray-400">
+                                                    {t('analytics.groupAverage', { average: formatAverage(group.average), count: group.count })}
+                                                </span>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </section>
+                            );
+                        })}
+
+                        {latestComments.length > 0 && (
+                            <section>
+                                <h3 className="text-lg font-semibold text-gray-300 mb-2">{t('analytics.latestComments')}</h3>
+                                <ul className="flex flex-col gap-2">
+                                    {latestComments.map(entry => (
+                                        <li key={entry.id} className="p-3 bg-gray-900 border border-gray-700 rounded-lg text-sm">
+                                            <div className="flex justify-between gap-2 text-xs text-gray-500 mb-1">
+                                                <span>{'★'.repeat(entry.stars)}</span>
+                                                <span>{formatDateTime(entry.createdAt)}</span>
+                                            </div>
+                                            <p className="text-gray-300 whitespace-pre-wrap" dir="auto">{entry.comment}</p>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </section>
+                        )}
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
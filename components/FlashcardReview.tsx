@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { Flashcard, ReviewGrade } from '../types';
+import { dueCards } from '../utils/spacedRepetition';
+import { formatDateTime, t } from '../i18n';
+
+interface FlashcardReviewProps {
+    cards: Flashcard[];
+    onReview: (id: string, grade: ReviewGrade) => void;
+    onDelete: (id: string) => void;
+    onClose: () => void;
+}
+
+const GRADES: { grade: ReviewGrade; className: string }[] = [
+    { grade: 'again', className: 'bg-red-700 hover:bg-red-600' },
+    { grade: 'hard', className: 'bg-orange-700 hover:bg-orange-600' },
+    { grade: 'good', className: 'bg-green-700 hover:bg-green-600' },
+    { grade: 'easy', className: 'bg-cyan-700 hover:bg-cyan-600' },
+];
+
+/** Reviews the due cards one by one, most overdue first; grading a card reschedules it. */
+export const FlashcardReview: React.FC<FlashcardReviewProps> = ({ cards, onReview, onDelete, onClose }) => {
+    const [revealed, setRevealed] = useState<boolean>(false);
+    const due = dueCards(cards);
+    const card = due[0];
+    const nextDueAt = cards.length > 0 ? Math.min(...cards.map(item => item.dueAt)) : null;
+
+    const handleGrade = (grade: ReviewGrade) => {
+        setRevealed(false);
+        onReview(card.id, grade);
+    };
+
+    return (
+        <div className="fixed inset-0 z-20 bg-black/60 flex items-center justify-center p-4" onClick={onClose}>
+            <div
+                role="dialog"
+                aria-label={t('flashcards.title')}
+                onClick={e => e.stopPropagation()}
+                className="w-full max-w-lg max-h-full overflow-y-auto bg-gray-800 border border-gray-700 rounded-xl shadow-xl p-6 flex flex-col gap-4"
+            >
+                <div className="flex justify-between items-center">
+                    <h2 className="text-2xl font-bold text-purple-400">{t('flashcards.title')}</h2>
+                    <button onClick={onClose} title={t('actions.close')} className="text-gray-400 hover:text-white">✕</button>
+                </div>
+                {cards.length > 0 && <p className="text-sm text-gray-400">{t('flashcards.due', { due: due.length, total: cards.length })}</p>}
+
+                {card ? (
+                    <>
+                        <div className="min-h-[8rem] p-4 bg-gray-900 border border-gray-700 rounded-lg whitespace-pre-wrap text-gray-200" dir="auto">
+                            {card.front}
+                            {revealed && <div className="mt-4 pt-4 border-t border-gray-700 text-cyan-300">{card.back}</div>}
+                        </div>
+                        {revealed ? (
+                            <div className="grid grid-cols-4 gap-2">
+                                {GRADES.map(({ grade, className }) => (
+                                    <button key={grade} onClick={() => handleGrade(grade)} className={`px-2 py-2 text-white rounded-lg transition-colors ${className}`}>
+                                        {t(`flashcards.grade.${grade}`)}
+                                    </button>
+                                ))}
+                            </div>
+                        ) : (
+                            <button onClick={() => setRevealed(true)} className="px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white font-semibold rounded-lg transition-colors">
+                                {t('flashcards.reveal')}
+                            </button>
+                        )}
+                        <button onClick={() => { setRevealed(false); onDelete(card.id); }} className="self-start text-sm text-gray-500 hover:text-red-400">
+                            {t('flashcards.delete')}
+                        </button>
+                    </>
+                ) : (
+                    <p className="text-center text-gray-400">
+                        {cards.length === 0 ? t('flashcards.empty') : t('flashcards.done')}
+                        {nextDueAt !== null && <span className="block mt-1 text-sm">{t('flashcards.nextDue', { date: formatDateTime(nextDueAt) })}</span>}
+                    </p>
+                )}
+            </div>
+        </div>
+    );
+};
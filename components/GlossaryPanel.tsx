@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { GlossaryTerm } from '../types';
+import { TextRange } from '../utils/textChunker';
+import { BookOpenIcon, DownloadIcon, SoundWaveIcon } from './icons';
+import { formatNumber, t } from '../i18n';
+
+interface GlossaryPanelProps {
+    glossary: GlossaryTerm[];
+    /** The term whose pronunciation is being synthesized, if any. */
+    pronouncingTerm: string | null;
+    onPronounce: (term: string) => void;
+    onShowOccurrence: (range: TextRange) => void;
+    onDownload: () => void;
+}
+
+/** The glossary as a table; each term's occurrence count steps through its places in the input. */
+export const GlossaryPanel: React.FC<GlossaryPanelProps> = ({ glossary, pronouncingTerm, onPronounce, onShowOccurrence, onDownload }) => {
+    const [shownOccurrence, setShownOccurrence] = useState<Record<string, number>>({});
+
+    const handleShowNext = (entry: GlossaryTerm) => {
+        const next = ((shownOccurrence[entry.term] ?? -1) + 1) % entry.occurrences.length;
+        setShownOccurrence({ ...shownOccurrence, [entry.term]: next });
+        onShowOccurrence(entry.occurrences[next]);
+    };
+
+    return (
+        <div className="bg-gray-800/50 rounded-xl shadow-lg p-6 backdrop-blur-sm border border-gray-700 animate-fade-in">
+            <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+                <h2 className="flex items-center gap-2 text-2xl font-bold text-amber-400">
+                    <BookOpenIcon className="w-6 h-6" /> {t('glossary.title')}
+                </h2>
+                <button onClick={onDownload} className="flex items-center gap-1 px-3 py-1.5 text-sm bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors">
+                    <DownloadIcon className="w-4 h-4" /> {t('glossary.downloadCsv')}
+                </button>
+            </div>
+            <div className="overflow-x-auto">
+                <table className="w-full text-start text-sm">
+                    <thead className="text-gray-400 border-b border-gray-700">
+                        <tr>
+                            <th className="p-2 text-start font-medium">{t('glossary.term')}</th>
+                            <th className="p-2 text-start font-medium">{t('glossary.definition')}</th>
+                            <th className="p-2 text-start font-medium">{t('glossary.occurrences')}</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {glossary.map(entry => (
+                            <tr key={entry.term} className="border-b border-gray-700/50 align-top">
+                                <td className="p-2 font-semibold text-amber-300 whitespace-nowrap">
+                                    <span className="flex items-center gap-2">
+                                        <span dir="auto">{entry.term}</span>
+                                        <button
+                                            onClick={() => onPronounce(entry.term)}
+                                            disabled={pronouncingTerm !== null}
+                                            title={t('glossary.pronounce')}
+                                            className="text-gray-400 hover:text-white disabled:text-gray-600"
+                                        >
+                                            <SoundWaveIcon className={`w-4 h-4 ${pronouncingTerm === entry.term ? 'animate-pulse' : ''}`} />
+                                        </button>
+                                    </span>
+                                </td>
+                                <td className="p-2 text-gray-300" dir="auto">{entry.definition}</td>
+                                <td className="p-2">
+                                    <button onClick={() => handleShowNext(entry)} title={t('glossary.showInText')} className="text-purple-300 hover:text-purple-100 underline">
+                                        {formatNumber(entry.occurrences.length)}
+                                    </button>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { Annotation, GlossaryTerm } from '../types';
+import { SoundWaveIcon } from './icons';
+import { annotationsEndingIn, MarkerRenderer, OffsetText } from './AnnotationMarker';
+import { t } from '../i18n';
+
+interface GlossaryTermSpanProps {
+    /** The occurrence as written in the text, which may differ in case from `entry.term`. */
+    text: string;
+    /** Where the occurrence starts in the whole text, for reading selections back. */
+    start: number;
+    entry: GlossaryTerm;
+    onPronounce: (term: string) => void;
+}
+
+/**
+ * An underlined glossary term whose definition shows on hover or focus, and
+ * stays open after a tap on touch screens until tapped again.
+ */
+export const GlossaryTermSpan: React.FC<GlossaryTermSpanProps> = ({ text, start, entry, onPronounce }) => {
+    const [open, setOpen] = useState<boolean>(false);
+
+    return (
+        <span className="relative group">
+            <span
+                role="button"
+                tabIndex={0}
+                data-start={start}
+                aria-expanded={open}
+                // Stops the click from also seeking to the sentence the term is in.
+                onClick={e => { e.stopPropagation(); setOpen(!open); }}
+                onKeyDown={e => { if (e.key === 'Escape') setOpen(false); }}
+                className="underline decoration-dotted decoration-amber-400 underline-offset-4 cursor-help"
+            >
+                {text}
+            </span>
+            <span
+                role="tooltip"
+                data-overlay
+                onClick={e => e.stopPropagation()}
+                className={`${open ? 'block' : 'hidden group-hover:block group-focus-within:block'} absolute z-10 top-full start-0 mt-1 w-64 p-3 bg-gray-900 border border-gray-600 rounded-lg shadow-xl font-sans text-sm text-gray-300 whitespace-normal text-start`}
+            >
+                <span className="flex items-center justify-between gap-2 mb-1">
+                    <strong className="text-amber-300" dir="auto">{entry.term}</strong>
+                    <button onClick={() => onPronounce(entry.term)} title={t('glossary.pronounce')} className="text-gray-400 hover:text-white">
+                        <SoundWaveIcon className="w-4 h-4" />
+                    </button>
+                </span>
+                <span className="block" dir="auto">{entry.definition}</span>
+            </span>
+        </span>
+    );
+};
+
+interface GlossaryTextProps {
+    text: string;
+    glossary: GlossaryTerm[];
+    onPronounce: (term: string) => void;
+    annotations?: Annotation[];
+    renderMarker?: MarkerRenderer;
+}
+
+/**
+ * Plain text with every glossary occurrence, as recorded on the terms,
+ * rendered as a term span, and a marker after every annotated span.
+ */
+export const GlossaryText: React.FC<GlossaryTextProps> = ({ text, glossary, onPronounce, annotations = [], renderMarker }) => {
+    const occurrences = glossary
+        .flatMap(entry => entry.occurrences.map(range => ({ ...range, entry })))
+        .sort((a, b) => a.start - b.start);
+    const parts: React.ReactNode[] = [];
+    let cursor = 0;
+    for (const { start, end, entry } of occurrences) {
+        if (start < cursor || end > text.length) continue;
+        parts.push(<OffsetText key={`text-${cursor}`} text={text.slice(cursor, start)} start={cursor} annotations={annotations} renderMarker={renderMarker} />);
+        parts.push(<GlossaryTermSpan key={start} text={text.slice(start, end)} start={start} entry={entry} onPronounce={onPronounce} />);
+        parts.push(...annotationsEndingIn(annotations, start, end).map(annotation => <React.Fragment key={annotation.id}>{renderMarker?.(annotation)}</React.Fragment>));
+        cursor = end;
+    }
+    parts.push(<OffsetText key={`text-${cursor}`} text={text.slice(cursor)} start={cursor} annotations={annotations} renderMarker={renderMarker} />);
+    return <>{parts}</>;
+};
@@ -0,0 +1,72 @@
+import React from 'react';
+import { BlockNode, InlineNode } from '../utils/markdown';
+
+/** Renders a run of source text that starts at `start`; the caller decides how, e.g. with sentence and term spans. */
+export type RunRenderer = (text: string, start: number) => React.ReactNode;
+
+interface MarkdownInlineProps {
+    nodes: InlineNode[];
+    renderRun: RunRenderer;
+}
+
+/**
+ * Inline Markdown as React elements. Nothing is ever injected as HTML: text
+ * goes through `renderRun`, and links keep only the targets the parser
+ * accepted as safe; any other link shows as its text.
+ */
+export const MarkdownInline: React.FC<MarkdownInlineProps> = ({ nodes, renderRun }) => (
+    <>
+        {nodes.map((node, i) => {
+            switch (node.type) {
+                case 'text':
+                    return <React.Fragment key={i}>{renderRun(node.text, node.start)}</React.Fragment>;
+                case 'code':
+                    return <code key={i} className="px-1 font-mono text-base bg-gray-900 rounded">{renderRun(node.text, node.start)}</code>;
+                case 'strong':
+                    return <strong key={i} className="font-semibold text-gray-100"><MarkdownInline nodes={node.children} renderRun={renderRun} /></strong>;
+                case 'emphasis':
+                    return <em key={i}><MarkdownInline nodes={node.children} renderRun={renderRun} /></em>;
+                case 'link':
+                    return node.href
+                        ? <a key={i} href={node.href} target="_blank" rel="noopener noreferrer" className="text-cyan-400 underline hover:text-cyan-300"><MarkdownInline nodes={node.children} renderRun={renderRun} /></a>
+                        : <React.Fragment key={i}><MarkdownInline nodes={node.children} renderRun={renderRun} /></React.Fragment>;
+            }
+        })}
+    </>
+);
+
+interface MarkdownBlocksProps {
+    blocks: BlockNode[];
+    renderRun: RunRenderer;
+}
+
+const HEADING_CLASSES = ['text-xl', 'text-lg', 'text-base'];
+
+export const MarkdownBlocks: React.FC<MarkdownBlocksProps> = ({ blocks, renderRun }) => (
+    <>
+        {blocks.map((block, i) => {
+            switch (block.type) {
+                case 'heading':
+                    return (
+                        <h4 key={i} className={`mt-4 mb-2 font-sans font-bold text-purple-300 ${HEADING_CLASSES[Math.min(block.level, HEADING_CLASSES.length) - 1]}`}>
+                            <MarkdownInline nodes={block.children} renderRun={renderRun} />
+                        </h4>
+                    );
+                case 'paragraph':
+                    return <p key={i} className="mb-4 whitespace-pre-wrap"><MarkdownInline nodes={block.children} renderRun={renderRun} /></p>;
+                case 'list': {
+                    const List = block.ordered ? 'ol' : 'ul';
+                    return (
+                        <List key={i} className={`mb-4 ps-6 space-y-1 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+                            {block.items.map((item, j) => <li key={j}><MarkdownInline nodes={item} renderRun={renderRun} /></li>)}
+                        </List>
+                    );
+                }
+                case 'quote':
+                    return <blockquote key={i} className="mb-4 ps-3 border-s-2 border-gray-600 text-gray-400"><MarkdownInline nodes={block.children} renderRun={renderRun} /></blockquote>;
+                case 'rule':
+                    return <hr key={i} className="my-4 border-gray-700" />;
+            }
+        })}
+    </>
+);
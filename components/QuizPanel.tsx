@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from 'react';
+import { QuizExportFormat, QuizQuestion, QuizQuestionType } from '../types';
+import { gradeQuiz, QuizResponses } from '../utils/quiz';
+import { AcademicCapIcon } from './icons';
+import { MessageKey, t } from '../i18n';
+
+interface QuizPanelProps {
+    questions: QuizQuestion[];
+    onExport: (format: QuizExportFormat) => void;
+    /** Adds the questions to the flashcard deck and returns how many were new. */
+    onAddFlashcards: () => number;
+}
+
+const TYPE_LABELS: Record<QuizQuestionType, MessageKey> = {
+    'multiple-choice': 'quiz.type.multiple-choice',
+    'true-false': 'quiz.type.true-false',
+    'short-answer': 'quiz.type.short-answer',
+};
+
+const choiceClass = (selected: boolean) =>
+    `px-3 py-2 rounded-lg border text-start transition-colors ${selected ? 'border-purple-500 bg-purple-900/40 text-white' : 'border-gray-600 text-gray-300 hover:bg-gray-700'}`;
+
+const answerLabel = (question: QuizQuestion) =>
+    question.type === 'true-false' ? t(question.answer === 'true' ? 'quiz.true' : 'quiz.false') : question.answer;
+
+/** Takes the quiz one answer at a time; nothing is graded until the learner checks their answers. */
+export const QuizPanel: React.FC<QuizPanelProps> = ({ questions, onExport, onAddFlashcards }) => {
+    const [responses, setResponses] = useState<QuizResponses>({});
+    const [accepted, setAccepted] = useState<Set<string>>(new Set());
+    const [checked, setChecked] = useState<boolean>(false);
+    const [addedCount, setAddedCount] = useState<number | null>(null);
+    const grade = checked ? gradeQuiz(questions, responses, accepted) : null;
+
+    // A new quiz starts with a clean sheet.
+    useEffect(() => {
+        setResponses({});
+        setAccepted(new Set());
+        setChecked(false);
+        setAddedCount(null);
+    }, [questions]);
+
+    const respond = (id: string, value: string) => setResponses(current => ({ ...current, [id]: value }));
+
+    const handleRetake = () => {
+        setResponses({});
+        setAccepted(new Set());
+        setChecked(false);
+    };
+
+    const renderInput = (question: QuizQuestion) => {
+        const response = responses[question.id];
+        if (question.type === 'short-answer') {
+            return (
+                <input
+                    value={response ?? ''}
+                    onChange={e => respond(question.id, e.target.value)}
+                    disabled={checked}
+                    dir="auto"
+                    placeholder={t('quiz.answerPlaceholder')}
+                    className="w-full p-2 bg-gray-900 border border-gray-600 rounded-lg focus:ring-2 focus:ring-purple-500 focus:outline-none"
+                />
+            );
+        }
+        const choices = question.type === 'true-false'
+            ? [{ value: 'true', label: t('quiz.true') }, { value: 'false', label: t('quiz.false') }]
+            : question.options.map(option => ({ value: option, label: option }));
+        return (
+            <div className={question.type === 'true-false' ? 'flex gap-2' : 'grid grid-cols-1 sm:grid-cols-2 gap-2'}>
+                {choices.map(choice => (
+                    <button key={choice.value} onClick={() => respond(question.id, choice.value)} disabled={checked} className={choiceClass(response === choice.value)}>
+                        {choice.label}
+                    </button>
+                ))}
+            </div>
+        );
+    };
+
+    return (
+        <div className="bg-gray-800/50 rounded-xl shadow-lg p-6 backdrop-blur-sm border border-gray-700 animate-fade-in">
+            <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+                <h2 className="text-2xl font-bold text-purple-400 flex items-center gap-2">
+                    <AcademicCapIcon className="w-6 h-6" /> {t('quiz.title')}
+                </h2>
+                <div className="flex gap-3 text-sm">
+                    <button onClick={() => onExport('json')} className="text-cyan-400 hover:text-cyan-300">{t('quiz.exportJson')}</button>
+                    <button onClick={() => onExport('csv')} className="text-cyan-400 hover:text-cyan-300">{t('quiz.exportCsv')}</button>
+                </div>
+            </div>
+            <ol className="space-y-6">
+                {questions.map((question, index) => (
+                    <li key={question.id}>
+                        <p className="text-xs text-gray-500 mb-1">
+                            {t('quiz.question', { number: index + 1 })} · {t(TYPE_LABELS[question.type])}
+                        </p>
+                        <p className="font-semibold text-gray-200 mb-2 whitespace-pre-wrap" dir="auto">{question.question}</p>
+                        {renderInput(question)}
+                        {grade && (
+                            <div className={`mt-2 text-sm ${grade.results[question.id] ? 'text-green-400' : 'text-red-400'}`}>
+                                <p>{grade.results[question.id] ? t('quiz.correct') : t('quiz.incorrect', { answer: answerLabel(question) })}</p>
+                                {question.explanation && <p className="mt-1 text-gray-400" dir="auto">{question.explanation}</p>}
+                                {question.type === 'short-answer' && !grade.results[question.id] && responses[question.id]?.trim() && (
+                                    <button onClick={() => setAccepted(new Set(accepted).add(question.id))} className="mt-1 text-cyan-400 hover:text-cyan-300">
+                                        {t('quiz.markCorrect')}
+                                    </button>
+                                )}
+                            </div>
+                        )}
+                    </li>
+                ))}
+            </ol>
+            <div className="mt-6 flex flex-wrap items-center gap-4 border-t border-gray-700 pt-4">
+                {grade ? (
+                    <>
+                        <p className="text-lg font-semibold text-gray-200">{t('quiz.score', { correct: grade.correct, total: grade.total })}</p>
+                        <button onClick={handleRetake} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors">{t('quiz.retake')}</button>
+                    </>
+                ) : (
+                    <button onClick={() => setChecked(true)} className="px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white font-semibold rounded-lg transition-colors">{t('quiz.check')}</button>
+                )}
+                <button onClick={() => setAddedCount(onAddFlashcards())} className="text-sm text-cyan-400 hover:text-cyan-300">{t('quiz.addFlashcards')}</button>
+                {addedCount !== null && <span className="text-sm text-green-400">{t('quiz.flashcardsAdded', { count: addedCount })}</span>}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,193 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { TimedSentence } from '../utils/sentenceTiming';
+import { Annotation, GlossaryTerm } from '../types';
+import { findTermMatches, splitByTerms } from '../utils/glossary';
+import { locatePlainText, parseInline, parseMarkdown } from '../utils/markdown';
+import { TextRange } from '../utils/textChunker';
+import { StructuredScript, TimeSpan } from '../utils/scriptStructure';
+import { GlossaryTermSpan } from './GlossaryTermSpan';
+import { annotationsEndingIn, MarkerRenderer, OffsetText } from './AnnotationMarker';
+import { MarkdownBlocks, MarkdownInline, RunRenderer } from './MarkdownBlocks';
+import { formatTime } from './AudioPlayerControls';
+import { formatNumber, t } from '../i18n';
+
+interface ScriptViewProps {
+    text: string;
+    sentences: TimedSentence[];
+    /** Index into `sentences` of the one being spoken, or -1. */
+    activeIndex: number;
+    onSentenceClick: (index: number) => void;
+    /** Terms to underline wherever they occur in the script. */
+    glossary?: GlossaryTerm[];
+    onPronounce?: (term: string) => void;
+    /** Annotations on the script, marked where their span ends. */
+    annotations?: Annotation[];
+    renderMarker?: MarkerRenderer;
+    /** The structure of a script; without it the text is rendered as plain Markdown, as summaries are. */
+    structure?: StructuredScript | null;
+    /** Where each section lies in the narration, by section index; null while it isn't known. */
+    sectionSpans?: (TimeSpan | null)[];
+    /** Buttons shown next to a section's heading, e.g. to rewrite or re-narrate it. */
+    renderSectionActions?: (index: number) => React.ReactNode;
+    children?: React.ReactNode;
+}
+
+type Segment = TextRange & { sentenceIndex: number | null };
+
+/**
+ * Locates each timed sentence in the script, in order, so the original
+ * paragraphs and spacing can be rendered with the sentences as clickable spans.
+ * Sentences are narrated without markup, so they are looked up through the
+ * Markdown source; those that cannot be found are left as plain text.
+ */
+const buildSegments = (text: string, sentences: TimedSentence[]): Segment[] => {
+    const segments: Segment[] = [];
+    let cursor = 0;
+    locatePlainText(text, sentences.map(sentence => sentence.text)).forEach((range, index) => {
+        if (!range) return;
+        if (range.start > cursor) {
+            segments.push({ start: cursor, end: range.start, sentenceIndex: null });
+        }
+        segments.push({ ...range, sentenceIndex: index });
+        cursor = range.end;
+    });
+    if (cursor < text.length) {
+        segments.push({ start: cursor, end: text.length, sentenceIndex: null });
+    }
+    return segments;
+};
+
+/** A section's length: measured once it has been narrated, estimated before. */
+const sectionDuration = (estimatedSeconds: number, span: TimeSpan | null | undefined): string =>
+    span ? formatTime(span.end - span.start) : `~${formatTime(estimatedSeconds)}`;
+
+/**
+ * The script or summary as sanitized Markdown, with every run of text split
+ * into clickable timed sentences, glossary terms and annotation markers. A
+ * structured script gets its title, a table of contents and its sections,
+ * each with its own actions, and its takeaways set apart at the end.
+ */
+export const ScriptView: React.FC<ScriptViewProps> = ({
+    text, sentences, activeIndex, onSentenceClick, glossary = [], onPronounce = () => {}, annotations = [], renderMarker,
+    structure = null, sectionSpans = [], renderSectionActions, children,
+}) => {
+    const activeRef = useRef<HTMLSpanElement | null>(null);
+    const scrollRef = useRef<HTMLDivElement | null>(null);
+    const segments = useMemo(() => buildSegments(text, sentences), [text, sentences]);
+    const termMatches = useMemo(() => findTermMatches(text, glossary.map(entry => entry.term)), [text, glossary]);
+
+    const renderTerms = (pieceText: string, pieceStart: number) => {
+        let start = pieceStart;
+        return splitByTerms(pieceText, termMatches, pieceStart).map((piece, j) => {
+            const termStart = start;
+            start += piece.text.length;
+            if (piece.termIndex === null) {
+                return <OffsetText key={j} text={piece.text} start={termStart} annotations={annotations} renderMarker={renderMarker} />;
+            }
+            return (
+                <React.Fragment key={j}>
+                    <GlossaryTermSpan text={piece.text} start={termStart} entry={glossary[piece.termIndex]} onPronounce={onPronounce} />
+                    {annotationsEndingIn(annotations, termStart, start).map(annotation => <React.Fragment key={annotation.id}>{renderMarker?.(annotation)}</React.Fragment>)}
+                </React.Fragment>
+            );
+        });
+    };
+
+    // Markup can cut a sentence into several runs; each part is clickable, and the first part of the active one is scrolled to.
+    const renderRun: RunRenderer = (runText, runStart) => {
+        const runEnd = runStart + runText.length;
+        return segments
+            .filter(segment => segment.start < runEnd && segment.end > runStart)
+            .map(segment => {
+                const start = Math.max(segment.start, runStart);
+                const end = Math.min(segment.end, runEnd);
+                const terms = renderTerms(text.slice(start, end), start);
+                const sentenceIndex = segment.sentenceIndex;
+                if (sentenceIndex === null) {
+                    return <React.Fragment key={start}>{terms}</React.Fragment>;
+                }
+                const isActive = sentenceIndex === activeIndex;
+                return (
+                    <span
+                        key={start}
+                        ref={isActive && start === segment.start ? activeRef : undefined}
+                        onClick={() => onSentenceClick(sentenceIndex)}
+                        className={`cursor-pointer rounded transition-colors duration-200 ${isActive ? 'bg-purple-500/30 text-white' : 'hover:bg-gray-700/60'}`}
+                    >
+                        {terms}
+                    </span>
+                );
+            });
+    };
+
+    useEffect(() => {
+        activeRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    }, [activeIndex]);
+
+    const scrollToSection = (index: number) => {
+        scrollRef.current?.querySelector(`[data-section="${index}"]`)?.scrollIntoView({ block: 'start', behavior: 'smooth' });
+    };
+
+    const hasOutline = structure !== null && structure.sections.some(section => section.heading);
+
+    return (
+        <div className="text-gray-300 font-serif text-lg leading-relaxed" dir="auto">
+            {structure?.titleRange && (
+                <h3 className="mb-3 font-sans text-2xl font-bold text-white">
+                    <MarkdownInline nodes={parseInline(text, structure.titleRange.start, structure.titleRange.end)} renderRun={renderRun} />
+                </h3>
+            )}
+            {hasOutline && (
+                <nav data-overlay aria-label={t('script.outline')} className="mb-4 p-3 font-sans text-sm bg-gray-900/60 border border-gray-700 rounded-lg">
+                    <h4 className="mb-2 text-xs font-semibold uppercase tracking-wide text-gray-400">{t('script.outline')}</h4>
+                    <ol className="space-y-1">
+                        {structure.sections.map((section, index) => (
+                            <li key={index} className="flex items-center justify-between gap-3">
+                                <button onClick={() => scrollToSection(index)} className="text-start text-gray-300 hover:text-purple-300">
+                                    {formatNumber(index + 1)}. {section.heading || t('script.opening')}
+                                </button>
+                                <span
+                                    title={t(sectionSpans[index] ? 'script.durationHint' : 'script.estimateHint')}
+                                    dir="ltr"
+                                    className="shrink-0 tabular-nums text-xs text-gray-500"
+                                >
+                                    {sectionDuration(section.estimatedSeconds, sectionSpans[index])}
+                                </span>
+                            </li>
+                        ))}
+                    </ol>
+                </nav>
+            )}
+            <div ref={scrollRef} className="max-h-[40vh] overflow-y-auto pe-2">
+                {structure
+                    ? structure.sections.map((section, index) => (
+                        <section key={index} data-section={index}>
+                            {(section.headingRange || renderSectionActions) && (
+                                <div className="flex items-start justify-between gap-3">
+                                    {section.headingRange ? (
+                                        <h4 className="mt-2 mb-2 font-sans text-xl font-bold text-purple-300">
+                                            <MarkdownInline nodes={parseInline(text, section.headingRange.start, section.headingRange.end)} renderRun={renderRun} />
+                                        </h4>
+                                    ) : <span />}
+                                    {renderSectionActions && (
+                                        <div data-overlay className="flex shrink-0 items-center gap-1 mt-2 font-sans">
+                                            {renderSectionActions(index)}
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+                            <MarkdownBlocks blocks={parseMarkdown(text, section.bodyRange.start, section.bodyRange.end)} renderRun={renderRun} />
+                        </section>
+                    ))
+                    : <MarkdownBlocks blocks={parseMarkdown(text)} renderRun={renderRun} />}
+                {structure?.takeawaysRange && (
+                    <aside className="mt-2 p-4 bg-purple-900/20 border border-purple-800/60 rounded-lg">
+                        <h4 className="mb-2 font-sans text-lg font-bold text-purple-300">{t('script.takeaways')}</h4>
+                        <MarkdownBlocks blocks={parseMarkdown(text, structure.takeawaysRange.start, structure.takeawaysRange.end)} renderRun={renderRun} />
+                    </aside>
+                )}
+                {children}
+            </div>
+        </div>
+    );
+};
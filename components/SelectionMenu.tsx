@@ -0,0 +1,68 @@
+import React, { useEffect, useRef } from 'react';
+import { SelectionAction } from '../types';
+import { MessageKey, t } from '../i18n';
+
+export const SELECTION_ACTIONS: SelectionAction[] = ['explain', 'simplify', 'example', 'translate'];
+
+export const SELECTION_ACTION_LABELS: Record<SelectionAction, MessageKey> = {
+    explain: 'selection.explain',
+    simplify: 'selection.simplify',
+    example: 'selection.example',
+    translate: 'selection.translate',
+};
+
+interface SelectionMenuProps {
+    /** Viewport coordinates the menu opens at, usually where the context menu was requested. */
+    x: number;
+    y: number;
+    onPick: (action: SelectionAction) => void;
+    onClose: () => void;
+}
+
+// Keeps the menu on screen when it's opened near the right or bottom edge.
+const MENU_WIDTH = 200;
+const MENU_HEIGHT = 180;
+
+/** A context menu of what can be done with the selected text; closes on Escape or a click elsewhere. */
+export const SelectionMenu: React.FC<SelectionMenuProps> = ({ x, y, onPick, onClose }) => {
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        menuRef.current?.querySelector<HTMLButtonElement>('button')?.focus();
+        const handlePointerDown = (e: MouseEvent) => {
+            if (!menuRef.current?.contains(e.target as Node)) onClose();
+        };
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+        };
+        document.addEventListener('mousedown', handlePointerDown);
+        document.addEventListener('keydown', handleKeyDown);
+        window.addEventListener('scroll', onClose, true);
+        return () => {
+            document.removeEventListener('mousedown', handlePointerDown);
+            document.removeEventListener('keydown', handleKeyDown);
+            window.removeEventListener('scroll', onClose, true);
+        };
+    }, [onClose]);
+
+    return (
+        <div
+            ref={menuRef}
+            role="menu"
+            aria-label={t('selection.menu')}
+            style={{ left: Math.max(0, Math.min(x, window.innerWidth - MENU_WIDTH)), top: Math.max(0, Math.min(y, window.innerHeight - MENU_HEIGHT)) }}
+            className="fixed z-30 w-[200px] py-1 bg-gray-800 border border-gray-600 rounded-lg shadow-xl text-sm"
+        >
+            {SELECTION_ACTIONS.map(action => (
+                <button
+                    key={action}
+                    role="menuitem"
+                    onClick={() => onPick(action)}
+                    className="block w-full px-3 py-2 text-start text-gray-200 hover:bg-purple-600 focus:bg-purple-600 focus:outline-none"
+                >
+                    {t(SELECTION_ACTION_LABELS[action])}
+                </button>
+            ))}
+        </div>
+    );
+};
@@ -0,0 +1,107 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Session } from '../types';
+import { StorageUsage } from '../services/sessionStore';
+import { formatBytes, formatDateTime, t } from '../i18n';
+
+interface SessionLibraryProps {
+    sessions: Session[];
+    usage: StorageUsage | null;
+    activeSessionId: string | null;
+    onOpen: (session: Session) => void;
+    onRename: (id: string, name: string) => void;
+    onTogglePin: (session: Session) => void;
+    onDelete: (id: string) => void;
+    onDeleteAudio: (id: string) => void;
+    onPrune: () => void;
+}
+
+export const SessionLibrary: React.FC<SessionLibraryProps> = ({
+    sessions, usage, activeSessionId, onOpen, onRename, onTogglePin, onDelete, onDeleteAudio, onPrune,
+}) => {
+    const [query, setQuery] = useState<string>('');
+    const [renamingId, setRenamingId] = useState<string | null>(null);
+    const [renameText, setRenameText] = useState<string>('');
+    const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+    useEffect(() => setConfirmDeleteId(null), [sessions]);
+
+    const filtered = useMemo(() => {
+        const needle = query.trim().toLowerCase();
+        if (!needle) return sessions;
+        return sessions.filter(session =>
+            session.name.toLowerCase().includes(needle) || session.inputText.toLowerCase().includes(needle));
+    }, [sessions, query]);
+
+    const handleSaveRename = (id: string) => {
+        if (renameText.trim()) onRename(id, renameText.trim());
+        setRenamingId(null);
+    };
+
+    return (
+        <div className="absolute z-10 top-12 end-2 w-80 bg-gray-800 border border-gray-700 rounded-lg shadow-xl text-sm">
+            <div className="p-2 border-b border-gray-700">
+                <input
+                    type="search"
+                    value={query}
+                    onChange={e => setQuery(e.target.value)}
+                    placeholder={t('library.search')}
+                    className="w-full p-2 bg-gray-900 border border-gray-600 rounded focus:ring-2 focus:ring-purple-500 focus:outline-none"
+                    aria-label={t('library.searchLabel')}
+                />
+            </div>
+            <ul className="max-h-72 overflow-y-auto">
+                {filtered.length === 0 && (
+                    <li className="px-4 py-2 text-gray-500">{sessions.length === 0 ? t('library.empty') : t('library.noMatch')}</li>
+                )}
+                {filtered.map(session => (
+                    <li key={session.id} className={`px-3 py-2 border-b border-gray-700/50 ${session.id === activeSessionId ? 'bg-gray-700/50' : ''}`}>
+                        {renamingId === session.id ? (
+                            <div className="flex gap-2">
+                                <input
+                                    value={renameText}
+                                    onChange={e => setRenameText(e.target.value)}
+                                    onKeyDown={e => { if (e.key === 'Enter') handleSaveRename(session.id); if (e.key === 'Escape') setRenamingId(null); }}
+                                    className="flex-1 min-w-0 p-1 bg-gray-900 border border-gray-600 rounded"
+                                    aria-label={t('library.name')}
+                                    autoFocus
+                                />
+                                <button onClick={() => handleSaveRename(session.id)} className="text-purple-400 hover:text-purple-300">{t('actions.save')}</button>
+                            </div>
+                        ) : (
+                            <button onClick={() => onOpen(session)} className="block w-full text-start">
+                                <span className="block text-gray-200 truncate">{session.pinned && '📌 '}{session.name}</span>
+                                <span className="block text-xs text-gray-500">
+                                    {formatDateTime(session.updatedAt)}
+                                    {session.script && ` · ${t('library.hasScript')}`}
+                                    {session.summary && ` · ${t('library.hasSummary')}`}
+                                    {session.hasAudio && ` · ${t('library.hasAudio')}`}
+                                    {session.qaHistory.length > 0 && ` · ${t('library.questions', { count: Math.round(session.qaHistory.length / 2) })}`}
+                                    {' · '}{formatBytes(session.sizeBytes)}
+                                </span>
+                            </button>
+                        )}
+                        <div className="mt-1 flex gap-3 text-xs text-gray-500">
+                            <button onClick={() => onTogglePin(session)} className="hover:text-white">{session.pinned ? t('library.unpin') : t('library.pin')}</button>
+                            <button onClick={() => { setRenamingId(session.id); setRenameText(session.name); }} className="hover:text-white">{t('library.rename')}</button>
+                            {session.hasAudio && <button onClick={() => onDeleteAudio(session.id)} className="hover:text-white">{t('library.deleteAudio')}</button>}
+                            {confirmDeleteId === session.id ? (
+                                <button onClick={() => onDelete(session.id)} className="text-red-400 hover:text-red-300">{t('library.confirmDelete')}</button>
+                            ) : (
+                                <button onClick={() => setConfirmDeleteId(session.id)} className="hover:text-red-400">{t('actions.delete')}</button>
+                            )}
+                        </div>
+                    </li>
+                ))}
+            </ul>
+            {usage && (
+                <div className="p-2 flex items-center justify-between gap-2 text-xs text-gray-500">
+                    <span>
+                        {t('library.usage', { used: formatBytes(usage.libraryBytes), budget: formatBytes(usage.budgetBytes) })}
+                        {usage.originQuota !== undefined && t('library.browserUsage', { used: formatBytes(usage.originUsage ?? 0), quota: formatBytes(usage.originQuota) })}
+                    </span>
+                    <button onClick={onPrune} className="text-cyan-400 hover:text-cyan-300 whitespace-nowrap" title={t('library.pruneHint')}>{t('library.prune')}</button>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,237 @@
+import React, { useEffect, useState } from 'react';
+import { AppSettings, DEFAULT_SETTINGS, LEVELS, TONES } from '../services/settings';
+import { ModelOperation, VoiceOption } from '../services/providers';
+import type { ThinkingRange } from '../services/providers/geminiProvider';
+import { CacheUsage, clearCache, getCacheUsage } from '../services/resultCache';
+import { LevelId, ToneId } from '../types';
+import { formatBytes, t } from '../i18n';
+
+interface SettingsPanelProps {
+    settings: AppSettings;
+    providerLabel: string;
+    voices: VoiceOption[];
+    /** The model each operation currently runs on, shown for fields left blank. */
+    activeModels: Record<ModelOperation, string>;
+    modelSuggestions: string[];
+    /** The thinking budgets a model accepts, or null when it has none. */
+    thinkingRange: (model: string) => ThinkingRange | null;
+    onSave: (settings: AppSettings) => void;
+    onClose: () => void;
+}
+
+const OPERATIONS: ModelOperation[] = ['script', 'dialogue', 'summary', 'chat', 'answer', 'notes', 'quiz', 'glossary', 'selection', 'section', 'speech'];
+
+type ThinkingMode = 'off' | 'dynamic' | 'custom';
+
+const thinkingModeOf = (budget: number): ThinkingMode => (budget === 0 ? 'off' : budget < 0 ? 'dynamic' : 'custom');
+
+const inputClass = "w-full bg-gray-900 border border-gray-600 rounded-lg p-2 focus:ring-2 focus:ring-purple-500 focus:outline-none";
+const labelClass = "block text-sm font-medium text-gray-400 mb-1";
+
+/** Edits a draft of the settings; nothing is applied until the user saves. */
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, providerLabel, voices, activeModels, modelSuggestions, thinkingRange, onSave, onClose }) => {
+    const [draft, setDraft] = useState<AppSettings>(settings);
+    const [showKey, setShowKey] = useState<boolean>(false);
+    const [cacheUsage, setCacheUsage] = useState<CacheUsage | null>(null);
+    const update = (patch: Partial<AppSettings>) => setDraft(current => ({ ...current, ...patch }));
+    const thinkingMode = thinkingModeOf(draft.thinkingBudget);
+    const scriptModel = draft.models.script?.trim() || activeModels.script;
+    const scriptThinking = thinkingRange(scriptModel);
+    const maxThinkingBudget = scriptThinking?.max ?? DEFAULT_SETTINGS.thinkingBudget;
+
+    const handleThinkingModeChange = (mode: ThinkingMode) => {
+        update({ thinkingBudget: mode === 'off' ? 0 : mode === 'dynamic' ? -1 : Math.min(DEFAULT_SETTINGS.thinkingBudget, maxThinkingBudget) });
+    };
+
+    useEffect(() => {
+        getCacheUsage().then(setCacheUsage);
+    }, []);
+
+    const handleClearCache = async () => {
+        await clearCache();
+        setCacheUsage(await getCacheUsage());
+    };
+
+    return (
+        <div className="fixed inset-0 z-20 bg-black/60 flex items-center justify-center p-4" onClick={onClose}>
+            <div
+                role="dialog"
+                aria-label={t('app.settings')}
+                onClick={e => e.stopPropagation()}
+                className="w-full max-w-lg max-h-full overflow-y-auto bg-gray-800 border border-gray-700 rounded-xl shadow-xl p-6 flex flex-col gap-6"
+            >
+                <div className="flex justify-between items-center">
+                    <h2 className="text-2xl font-bold text-purple-400">{t('app.settings')}</h2>
+                    <button onClick={onClose} title={t('actions.close')} className="text-gray-400 hover:text-white">✕</button>
+                </div>
+
+                <section>
+                    <label htmlFor="api-key-input" className={labelClass}>{t('settings.apiKey')}</label>
+                    <div className="flex gap-2">
+                        <input
+                            id="api-key-input"
+                            type={showKey ? 'text' : 'password'}
+                            dir="ltr"
+                            autoComplete="off"
+                            value={draft.apiKey}
+                            onChange={e => update({ apiKey: e.target.value })}
+                            placeholder="AIza..."
+                            className={inputClass}
+                        />
+                        <button onClick={() => setShowKey(!showKey)} className="px-3 text-sm text-gray-300 border border-gray-600 rounded-lg hover:bg-gray-700">
+                            {showKey ? t('settings.hide') : t('settings.show')}
+                        </button>
+                    </div>
+                    <p className="mt-1 text-xs text-gray-500">
+                        {t('settings.apiKeyHint', { label: providerLabel })}
+                    </p>
+                </section>
+
+                <section>
+                    <h3 className="text-lg font-semibold text-gray-300 mb-2">{t('settings.models')}</h3>
+                    <datalist id="model-suggestions">
+                        {modelSuggestions.map(model => <option key={model} value={model} />)}
+                    </datalist>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                        {OPERATIONS.map(operation => (
+                            <div key={operation}>
+                                <label htmlFor={`model-${operation}`} className={labelClass}>{t(`settings.model.${operation}`)}</label>
+                                <input
+                                    id={`model-${operation}`}
+                                    list="model-suggestions"
+                                    dir="ltr"
+                                    value={draft.models[operation] ?? ''}
+                                    onChange={e => update({ models: { ...draft.models, [operation]: e.target.value } })}
+                                    placeholder={activeModels[operation]}
+                                    className={inputClass}
+                                />
+                            </div>
+                        ))}
+                    </div>
+                </section>
+
+                <section>
+                    <label htmlFor="thinking-select" className={labelClass}>{t('settings.thinking')}</label>
+                    <div className="flex gap-2">
+                        <select id="thinking-select" value={thinkingMode} onChange={e => handleThinkingModeChange(e.target.value as ThinkingMode)} className={inputClass}>
+                            <option value="off">{t('settings.thinkingOff')}</option>
+                            <option value="dynamic">{t('settings.thinkingDynamic')}</option>
+                            <option value="custom">{t('settings.thinkingCustom')}</option>
+                        </select>
+                        {thinkingMode === 'custom' && (
+                            <input
+                                type="number"
+                                min={scriptThinking?.min ?? 1}
+                                max={maxThinkingBudget}
+                                step={1024}
+                                value={draft.thinkingBudget}
+                                onChange={e => update({ thinkingBudget: Math.max(1, Number(e.target.value) || 1) })}
+                                aria-label={t('settings.thinkingBudget')}
+                                className={inputClass}
+                            />
+                        )}
+                    </div>
+                    <p className="mt-1 text-xs text-gray-500">
+                        {scriptThinking
+                            ? t('settings.thinkingRange', { model: scriptModel, min: scriptThinking.min, max: scriptThinking.max })
+                            : t('settings.thinkingUnsupported', { model: scriptModel })}
+                        {' '}{t('settings.thinkingHint')}
+                    </p>
+                </section>
+
+                <section className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                    <div>
+                        <label htmlFor="default-tone" className={labelClass}>{t('settings.defaultTone')}</label>
+                        <select id="default-tone" value={draft.defaultTone} onChange={e => update({ defaultTone: e.target.value as ToneId })} className={inputClass}>
+                            {TONES.map(tone => <option key={tone} value={tone}>{t(`tone.${tone}`)}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="default-level" className={labelClass}>{t('settings.defaultLevel')}</label>
+                        <select id="default-level" value={draft.defaultLevel} onChange={e => update({ defaultLevel: e.target.value as LevelId })} className={inputClass}>
+                            {LEVELS.map(level => <option key={level} value={level}>{t(`level.${level}`)}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="default-voice" className={labelClass}>{t('settings.defaultVoice')}</label>
+                        <select id="default-voice" value={draft.defaultVoice} onChange={e => update({ defaultVoice: e.target.value })} className={inputClass}>
+                            <option value="">{t('settings.providerVoice')}</option>
+                            {voices.map(voice => <option key={voice.id} value={voice.id}>{voice.id}</option>)}
+                        </select>
+                    </div>
+                </section>
+
+                <section>
+                    <label htmlFor="feedback-endpoint" className={labelClass}>{t('settings.feedbackEndpoint')}</label>
+                    <input
+                        id="feedback-endpoint"
+                        type="url"
+                        dir="ltr"
+                        value={draft.feedbackEndpoint}
+                        onChange={e => update({ feedbackEndpoint: e.target.value.trim() })}
+                        placeholder="http://localhost:8080/feedback"
+                        className={inputClass}
+                    />
+                    <p className="mt-1 text-xs text-gray-500">{t('settings.feedbackEndpointHint')}</p>
+                </section>
+
+                <section className="flex flex-col gap-2">
+                    <h3 className="text-lg font-semibold text-gray-300">{t('settings.audio')}</h3>
+                    <label className="flex items-center gap-2 text-sm text-gray-300">
+                        <input type="checkbox" checked={draft.trimSilence} onChange={e => update({ trimSilence: e.target.checked })} className="accent-purple-500" />
+                        {t('settings.trimSilence')}
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-gray-300">
+                        <input type="checkbox" checked={draft.normalizeLoudness} onChange={e => update({ normalizeLoudness: e.target.checked })} className="accent-purple-500" />
+                        {t('settings.normalizeLoudness')}
+                    </label>
+                    <div>
+                        <label htmlFor="segment-pause" className={labelClass}>{t('settings.segmentPause')}</label>
+                        <input
+                            id="segment-pause"
+                            type="number"
+                            min={0}
+                            max={3000}
+                            step={50}
+                            value={draft.segmentPauseMs}
+                            onChange={e => update({ segmentPauseMs: Math.min(3000, Math.max(0, Number(e.target.value) || 0)) })}
+                            className={inputClass}
+                        />
+                    </div>
+                    <p className="text-xs text-gray-500">{t('settings.audioHint')}</p>
+                </section>
+
+                <section>
+                    <label htmlFor="cache-budget" className={labelClass}>{t('cache.budget')}</label>
+                    <div className="flex gap-2">
+                        <input
+                            id="cache-budget"
+                            type="number"
+                            min={0}
+                            step={10}
+                            value={draft.cacheBudgetMb}
+                            onChange={e => update({ cacheBudgetMb: Math.max(0, Number(e.target.value) || 0) })}
+                            className={inputClass}
+                        />
+                        <button onClick={handleClearCache} disabled={!cacheUsage?.entries} className="px-3 text-sm text-gray-300 border border-gray-600 rounded-lg hover:bg-gray-700 disabled:text-gray-500 disabled:hover:bg-transparent whitespace-nowrap">
+                            {t('cache.clear')}
+                        </button>
+                    </div>
+                    <p className="mt-1 text-xs text-gray-500">
+                        {cacheUsage && t('cache.usage', { entries: cacheUsage.entries, used: formatBytes(cacheUsage.bytes) })} {t('cache.budgetHint')}
+                    </p>
+                </section>
+
+                <div className="flex flex-wrap justify-between gap-2 border-t border-gray-700 pt-4">
+                    <button onClick={() => setDraft({ ...DEFAULT_SETTINGS, apiKey: draft.apiKey, feedbackEndpoint: draft.feedbackEndpoint, cacheBudgetMb: draft.cacheBudgetMb })} className="px-4 py-2 text-sm text-gray-400 hover:text-white">
+                        {t('settings.reset')}
+                    </button>
+                    <div className="flex gap-2">
+                        <button onClick={onClose} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors">{t('actions.discard')}</button>
+                        <button onClick={() => onSave(draft)} className="px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white font-semibold rounded-lg transition-colors">{t('actions.save')}</button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,33 @@
+import React from 'react';
+import { SourceReference } from '../types';
+import { t } from '../i18n';
+
+interface SourceReferencesProps {
+    references: SourceReference[];
+    onChunkClick: (chunkIndex: number) => void;
+}
+
+/** Lists result paragraphs with chips for the input chunks they were drawn from. */
+export const SourceReferences: React.FC<SourceReferencesProps> = ({ references, onChunkClick }) => (
+    <details className="mt-4 border-t border-gray-700 pt-3">
+        <summary className="cursor-pointer text-sm font-semibold text-gray-300">{t('sources.title', { count: references.length })}</summary>
+        <ul className="mt-2 space-y-2 max-h-60 overflow-y-auto">
+            {references.map((reference, index) => (
+                <li key={index} className="text-sm text-gray-400">
+                    <span className="line-clamp-2">{reference.paragraph}</span>
+                    <span className="mt-1 flex flex-wrap gap-1">
+                        {reference.chunkIndexes.map(chunkIndex => (
+                            <button
+                                key={chunkIndex}
+                                onClick={() => onChunkClick(chunkIndex)}
+                                className="px-2 py-0.5 text-xs rounded-full bg-cyan-900/60 text-cyan-300 hover:bg-cyan-800"
+                            >
+                                {t('sources.chunk', { number: chunkIndex + 1 })}
+                            </button>
+                        ))}
+                    </span>
+                </li>
+            ))}
+        </ul>
+    </details>
+);
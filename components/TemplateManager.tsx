@@ -0,0 +1,260 @@
+import React, { useRef, useState } from 'react';
+import { PromptLibrary, PromptTemplate, ScriptFormat } from '../types';
+import { BUILT_IN_TEMPLATES, buildScriptPrompt, TEMPLATE_VARIABLES, TemplateVariable } from '../services/prompts';
+import { createTemplateId, isNewStyle, mergeLibraries, parseLibraryJson } from '../services/promptLibrary';
+import { DownloadIcon, UploadIcon } from './icons';
+import { LOCALES, Locale, MessageKey, t } from '../i18n';
+
+interface TemplateManagerProps {
+    library: PromptLibrary;
+    /** The template to open with. */
+    initialTemplateId: string;
+    /** Input, tone and level the live preview is rendered with. */
+    previewText: string;
+    tone: string;
+    level: string;
+    onChange: (library: PromptLibrary) => void;
+    /** Makes a template the one new scripts are written from. */
+    onUse: (template: PromptTemplate) => void;
+    onExport: () => void;
+    onClose: () => void;
+}
+
+const PREVIEW_TEXT_LENGTH = 400;
+
+const VARIABLE_HINTS: Record<TemplateVariable, MessageKey> = {
+    text: 'templates.variable.text',
+    tone: 'templates.variable.tone',
+    level: 'templates.variable.level',
+    notes: 'templates.variable.notes',
+};
+
+const FORMAT_LABELS: Record<ScriptFormat, MessageKey> = {
+    monologue: 'voice.monologue',
+    dialogue: 'voice.dialogue',
+};
+
+const LANGUAGE_LABELS: Record<Locale, MessageKey> = {
+    fa: 'language.fa',
+    en: 'language.en',
+};
+
+/** How a template is listed; built-in templates are named after their format. */
+export const templateLabel = (template: PromptTemplate): string =>
+    template.builtIn
+        ? t('templates.builtIn', { format: t(FORMAT_LABELS[template.format]) })
+        : template.name.trim() || t('templates.untitled');
+
+const inputClass = "w-full bg-gray-900 border border-gray-600 rounded-lg p-2 focus:ring-2 focus:ring-purple-500 focus:outline-none";
+const labelClass = "block text-sm font-medium text-gray-400 mb-1";
+const buttonClass = "px-3 py-1.5 text-sm bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 disabled:text-gray-500 text-white rounded-lg transition-colors";
+
+interface StyleListProps {
+    title: string;
+    placeholder: string;
+    items: string[];
+    onChange: (items: string[]) => void;
+}
+
+/** Custom tones or audience profiles: removable chips and a field to add another. */
+const StyleList: React.FC<StyleListProps> = ({ title, placeholder, items, onChange }) => {
+    const [draft, setDraft] = useState<string>('');
+    const canAdd = isNewStyle(draft, items);
+
+    const handleAdd = () => {
+        if (!canAdd) return;
+        onChange([...items, draft.trim()]);
+        setDraft('');
+    };
+
+    return (
+        <section>
+            <h3 className="text-lg font-semibold text-gray-300 mb-2">{title}</h3>
+            {items.length > 0 && (
+                <ul className="flex flex-wrap gap-2 mb-2">
+                    {items.map(item => (
+                        <li key={item} className="flex items-center gap-1 ps-3 pe-1 py-1 bg-gray-700 rounded-full text-sm text-gray-200" dir="auto">
+                            {item}
+                            <button onClick={() => onChange(items.filter(other => other !== item))} title={t('actions.delete')} className="px-1 text-gray-400 hover:text-white">✕</button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            <div className="flex gap-2">
+                <input
+                    value={draft}
+                    onChange={e => setDraft(e.target.value)}
+                    onKeyDown={e => e.key === 'Enter' && handleAdd()}
+                    placeholder={placeholder}
+                    dir="auto"
+                    className={inputClass}
+                />
+                <button onClick={handleAdd} disabled={!canAdd} className={buttonClass}>{t('templates.add')}</button>
+            </div>
+        </section>
+    );
+};
+
+/**
+ * Lists the built-in and user templates, edits user templates in place with a
+ * live preview, and manages custom tones and audience profiles. Built-in
+ * templates are read-only; duplicating one is the way to customize it.
+ */
+export const TemplateManager: React.FC<TemplateManagerProps> = ({ library, initialTemplateId, previewText, tone, level, onChange, onUse, onExport, onClose }) => {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [editingId, setEditingId] = useState<string>(initialTemplateId);
+    const [importError, setImportError] = useState<string>('');
+    const allTemplates = [...BUILT_IN_TEMPLATES, ...library.templates];
+    const template = allTemplates.find(candidate => candidate.id === editingId) ?? BUILT_IN_TEMPLATES[0];
+
+    const sample = previewText.trim() || t('templates.sampleText');
+    const preview = buildScriptPrompt(template, {
+        material: sample.length > PREVIEW_TEXT_LENGTH ? `${sample.slice(0, PREVIEW_TEXT_LENGTH)}…` : sample,
+        fromNotes: false,
+        tone,
+        level,
+    });
+
+    const updateTemplate = (patch: Partial<PromptTemplate>) => {
+        onChange({ ...library, templates: library.templates.map(candidate => (candidate.id === template.id ? { ...candidate, ...patch } : candidate)) });
+    };
+
+    const handleDuplicate = () => {
+        const copy: PromptTemplate = {
+            id: createTemplateId(),
+            name: t('templates.copyOf', { name: templateLabel(template) }),
+            language: template.language,
+            format: template.format,
+            body: template.body,
+        };
+        onChange({ ...library, templates: [...library.templates, copy] });
+        setEditingId(copy.id);
+    };
+
+    const handleDelete = () => {
+        onChange({ ...library, templates: library.templates.filter(candidate => candidate.id !== template.id) });
+        setEditingId(BUILT_IN_TEMPLATES[0].id);
+    };
+
+    const handleImport = async (file: File) => {
+        setImportError('');
+        try {
+            onChange(mergeLibraries(library, parseLibraryJson(await file.text())));
+        } catch (error) {
+            setImportError(error instanceof Error ? error.message : t('errors.unknown'));
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-20 bg-black/60 flex items-center justify-center p-4" onClick={onClose}>
+            <div
+                role="dialog"
+                aria-label={t('templates.title')}
+                onClick={e => e.stopPropagation()}
+                className="w-full max-w-3xl max-h-full overflow-y-auto bg-gray-800 border border-gray-700 rounded-xl shadow-xl p-6 flex flex-col gap-6"
+            >
+                <div className="flex justify-between items-center">
+                    <h2 className="text-2xl font-bold text-purple-400">{t('templates.title')}</h2>
+                    <button onClick={onClose} title={t('actions.close')} className="text-gray-400 hover:text-white">✕</button>
+                </div>
+
+                <section className="flex flex-col gap-3">
+                    <div className="flex flex-wrap gap-2">
+                        <select value={template.id} onChange={e => setEditingId(e.target.value)} aria-label={t('templates.title')} className={`${inputClass} flex-1 min-w-[12rem]`}>
+                            {LOCALES.map(language => (
+                                <optgroup key={language} label={t(LANGUAGE_LABELS[language])}>
+                                    {allTemplates.filter(candidate => candidate.language === language).map(candidate => (
+                                        <option key={candidate.id} value={candidate.id}>{templateLabel(candidate)}</option>
+                                    ))}
+                                </optgroup>
+                            ))}
+                        </select>
+                        <button onClick={handleDuplicate} className={buttonClass}>{t('templates.duplicate')}</button>
+                        {!template.builtIn && <button onClick={handleDelete} className={buttonClass}>{t('actions.delete')}</button>}
+                        <button onClick={() => onUse(template)} className="px-3 py-1.5 text-sm bg-purple-600 hover:bg-purple-700 text-white rounded-lg transition-colors">{t('templates.use')}</button>
+                    </div>
+
+                    {template.builtIn ? (
+                        <p className="text-sm text-gray-400">{t('templates.readOnly')}</p>
+                    ) : (
+                        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                            <div>
+                                <label htmlFor="template-name" className={labelClass}>{t('templates.name')}</label>
+                                <input id="template-name" value={template.name} onChange={e => updateTemplate({ name: e.target.value })} dir="auto" className={inputClass} />
+                            </div>
+                            <div>
+                                <label htmlFor="template-language" className={labelClass}>{t('templates.language')}</label>
+                                <select id="template-language" value={template.language} onChange={e => updateTemplate({ language: e.target.value as Locale })} className={inputClass}>
+                                    {LOCALES.map(language => <option key={language} value={language}>{t(LANGUAGE_LABELS[language])}</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <label htmlFor="template-format" className={labelClass}>{t('voice.format')}</label>
+                                <select id="template-format" value={template.format} onChange={e => updateTemplate({ format: e.target.value as ScriptFormat })} className={inputClass}>
+                                    <option value="monologue">{t('voice.monologue')}</option>
+                                    <option value="dialogue">{t('voice.dialogue')}</option>
+                                </select>
+                            </div>
+                        </div>
+                    )}
+
+                    <div>
+                        <label htmlFor="template-body" className={labelClass}>{t('templates.body')}</label>
+                        <textarea
+                            id="template-body"
+                            value={template.body}
+                            onChange={e => updateTemplate({ body: e.target.value })}
+                            readOnly={template.builtIn}
+                            dir="auto"
+                            className={`${inputClass} h-56 font-mono text-sm resize-y ${template.builtIn ? 'text-gray-400' : ''}`}
+                        />
+                        <ul className="mt-1 flex flex-col gap-0.5 text-xs text-gray-500">
+                            {TEMPLATE_VARIABLES.map(variable => (
+                                <li key={variable}><code dir="ltr" className="text-purple-300">{`{${variable}}`}</code> {t(VARIABLE_HINTS[variable])}</li>
+                            ))}
+                        </ul>
+                    </div>
+
+                    <div>
+                        <h3 className={labelClass}>{t('templates.preview')}</h3>
+                        <pre className="max-h-56 overflow-y-auto p-3 bg-gray-900 border border-gray-700 rounded-lg whitespace-pre-wrap font-sans text-sm text-gray-300" dir="auto">{preview}</pre>
+                    </div>
+                </section>
+
+                <StyleList
+                    title={t('templates.tones')}
+                    placeholder={t('templates.tonePlaceholder')}
+                    items={library.tones}
+                    onChange={tones => onChange({ ...library, tones })}
+                />
+                <StyleList
+                    title={t('templates.audiences')}
+                    placeholder={t('templates.audiencePlaceholder')}
+                    items={library.audiences}
+                    onChange={audiences => onChange({ ...library, audiences })}
+                />
+
+                <div className="flex flex-wrap justify-end items-center gap-2 border-t border-gray-700 pt-4">
+                    {importError && <p role="alert" className="me-auto text-sm text-red-400">{importError}</p>}
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept="application/json,.json"
+                        className="hidden"
+                        onChange={e => {
+                            const file = e.target.files?.[0];
+                            if (file) handleImport(file);
+                            e.target.value = '';
+                        }}
+                    />
+                    <button onClick={() => fileInputRef.current?.click()} className={`${buttonClass} flex items-center gap-1`}>
+                        <UploadIcon className="w-4 h-4" /> {t('templates.import')}
+                    </button>
+                    <button onClick={onExport} className={`${buttonClass} flex items-center gap-1`}>
+                        <DownloadIcon className="w-4 h-4" /> {t('templates.export')}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
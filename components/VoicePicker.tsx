@@ -0,0 +1,68 @@
+import React from 'react';
+import { ScriptFormat } from '../types';
+import { VoiceOption } from '../services/providers';
+import { PlayIcon, SpinnerIcon } from './icons';
+import { t } from '../i18n';
+
+interface VoicePickerProps {
+    voices: VoiceOption[];
+    format: ScriptFormat;
+    onFormatChange: (format: ScriptFormat) => void;
+    /** Voice for monologue scripts. */
+    voice: string;
+    onVoiceChange: (voice: string) => void;
+    /** Names of the dialogue hosts, in the language the script will be written in. */
+    speakers: string[];
+    /** One voice per host, in `speakers` order. */
+    dialogueVoices: string[];
+    onDialogueVoicesChange: (voices: string[]) => void;
+    /** The voice whose preview is being synthesized, if any. */
+    previewingVoice: string | null;
+    onPreview: (voice: string) => void;
+    disabled: boolean;
+}
+
+const selectClass = "flex-1 min-w-0 bg-gray-900 border border-gray-600 rounded-lg p-2 focus:ring-2 focus:ring-purple-500 focus:outline-none";
+
+export const VoicePicker: React.FC<VoicePickerProps> = ({
+    voices, format, onFormatChange, voice, onVoiceChange, speakers, dialogueVoices, onDialogueVoicesChange, previewingVoice, onPreview, disabled,
+}) => {
+    const renderVoiceSelect = (id: string, label: string, value: string, onChange: (voice: string) => void) => (
+        <div key={id}>
+            <label htmlFor={id} className="block text-sm font-medium text-gray-400 mb-1">{label}</label>
+            <div className="flex gap-2">
+                <select id={id} value={value} onChange={e => onChange(e.target.value)} disabled={disabled} className={selectClass}>
+                    {voices.map(option => <option key={option.id} value={option.id}>{option.id} – {option.description}</option>)}
+                </select>
+                <button
+                    onClick={() => onPreview(value)}
+                    disabled={previewingVoice !== null}
+                    title={t('voice.preview')}
+                    className="p-2 text-gray-400 hover:text-white rounded-lg border border-gray-600 hover:bg-gray-700 disabled:text-gray-600 transition-colors"
+                >
+                    {previewingVoice === value ? <SpinnerIcon className="w-5 h-5" /> : <PlayIcon className="w-5 h-5" />}
+                </button>
+            </div>
+        </div>
+    );
+
+    return (
+        <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+                <label htmlFor="format-select" className="block text-sm font-medium text-gray-400 mb-1">{t('voice.format')}</label>
+                <select id="format-select" value={format} onChange={e => onFormatChange(e.target.value as ScriptFormat)} disabled={disabled} className={`w-full ${selectClass}`}>
+                    <option value="monologue">{t('voice.monologue')}</option>
+                    <option value="dialogue">{t('voice.dialogue')}</option>
+                </select>
+            </div>
+            {format === 'monologue'
+                ? renderVoiceSelect('voice-select', t('voice.voice'), voice, onVoiceChange)
+                : speakers.map((speaker, index) => renderVoiceSelect(
+                    `voice-select-${index}`,
+                    t('voice.speakerVoice', { speaker }),
+                    dialogueVoices[index],
+                    next => onDialogueVoicesChange(dialogueVoices.map((current, i) => (i === index ? next : current))),
+                ))}
+        </div>
+    );
+};
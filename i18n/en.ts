@@ -0,0 +1,306 @@
+import type { Messages } from './index';
+
+export const en: Messages = {
+    'app.title': 'AI Text Explainer',
+    'app.subtitle': 'Enter a text to summarize it, hear it explained, or ask questions about it.',
+    'app.model': 'Model: {label}',
+    'app.settings': 'Settings',
+    'app.sessions': 'Saved sessions',
+    'app.switchLocale': 'فارسی',
+    'input.placeholder': 'Paste any text here...',
+    'input.label': 'Text to analyze',
+    'input.emptyForScript': 'Please enter a text to analyze.',
+    'input.emptyForSummary': 'Please enter a text to summarize.',
+    'input.emptyForQuiz': 'Please enter a text to create a quiz from.',
+    'input.emptyForGlossary': 'Please enter a text to build a glossary from.',
+    'options.tone': 'Tone',
+    'options.level': 'Level of detail',
+    'options.language': 'Explanation language',
+    'options.template': 'Prompt template',
+    'options.volume': 'Volume: {percent}%',
+    'options.speed': 'Playback speed: {rate}x',
+    'tone.friendly': 'Friendly',
+    'tone.formal': 'Formal',
+    'tone.enthusiastic': 'Enthusiastic',
+    'tone.neutral': 'Neutral',
+    'level.beginner': 'Beginner',
+    'level.intermediate': 'Intermediate',
+    'level.advanced': 'Advanced',
+    'language.fa': 'Persian',
+    'language.en': 'English',
+    'actions.analyze': 'Analyze and narrate',
+    'actions.stop': 'Stop',
+    'actions.summarize': 'Summarize',
+    'actions.quiz': 'Create quiz',
+    'actions.glossary': 'Glossary',
+    'actions.cancel': 'Cancel',
+    'actions.discard': 'Cancel',
+    'actions.close': 'Close',
+    'actions.save': 'Save',
+    'actions.send': 'Send',
+    'actions.edit': 'Edit',
+    'actions.delete': 'Delete',
+    'result.script': 'Generated script',
+    'result.summary': 'Summary',
+    'script.outline': 'Contents',
+    'script.opening': 'Introduction',
+    'script.takeaways': 'Key takeaways',
+    'script.durationHint': 'Length of this section in the narration',
+    'script.estimateHint': 'Estimated length of this section once narrated',
+    'script.regenerateSection': 'Rewrite this section',
+    'script.renarrateSection': 'Narrate this section again',
+    'status.analyzing': 'Thinking... {label} is analyzing your text.',
+    'status.summarizing': 'Writing the summary...',
+    'status.synthesizing': 'Generating audio...',
+    'status.generatingQuiz': 'Writing quiz questions...',
+    'status.extractingGlossary': 'Finding the key terms...',
+    'status.explainingSelection': 'Writing a note on the selection...',
+    'status.regeneratingSection': 'Rewriting the section...',
+    'feedback.question': 'How was it?',
+    'feedback.placeholder': 'Optional feedback...',
+    'feedback.submit': 'Submit feedback',
+    'feedback.thanks': 'Thanks for your feedback!',
+    'analytics.title': 'Feedback analytics',
+    'analytics.empty': 'No feedback submitted yet.',
+    'analytics.overall': 'Average rating {average} from {count} submissions',
+    'analytics.groupAverage': '{average} ({count})',
+    'analytics.byTone': 'By tone',
+    'analytics.byLevel': 'By level',
+    'analytics.byModel': 'By model',
+    'analytics.latestComments': 'Latest comments',
+    'analytics.exportJson': 'Download JSON',
+    'analytics.exportCsv': 'Download CSV',
+    'errors.prefix': 'Error: {message}',
+    'errors.unknown': 'An unknown error occurred.',
+    'errors.mp3': 'Creating the MP3 file failed.',
+    'errors.wav': 'Creating the WAV file failed.',
+    'errors.music': 'Could not read {name} as audio.',
+    'errors.retryAfter': 'Try again in about {seconds} seconds.',
+    'errors.retryAudio': 'Regenerate audio only',
+    'errors.retry': 'Try again',
+    'errors.editInput': 'Edit text',
+    'errors.openSettings': 'Open settings',
+    'errors.rateLimit': 'Too many requests. Wait a moment and try again.',
+    'errors.quota': 'The API quota is used up. Check your quota or billing status.',
+    'errors.safety': 'The request was blocked by the model\'s safety policies. Review the text and remove or rephrase sensitive parts.',
+    'errors.network': 'Could not reach the model service. Check your internet connection and try again.',
+    'errors.auth': 'The API key is missing, invalid or lacks permission. Check the key in the settings.',
+    'errors.emptyResponse': 'The model returned an empty response. Try again.',
+    'errors.invalidResponse': 'The model\'s response could not be processed. Try again.',
+    'errors.server': 'The model service is temporarily unavailable. Try again shortly.',
+    'errors.noAudio': 'No audio data was received from the API.',
+    'errors.script': 'Analyzing the text failed. The model may have returned an error.',
+    'errors.summary': 'Summarizing the text failed. The model may have returned an error.',
+    'errors.answer': 'Answering the question failed. The model may have returned an error.',
+    'errors.speech': 'Generating audio failed. The model may have returned an error.',
+    'errors.quiz': 'Creating the quiz failed. The model may have returned an error.',
+    'errors.glossary': 'Building the glossary failed. The model may have returned an error.',
+    'errors.selection': 'Writing a note on the selection failed. The model may have returned an error.',
+    'errors.section': 'Rewriting the section failed. The model may have returned an error.',
+    'player.position': 'Playback position',
+    'player.previous': 'Previous sentence',
+    'player.pause': 'Pause',
+    'player.play': 'Play',
+    'player.next': 'Next sentence',
+    'player.replay': 'Play from the start',
+    'voice.format': 'Format',
+    'voice.monologue': 'Single narrator',
+    'voice.dialogue': 'Two-host dialogue (podcast)',
+    'voice.voice': 'Voice',
+    'voice.speakerVoice': '{speaker}\'s voice',
+    'voice.preview': 'Preview voice',
+    'export.download': 'Download',
+    'export.script': 'Markdown (MD)',
+    'export.mp3': 'Audio (MP3, compressed)',
+    'export.wav': 'Audio (WAV, uncompressed)',
+    'export.srt': 'Subtitles (SRT)',
+    'export.vtt': 'Subtitles (WebVTT)',
+    'export.music': 'Background music (ducked under speech)',
+    'export.chooseMusic': 'Choose audio file…',
+    'chat.title': 'Ask a question',
+    'chat.clear': 'Clear conversation',
+    'chat.empty': 'No questions yet.',
+    'chat.startFromSummary': 'Start the conversation from this summary',
+    'chat.summaryRequest': 'Summarize the text.',
+    'chat.editQuestion': 'Edit question',
+    'chat.question': 'Q: {text}',
+    'chat.reask': 'Ask again',
+    'chat.followUpPlaceholder': 'Next question or follow-up...',
+    'chat.placeholder': 'Ask something about the text...',
+    'chat.ask': 'Ask',
+    'quiz.title': 'Quiz',
+    'quiz.question': 'Question {number}',
+    'quiz.type.multiple-choice': 'Multiple choice',
+    'quiz.type.true-false': 'True/false',
+    'quiz.type.short-answer': 'Short answer',
+    'quiz.true': 'True',
+    'quiz.false': 'False',
+    'quiz.answerPlaceholder': 'Type your short answer...',
+    'quiz.check': 'Check answers',
+    'quiz.retake': 'Start over',
+    'quiz.score': '{correct} of {total} answers correct',
+    'quiz.correct': 'Correct.',
+    'quiz.incorrect': 'Incorrect. The right answer: {answer}',
+    'quiz.markCorrect': 'My answer was right too',
+    'quiz.exportJson': 'Download JSON',
+    'quiz.exportCsv': 'Download CSV',
+    'quiz.addFlashcards': 'Add to flashcards',
+    'quiz.flashcardsAdded': '{count} cards added to your flashcards.',
+    'flashcards.title': 'Flashcards',
+    'flashcards.due': '{due} of {total} cards due for review',
+    'flashcards.empty': 'No cards yet. Create flashcards from a quiz.',
+    'flashcards.done': 'No cards are due for review right now.',
+    'flashcards.nextDue': 'Next review: {date}',
+    'flashcards.reveal': 'Show answer',
+    'flashcards.grade.again': 'Again',
+    'flashcards.grade.hard': 'Hard',
+    'flashcards.grade.good': 'Good',
+    'flashcards.grade.easy': 'Easy',
+    'flashcards.delete': 'Delete card',
+    'glossary.title': 'Glossary',
+    'glossary.term': 'Term',
+    'glossary.definition': 'Definition',
+    'glossary.occurrences': 'Occurrences',
+    'glossary.showInText': 'Show the next occurrence in the text',
+    'glossary.pronounce': 'Pronounce',
+    'glossary.downloadCsv': 'Download CSV',
+    'glossary.annotateInput': 'Show the terms and notes in the text',
+    'glossary.editInput': 'Edit text',
+    'selection.menu': 'Selected text',
+    'selection.explain': 'Explain this',
+    'selection.simplify': 'Simplify this',
+    'selection.example': 'Give an example',
+    'selection.translate': 'Translate this',
+    'selection.listen': 'Listen to the note',
+    'citations.notFound': 'Not found in the text',
+    'citations.citation': 'Citation {number}',
+    'sources.title': 'Sources in the original text ({count})',
+    'sources.chunk': 'Part {number}',
+    'chunks.mapping': 'The text is long and is processed part by part: {done} of {total} parts',
+    'chunks.combining': 'Combining the results of all parts...',
+    'chunks.failed': 'Part {number} of {total} could not be processed.',
+    'chunks.failedChunk': 'Part {number} failed',
+    'import.dropHint': 'Drop a PDF, DOCX, HTML, Markdown or TXT file here, or',
+    'import.chooseFile': 'choose a file',
+    'import.selectAll': 'Select all',
+    'import.selectNone': 'None',
+    'import.characters': '{count} characters',
+    'import.insertSelected': 'Insert selected sections ({count})',
+    'import.page': 'Page {number}',
+    'import.text': 'Text',
+    'import.fullText': 'Full text',
+    'import.invalidDocx': 'The DOCX file is not valid.',
+    'import.unsupported': 'The format of "{name}" is not supported.',
+    'import.failed': 'Extracting text from "{name}" failed.',
+    'import.noText': 'No text was found in "{name}".',
+    'library.search': 'Search sessions...',
+    'library.searchLabel': 'Search sessions',
+    'library.empty': 'No sessions saved yet.',
+    'library.noMatch': 'No matching sessions.',
+    'library.name': 'Session name',
+    'library.untitled': 'Untitled session',
+    'library.hasScript': 'script',
+    'library.hasSummary': 'summary',
+    'library.hasAudio': 'audio',
+    'library.questions': '{count} questions',
+    'library.pin': 'Pin',
+    'library.unpin': 'Unpin',
+    'library.rename': 'Rename',
+    'library.deleteAudio': 'Delete audio',
+    'library.confirmDelete': 'Delete?',
+    'library.usage': '{used} of {budget}',
+    'library.browserUsage': ' (browser storage: {used} of {quota})',
+    'library.prune': 'Free up space',
+    'library.pruneHint': 'Delete the audio of old, unpinned sessions',
+    'units.kilobytes': '{value} KB',
+    'units.megabytes': '{value} MB',
+    'settings.apiKey': 'Gemini API key',
+    'settings.show': 'Show',
+    'settings.hide': 'Hide',
+    'settings.apiKeyHint': 'The key is stored in this browser only. If left empty, the key set when the app was built is used. Current provider: {label}',
+    'settings.models': 'Model per operation',
+    'settings.model.script': 'Narrated script',
+    'settings.model.dialogue': 'Two-host dialogue',
+    'settings.model.summary': 'Summary',
+    'settings.model.chat': 'Chat about the text',
+    'settings.model.answer': 'Chat citations',
+    'settings.model.notes': 'Notes on long texts',
+    'settings.model.quiz': 'Quizzes and flashcards',
+    'settings.model.glossary': 'Glossary',
+    'settings.model.selection': 'Notes on selected text',
+    'settings.model.section': 'Rewriting one section',
+    'settings.model.speech': 'Text to speech',
+    'settings.thinking': 'Model thinking while writing scripts',
+    'settings.thinkingOff': 'Off (faster)',
+    'settings.thinkingDynamic': 'Automatic',
+    'settings.thinkingCustom': 'Fixed budget',
+    'settings.thinkingBudget': 'Thinking budget (tokens)',
+    'settings.thinkingRange': '{model} accepts budgets from {min} to {max} tokens.',
+    'settings.thinkingUnsupported': '{model} does not think, so no budget is sent to it.',
+    'settings.thinkingHint': 'Each model gets the budget fitted to its own range; Pro models cannot turn thinking off entirely and run with their smallest budget instead.',
+    'settings.defaultTone': 'Default tone',
+    'settings.defaultLevel': 'Default level',
+    'settings.defaultVoice': 'Default voice',
+    'settings.providerVoice': 'Provider default',
+    'settings.reset': 'Reset to defaults',
+    'templates.title': 'Prompt templates',
+    'templates.manage': 'Manage templates',
+    'templates.builtIn': 'Built-in: {format}',
+    'templates.untitled': 'Untitled template',
+    'templates.copyOf': 'Copy of {name}',
+    'templates.duplicate': 'Duplicate',
+    'templates.use': 'Use this template',
+    'templates.readOnly': 'Built-in templates are read-only. Duplicate one to change it.',
+    'templates.name': 'Name',
+    'templates.language': 'Template and output language',
+    'templates.body': 'Template',
+    'templates.variable.text': 'the input text (or its notes for long texts); appended at the end if left out.',
+    'templates.variable.tone': 'the chosen tone',
+    'templates.variable.level': 'the chosen level or audience',
+    'templates.variable.notes': 'how to cite source tags, for long texts only; appended at the end if left out.',
+    'templates.preview': 'Prompt preview',
+    'templates.sampleText': 'Your text goes here.',
+    'templates.tones': 'Custom tones',
+    'templates.tonePlaceholder': 'e.g. witty and warm',
+    'templates.audiences': 'Custom audiences',
+    'templates.audiencePlaceholder': 'e.g. high-school physics student',
+    'templates.add': 'Add',
+    'templates.import': 'Import JSON',
+    'templates.export': 'Download JSON',
+    'templates.invalidFile': 'This file does not contain valid prompt templates.',
+    'settings.feedbackEndpoint': 'Feedback endpoint',
+    'settings.feedbackEndpointHint': 'If set, each submission is also sent to this URL as a JSON POST request, besides being stored in the browser.',
+    'cache.badge': 'From cache',
+    'cache.badgeHint': 'This result was read back from the local cache instead of being generated again.',
+    'cache.regenerate': 'Regenerate',
+    'cache.regenerateHint': 'Generate this result again, ignoring the cache',
+    'cache.budget': 'Result cache limit (MB)',
+    'cache.budgetHint': 'Scripts, summaries and narration are kept in the browser and reused for identical requests; the least recently used are removed first. 0 turns the cache off.',
+    'cache.usage': '{entries} cached results, {used}.',
+    'cache.clear': 'Clear cache',
+    'batch.title': 'Audiobook batch',
+    'batch.draftPlaceholder': 'Paste a text to queue it as a chapter…',
+    'batch.addDraft': 'Add to queue',
+    'batch.addCurrent': 'Add current input',
+    'batch.addFiles': 'Add documents',
+    'batch.settingsHint': 'Every chapter is written and narrated with the tone, level, template, language and voice currently selected in the main view.',
+    'batch.chapterTitle': 'Chapter title',
+    'batch.moveUp': 'Move up',
+    'batch.moveDown': 'Move down',
+    'batch.status.queued': 'Queued',
+    'batch.status.scripting': 'Writing script…',
+    'batch.status.narrating': 'Narrating…',
+    'batch.status.done': 'Done',
+    'batch.status.failed': 'Failed',
+    'batch.start': 'Start ({count})',
+    'batch.retryFailed': 'Retry failed ({count})',
+    'batch.chapters': 'Chapters',
+    'batch.partialHint': 'Only finished chapters are included in the downloads.',
+    'batch.downloadAudio': 'Audiobook (WAV with chapter markers)',
+    'batch.downloadScripts': 'Scripts and chapter list (ZIP)',
+    'settings.audio': 'Audio processing',
+    'settings.trimSilence': 'Trim silence at the start and end of each chunk',
+    'settings.normalizeLoudness': 'Even out loudness between chunks',
+    'settings.segmentPause': 'Pause between chunks (ms)',
+    'settings.audioHint': 'Applied to new narrations, before playback, saving and export.',
+};
@@ -0,0 +1,306 @@
+// Persian UI strings; the reference catalog every other locale must cover.
+// `{name}` placeholders are filled in by `t`.
+export const fa = {
+    'app.title': 'تشریح کننده متن با هوش مصنوعی',
+    'app.subtitle': 'متن را برای خلاصه‌سازی، توضیحات صوتی، یا پرسیدن سوال وارد کنید.',
+    'app.model': 'مدل: {label}',
+    'app.settings': 'تنظیمات',
+    'app.sessions': 'جلسه‌های ذخیره‌شده',
+    'app.switchLocale': 'English',
+    'input.placeholder': 'هر متنی را اینجا وارد کنید...',
+    'input.label': 'ورودی متن برای تحلیل',
+    'input.emptyForScript': 'لطفاً برای تحلیل، متنی را وارد کنید.',
+    'input.emptyForSummary': 'لطفاً برای خلاصه‌سازی، متنی را وارد کنید.',
+    'input.emptyForQuiz': 'لطفاً برای ساخت آزمون، متنی را وارد کنید.',
+    'input.emptyForGlossary': 'لطفاً برای استخراج واژه‌نامه، متنی را وارد کنید.',
+    'options.tone': 'لحن',
+    'options.level': 'سطح جزئیات',
+    'options.language': 'زبان توضیح',
+    'options.template': 'قالب پرامپت',
+    'options.volume': 'بلندی صدا: {percent}%',
+    'options.speed': 'سرعت پخش: {rate}x',
+    'tone.friendly': 'دوستانه',
+    'tone.formal': 'رسمی',
+    'tone.enthusiastic': 'مشتاقانه',
+    'tone.neutral': 'خنثی',
+    'level.beginner': 'مبتدی',
+    'level.intermediate': 'متوسط',
+    'level.advanced': 'پیشرفته',
+    'language.fa': 'فارسی',
+    'language.en': 'انگلیسی',
+    'actions.analyze': 'تحلیل و پخش صوتی',
+    'actions.stop': 'توقف',
+    'actions.summarize': 'خلاصه‌سازی',
+    'actions.quiz': 'ساخت آزمون',
+    'actions.glossary': 'واژه‌نامه',
+    'actions.cancel': 'لغو',
+    'actions.discard': 'انصراف',
+    'actions.close': 'بستن',
+    'actions.save': 'ذخیره',
+    'actions.send': 'ارسال',
+    'actions.edit': 'ویرایش',
+    'actions.delete': 'حذف',
+    'result.script': 'اسکریپت تولید شده',
+    'result.summary': 'خلاصه',
+    'script.outline': 'فهرست',
+    'script.opening': 'مقدمه',
+    'script.takeaways': 'نکات کلیدی',
+    'script.durationHint': 'مدت این بخش در روایت',
+    'script.estimateHint': 'مدت تخمینی این بخش پس از روایت',
+    'script.regenerateSection': 'بازنویسی این بخش',
+    'script.renarrateSection': 'روایت دوباره این بخش',
+    'status.analyzing': 'در حال تفکر... تحلیل متن شما با {label}.',
+    'status.summarizing': 'در حال ساخت خلاصه...',
+    'status.synthesizing': 'در حال تولید صدا...',
+    'status.generatingQuiz': 'در حال طراحی سوال‌های آزمون...',
+    'status.extractingGlossary': 'در حال یافتن اصطلاحات کلیدی...',
+    'status.explainingSelection': 'در حال نوشتن یادداشت برای بخش انتخاب‌شده...',
+    'status.regeneratingSection': 'در حال بازنویسی بخش...',
+    'feedback.question': 'بازخورد شما چطور بود؟',
+    'feedback.placeholder': 'بازخورد اختیاری...',
+    'feedback.submit': 'ثبت بازخورد',
+    'feedback.thanks': 'از بازخورد شما متشکریم!',
+    'analytics.title': 'تحلیل بازخوردها',
+    'analytics.empty': 'هنوز بازخوردی ثبت نشده است.',
+    'analytics.overall': 'میانگین امتیاز {average} از {count} بازخورد',
+    'analytics.groupAverage': '{average} ({count})',
+    'analytics.byTone': 'بر اساس لحن',
+    'analytics.byLevel': 'بر اساس سطح',
+    'analytics.byModel': 'بر اساس مدل',
+    'analytics.latestComments': 'آخرین نظرها',
+    'analytics.exportJson': 'دانلود JSON',
+    'analytics.exportCsv': 'دانلود CSV',
+    'errors.prefix': 'خطا: {message}',
+    'errors.unknown': 'یک خطای ناشناخته رخ داد.',
+    'errors.mp3': 'ساخت فایل MP3 با خطا مواجه شد.',
+    'errors.wav': 'ساخت فایل WAV با خطا مواجه شد.',
+    'errors.music': 'فایل {name} به‌عنوان صدا خوانده نشد.',
+    'errors.retryAfter': 'حدود {seconds} ثانیه دیگر دوباره امتحان کنید.',
+    'errors.retryAudio': 'فقط ساخت دوباره صدا',
+    'errors.retry': 'تلاش دوباره',
+    'errors.editInput': 'ویرایش متن',
+    'errors.openSettings': 'باز کردن تنظیمات',
+    'errors.rateLimit': 'تعداد درخواست‌ها از حد مجاز گذشته است. چند لحظه صبر کنید و دوباره امتحان کنید.',
+    'errors.quota': 'سهمیه استفاده از API تمام شده است. سهمیه یا وضعیت صورت‌حساب حساب خود را بررسی کنید.',
+    'errors.safety': 'درخواست به دلیل سیاست‌های ایمنی مدل مسدود شد. متن را بازبینی کنید و بخش‌های حساس را حذف یا بازنویسی کنید.',
+    'errors.network': 'اتصال به سرویس مدل برقرار نشد. اتصال اینترنت خود را بررسی کنید و دوباره امتحان کنید.',
+    'errors.auth': 'کلید API وارد نشده، نامعتبر است یا دسترسی لازم را ندارد. کلید را در تنظیمات بررسی کنید.',
+    'errors.emptyResponse': 'مدل پاسخ خالی برگرداند. دوباره امتحان کنید.',
+    'errors.invalidResponse': 'پاسخ مدل قابل پردازش نبود. دوباره امتحان کنید.',
+    'errors.server': 'سرویس مدل موقتاً در دسترس نیست. کمی بعد دوباره امتحان کنید.',
+    'errors.noAudio': 'دیتای صوتی از API دریافت نشد.',
+    'errors.script': 'تحلیل متن با خطا مواجه شد. ممکن است مدل خطایی برگردانده باشد.',
+    'errors.summary': 'خلاصه‌سازی متن با خطا مواجه شد. ممکن است مدل خطایی برگردانده باشد.',
+    'errors.answer': 'پاسخ به سوال با خطا مواجه شد. ممکن است مدل خطایی برگردانده باشد.',
+    'errors.speech': 'تولید صدا با خطا مواجه شد. ممکن است مدل خطایی برگردانده باشد.',
+    'errors.quiz': 'ساخت آزمون با خطا مواجه شد. ممکن است مدل خطایی برگردانده باشد.',
+    'errors.glossary': 'استخراج واژه‌نامه با خطا مواجه شد. ممکن است مدل خطایی برگردانده باشد.',
+    'errors.selection': 'نوشتن یادداشت برای بخش انتخاب‌شده با خطا مواجه شد. ممکن است مدل خطایی برگردانده باشد.',
+    'errors.section': 'بازنویسی بخش با خطا مواجه شد. ممکن است مدل خطایی برگردانده باشد.',
+    'player.position': 'موقعیت پخش',
+    'player.previous': 'جمله قبلی',
+    'player.pause': 'مکث',
+    'player.play': 'پخش',
+    'player.next': 'جمله بعدی',
+    'player.replay': 'پخش از ابتدا',
+    'voice.format': 'قالب',
+    'voice.monologue': 'روایت تک‌نفره',
+    'voice.dialogue': 'گفتگوی دو مجری (پادکست)',
+    'voice.voice': 'صدا',
+    'voice.speakerVoice': 'صدای {speaker}',
+    'voice.preview': 'پیش‌نمایش صدا',
+    'export.download': 'دانلود',
+    'export.script': 'مارک‌داون (MD)',
+    'export.mp3': 'صدا (MP3، فشرده)',
+    'export.wav': 'صدا (WAV، بدون فشرده‌سازی)',
+    'export.srt': 'زیرنویس (SRT)',
+    'export.vtt': 'زیرنویس (WebVTT)',
+    'export.music': 'موسیقی پس‌زمینه (زیر صدای گوینده آرام می‌شود)',
+    'export.chooseMusic': 'انتخاب فایل صوتی…',
+    'chat.title': 'یک سوال بپرسید',
+    'chat.clear': 'پاک کردن گفتگو',
+    'chat.empty': 'هنوز سوالی پرسیده نشده است.',
+    'chat.startFromSummary': 'شروع گفتگو از این خلاصه',
+    'chat.summaryRequest': 'متن را خلاصه کن.',
+    'chat.editQuestion': 'ویرایش سوال',
+    'chat.question': 'سوال: {text}',
+    'chat.reask': 'پرسش دوباره',
+    'chat.followUpPlaceholder': 'سوال بعدی یا پیگیری...',
+    'chat.placeholder': 'در مورد متن سوالی بپرسید...',
+    'chat.ask': 'بپرس',
+    'quiz.title': 'آزمون',
+    'quiz.question': 'سوال {number}',
+    'quiz.type.multiple-choice': 'چندگزینه‌ای',
+    'quiz.type.true-false': 'درست/نادرست',
+    'quiz.type.short-answer': 'پاسخ کوتاه',
+    'quiz.true': 'درست',
+    'quiz.false': 'نادرست',
+    'quiz.answerPlaceholder': 'پاسخ کوتاه خود را بنویسید...',
+    'quiz.check': 'بررسی پاسخ‌ها',
+    'quiz.retake': 'شروع دوباره',
+    'quiz.score': '{correct} از {total} پاسخ درست',
+    'quiz.correct': 'درست است.',
+    'quiz.incorrect': 'نادرست است. پاسخ درست: {answer}',
+    'quiz.markCorrect': 'پاسخ من هم درست بود',
+    'quiz.exportJson': 'دانلود JSON',
+    'quiz.exportCsv': 'دانلود CSV',
+    'quiz.addFlashcards': 'افزودن به فلش‌کارت‌ها',
+    'quiz.flashcardsAdded': '{count} کارت به فلش‌کارت‌ها افزوده شد.',
+    'flashcards.title': 'فلش‌کارت‌ها',
+    'flashcards.due': '{due} کارت آماده مرور از {total}',
+    'flashcards.empty': 'هنوز کارتی ندارید. از یک آزمون فلش‌کارت بسازید.',
+    'flashcards.done': 'فعلاً کارتی برای مرور نمانده است.',
+    'flashcards.nextDue': 'مرور بعدی: {date}',
+    'flashcards.reveal': 'نمایش پاسخ',
+    'flashcards.grade.again': 'دوباره',
+    'flashcards.grade.hard': 'سخت',
+    'flashcards.grade.good': 'خوب',
+    'flashcards.grade.easy': 'آسان',
+    'flashcards.delete': 'حذف کارت',
+    'glossary.title': 'واژه‌نامه',
+    'glossary.term': 'اصطلاح',
+    'glossary.definition': 'تعریف',
+    'glossary.occurrences': 'تکرار در متن',
+    'glossary.showInText': 'نمایش مورد بعدی در متن',
+    'glossary.pronounce': 'تلفظ',
+    'glossary.downloadCsv': 'دانلود CSV',
+    'glossary.annotateInput': 'نمایش اصطلاحات و یادداشت‌ها در متن',
+    'glossary.editInput': 'ویرایش متن',
+    'selection.menu': 'کار با متن انتخاب‌شده',
+    'selection.explain': 'توضیح بده',
+    'selection.simplify': 'ساده‌تر بگو',
+    'selection.example': 'مثال بزن',
+    'selection.translate': 'ترجمه کن',
+    'selection.listen': 'شنیدن یادداشت',
+    'citations.notFound': 'در متن یافت نشد',
+    'citations.citation': 'استناد {number}',
+    'sources.title': 'منابع در متن اصلی ({count})',
+    'sources.chunk': 'بخش {number}',
+    'chunks.mapping': 'متن طولانی است و بخش‌به‌بخش پردازش می‌شود: {done} از {total} بخش',
+    'chunks.combining': 'در حال ترکیب نتایج بخش‌ها...',
+    'chunks.failed': 'پردازش بخش {number} از {total} ممکن نشد.',
+    'chunks.failedChunk': 'بخش {number} ناموفق بود',
+    'import.dropHint': 'فایل PDF، DOCX، HTML، Markdown یا TXT را اینجا رها کنید یا',
+    'import.chooseFile': 'انتخاب فایل',
+    'import.selectAll': 'انتخاب همه',
+    'import.selectNone': 'هیچ‌کدام',
+    'import.characters': '{count} نویسه',
+    'import.insertSelected': 'درج بخش‌های انتخاب‌شده ({count})',
+    'import.page': 'صفحه {number}',
+    'import.text': 'متن',
+    'import.fullText': 'متن کامل',
+    'import.invalidDocx': 'فایل DOCX معتبر نیست.',
+    'import.unsupported': 'فرمت فایل «{name}» پشتیبانی نمی‌شود.',
+    'import.failed': 'استخراج متن از «{name}» با خطا مواجه شد.',
+    'import.noText': 'متنی در «{name}» پیدا نشد.',
+    'library.search': 'جستجو در جلسه‌ها...',
+    'library.searchLabel': 'جستجو در جلسه‌ها',
+    'library.empty': 'هنوز جلسه‌ای ذخیره نشده است.',
+    'library.noMatch': 'جلسه‌ای پیدا نشد.',
+    'library.name': 'نام جلسه',
+    'library.untitled': 'جلسه بدون عنوان',
+    'library.hasScript': 'اسکریپت',
+    'library.hasSummary': 'خلاصه',
+    'library.hasAudio': 'صدا',
+    'library.questions': '{count} پرسش',
+    'library.pin': 'سنجاق',
+    'library.unpin': 'برداشتن سنجاق',
+    'library.rename': 'تغییر نام',
+    'library.deleteAudio': 'حذف صدا',
+    'library.confirmDelete': 'حذف شود؟',
+    'library.usage': '{used} از {budget}',
+    'library.browserUsage': ' (فضای مرورگر: {used} از {quota})',
+    'library.prune': 'آزادسازی فضا',
+    'library.pruneHint': 'حذف صدای جلسه‌های قدیمی و سنجاق‌نشده',
+    'units.kilobytes': '{value} کیلوبایت',
+    'units.megabytes': '{value} مگابایت',
+    'settings.apiKey': 'کلید API جمنای',
+    'settings.show': 'نمایش',
+    'settings.hide': 'پنهان',
+    'settings.apiKeyHint': 'کلید فقط در همین مرورگر ذخیره می‌شود. اگر خالی بماند، از کلید تنظیم‌شده هنگام ساخت برنامه استفاده می‌شود. ارائه‌دهنده فعلی: {label}',
+    'settings.models': 'مدل هر عملیات',
+    'settings.model.script': 'اسکریپت تک‌نفره',
+    'settings.model.dialogue': 'گفتگوی دو مجری',
+    'settings.model.summary': 'خلاصه‌سازی',
+    'settings.model.chat': 'گفتگو درباره متن',
+    'settings.model.answer': 'استناد پاسخ‌های گفتگو',
+    'settings.model.notes': 'یادداشت‌برداری از متن‌های طولانی',
+    'settings.model.quiz': 'آزمون و فلش‌کارت',
+    'settings.model.glossary': 'واژه‌نامه',
+    'settings.model.selection': 'یادداشت روی متن انتخاب‌شده',
+    'settings.model.section': 'بازنویسی یک بخش',
+    'settings.model.speech': 'تبدیل متن به گفتار',
+    'settings.thinking': 'تفکر مدل هنگام نوشتن اسکریپت',
+    'settings.thinkingOff': 'خاموش (سریع‌تر)',
+    'settings.thinkingDynamic': 'خودکار',
+    'settings.thinkingCustom': 'بودجه مشخص',
+    'settings.thinkingBudget': 'بودجه تفکر (توکن)',
+    'settings.thinkingRange': '{model} بودجه‌ای از {min} تا {max} توکن می‌پذیرد.',
+    'settings.thinkingUnsupported': '{model} تفکر ندارد، پس بودجه‌ای برایش فرستاده نمی‌شود.',
+    'settings.thinkingHint': 'بودجه برای هر مدل در محدوده خودش تنظیم می‌شود؛ مدل‌های Pro نمی‌توانند تفکر را کاملاً خاموش کنند و با کمترین بودجه اجرا می‌شوند.',
+    'settings.defaultTone': 'لحن پیش‌فرض',
+    'settings.defaultLevel': 'سطح پیش‌فرض',
+    'settings.defaultVoice': 'صدای پیش‌فرض',
+    'settings.providerVoice': 'پیش‌فرض ارائه‌دهنده',
+    'settings.reset': 'بازگشت به پیش‌فرض‌ها',
+    'templates.title': 'قالب‌های پرامپت',
+    'templates.manage': 'مدیریت قالب‌ها',
+    'templates.builtIn': 'پیش‌فرض: {format}',
+    'templates.untitled': 'قالب بی‌نام',
+    'templates.copyOf': 'رونوشت {name}',
+    'templates.duplicate': 'رونوشت',
+    'templates.use': 'استفاده از این قالب',
+    'templates.readOnly': 'قالب‌های پیش‌فرض فقط‌خواندنی هستند. برای تغییر، از آن‌ها رونوشت بگیرید.',
+    'templates.name': 'نام',
+    'templates.language': 'زبان قالب و خروجی',
+    'templates.body': 'متن قالب',
+    'templates.variable.text': 'متن ورودی (یا یادداشت‌های آن برای متن‌های طولانی)؛ اگر نباشد، متن به انتهای قالب افزوده می‌شود.',
+    'templates.variable.tone': 'لحن انتخاب‌شده',
+    'templates.variable.level': 'سطح یا مخاطب انتخاب‌شده',
+    'templates.variable.notes': 'توضیح برچسب‌های منبع، فقط برای متن‌های طولانی؛ اگر نباشد، به انتهای قالب افزوده می‌شود.',
+    'templates.preview': 'پیش‌نمایش پرامپت',
+    'templates.sampleText': 'متن شما در اینجا قرار می‌گیرد.',
+    'templates.tones': 'لحن‌های سفارشی',
+    'templates.tonePlaceholder': 'مثلاً طنزآمیز و صمیمی',
+    'templates.audiences': 'مخاطبان سفارشی',
+    'templates.audiencePlaceholder': 'مثلاً دانش‌آموز فیزیک دبیرستان',
+    'templates.add': 'افزودن',
+    'templates.import': 'وارد کردن JSON',
+    'templates.export': 'دانلود JSON',
+    'templates.invalidFile': 'این فایل، قالب‌های پرامپت معتبری ندارد.',
+    'settings.feedbackEndpoint': 'نشانی دریافت بازخورد',
+    'settings.feedbackEndpointHint': 'اگر وارد شود، هر بازخورد علاوه بر ذخیره در مرورگر به صورت JSON با درخواست POST به این نشانی هم فرستاده می‌شود.',
+    'cache.badge': 'از حافظهٔ موقت',
+    'cache.badgeHint': 'این نتیجه به‌جای تولید دوباره از حافظهٔ موقت محلی خوانده شد.',
+    'cache.regenerate': 'تولید دوباره',
+    'cache.regenerateHint': 'این نتیجه را بدون توجه به حافظهٔ موقت دوباره تولید کن',
+    'cache.budget': 'سقف حافظهٔ موقت نتایج (مگابایت)',
+    'cache.budgetHint': 'اسکریپت‌ها، خلاصه‌ها و صداها در مرورگر نگه داشته می‌شوند و برای درخواست‌های یکسان دوباره به کار می‌روند؛ کم‌استفاده‌ترین‌ها زودتر حذف می‌شوند. مقدار ۰ حافظهٔ موقت را خاموش می‌کند.',
+    'cache.usage': '{entries} نتیجهٔ ذخیره‌شده، {used}.',
+    'cache.clear': 'پاک کردن حافظهٔ موقت',
+    'batch.title': 'کتاب صوتی دسته‌ای',
+    'batch.draftPlaceholder': 'متنی را بچسبانید تا به‌عنوان یک فصل در صف قرار گیرد…',
+    'batch.addDraft': 'افزودن به صف',
+    'batch.addCurrent': 'افزودن متن فعلی',
+    'batch.addFiles': 'افزودن سند',
+    'batch.settingsHint': 'هر فصل با لحن، سطح، قالب، زبان و صدایی که اکنون در صفحهٔ اصلی انتخاب شده نوشته و خوانده می‌شود.',
+    'batch.chapterTitle': 'عنوان فصل',
+    'batch.moveUp': 'انتقال به بالا',
+    'batch.moveDown': 'انتقال به پایین',
+    'batch.status.queued': 'در صف',
+    'batch.status.scripting': 'در حال نوشتن اسکریپت…',
+    'batch.status.narrating': 'در حال خواندن…',
+    'batch.status.done': 'انجام شد',
+    'batch.status.failed': 'ناموفق',
+    'batch.start': 'شروع ({count})',
+    'batch.retryFailed': 'تلاش دوباره برای ناموفق‌ها ({count})',
+    'batch.chapters': 'فصل‌ها',
+    'batch.partialHint': 'فقط فصل‌های کامل‌شده در فایل‌ها قرار می‌گیرند.',
+    'batch.downloadAudio': 'کتاب صوتی (WAV با نشانگر فصل)',
+    'batch.downloadScripts': 'اسکریپت‌ها و فهرست فصل‌ها (ZIP)',
+    'settings.audio': 'پردازش صدا',
+    'settings.trimSilence': 'حذف سکوت ابتدا و انتهای هر بخش',
+    'settings.normalizeLoudness': 'یکسان کردن بلندی صدا بین بخش‌ها',
+    'settings.segmentPause': 'مکث بین بخش‌ها (میلی‌ثانیه)',
+    'settings.audioHint': 'روی صداهای تازه، پیش از پخش، ذخیره و خروجی گرفتن اعمال می‌شود.',
+};
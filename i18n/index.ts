@@ -0,0 +1,49 @@
+import { fa } from './fa';
+import { en } from './en';
+
+export type Locale = 'fa' | 'en';
+export type MessageKey = keyof typeof fa;
+export type Messages = Record<MessageKey, string>;
+
+export const LOCALES: Locale[] = ['fa', 'en'];
+
+const CATALOGS: Record<Locale, Messages> = { fa, en };
+const LOCALE_TAGS: Record<Locale, string> = { fa: 'fa-IR', en: 'en-US' };
+const DIRECTIONS: Record<Locale, 'rtl' | 'ltr'> = { fa: 'rtl', en: 'ltr' };
+
+let currentLocale: Locale = 'fa';
+
+export const getLocale = (): Locale => currentLocale;
+
+export const getDirection = (locale: Locale = currentLocale): 'rtl' | 'ltr' => DIRECTIONS[locale];
+
+/**
+ * Switches the UI language and the page direction. Components read strings
+ * through `t` while rendering, so the caller re-renders the app afterwards.
+ */
+export function setLocale(locale: Locale): void {
+    currentLocale = locale;
+    document.documentElement.lang = locale;
+    document.documentElement.dir = DIRECTIONS[locale];
+    document.title = t('app.title');
+}
+
+export const formatNumber = (value: number, options?: Intl.NumberFormatOptions): string =>
+    value.toLocaleString(LOCALE_TAGS[currentLocale], options);
+
+export const formatDateTime = (timestamp: number): string =>
+    new Date(timestamp).toLocaleString(LOCALE_TAGS[currentLocale], { dateStyle: 'short', timeStyle: 'short' });
+
+export const formatBytes = (bytes: number): string => {
+    if (bytes < 1024 * 1024) return t('units.kilobytes', { value: formatNumber(bytes / 1024, { maximumFractionDigits: 0 }) });
+    return t('units.megabytes', { value: formatNumber(bytes / 1024 / 1024, { maximumFractionDigits: 1 }) });
+};
+
+/** Looks up a UI string in the current locale, filling `{name}` placeholders; numbers are formatted for the locale. */
+export function t(key: MessageKey, params: Record<string, string | number> = {}): string {
+    return CATALOGS[currentLocale][key].replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+        const value = params[name];
+        if (value === undefined) return placeholder;
+        return typeof value === 'number' ? formatNumber(value) : value;
+    });
+}
@@ -2,12 +2,16 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { loadSettings } from './services/settings';
+import { setLocale } from './i18n';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+setLocale(loadSettings().locale);
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
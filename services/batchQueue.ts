@@ -0,0 +1,77 @@
+import { BatchItem, PromptTemplate, ScriptFormat } from '../types';
+import { Locale, t } from '../i18n';
+import { analyzeTextWithThinking, generateSpeechChunked, VoiceSelection } from './geminiService';
+import { concatAudioBuffers, decode, decodeAudioData, processSpeechSegment, SpeechProcessingOptions } from '../utils/audioUtils';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { isAbortError } from '../utils/abort';
+import { scriptNarration } from '../utils/scriptStructure';
+
+// Each item already synthesizes several speech chunks at once, so only a few items run side by side.
+export const BATCH_CONCURRENCY = 2;
+
+/** How every item of a batch is written and narrated. */
+export interface BatchSettings {
+    tone: string;
+    level: string;
+    format: ScriptFormat;
+    template: PromptTemplate;
+    language: Locale;
+    voice: VoiceSelection;
+    /** Processing for each chunk of speech; the last chunk of an item gets no trailing pause. */
+    processing: (isLastChunk: boolean) => SpeechProcessingOptions;
+}
+
+export type BatchItemUpdate = Partial<Pick<BatchItem, 'status' | 'script' | 'audio' | 'error'>>;
+
+export const createBatchItemId = (now = Date.now()): string => `batch-${now.toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+/** Writes the script for one item and narrates it, reporting each stage as it starts. */
+const narrateItem = async (
+    item: BatchItem,
+    settings: BatchSettings,
+    audioContext: AudioContext,
+    signal: AbortSignal,
+    onUpdate: (update: BatchItemUpdate) => void,
+): Promise<void> => {
+    onUpdate({ status: 'scripting', error: undefined });
+    const { text: script, structure } = await analyzeTextWithThinking(item.text, settings.tone, settings.level, {
+        format: settings.format,
+        template: settings.template,
+        language: settings.language,
+        signal,
+    });
+    onUpdate({ status: 'narrating', script });
+    const chunks = await generateSpeechChunked(scriptNarration(structure), undefined, settings.voice, { signal });
+    const buffers = await Promise.all(chunks.map(async (chunk, index) => {
+        const decoded = await decodeAudioData(decode(chunk), audioContext, 24000, 1);
+        return (await processSpeechSegment(decoded, settings.processing(index === chunks.length - 1))).buffer;
+    }));
+    onUpdate({ status: 'done', audio: concatAudioBuffers(audioContext, buffers) });
+};
+
+/**
+ * Runs the items through the script and speech pipeline, at most
+ * `BATCH_CONCURRENCY` at a time. A failed item is marked as such and the
+ * rest carry on; a cancelled one goes back to the queue.
+ */
+export async function runBatch(
+    items: BatchItem[],
+    settings: BatchSettings,
+    audioContext: AudioContext,
+    signal: AbortSignal,
+    onUpdate: (id: string, update: BatchItemUpdate) => void,
+): Promise<void> {
+    await mapWithConcurrency(items, BATCH_CONCURRENCY, async item => {
+        if (signal.aborted) return;
+        try {
+            await narrateItem(item, settings, audioContext, signal, update => onUpdate(item.id, update));
+        } catch (error) {
+            if (isAbortError(error) || signal.aborted) {
+                onUpdate(item.id, { status: 'queued', script: undefined });
+                return;
+            }
+            // The services have logged the cause already.
+            onUpdate(item.id, { status: 'failed', error: error instanceof Error ? error.message : t('errors.unknown') });
+        }
+    });
+}
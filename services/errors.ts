@@ -0,0 +1,175 @@
+import { MessageKey, t } from '../i18n';
+
+export type ServiceErrorKind =
+    | 'rate-limit'
+    | 'quota'
+    | 'safety'
+    | 'network'
+    | 'auth'
+    | 'empty-response'
+    | 'invalid-response'
+    | 'server'
+    | 'unknown';
+
+/** The step of the pipeline a failure happened in, so the UI can offer to redo just that step. */
+export type ServiceStep = 'script' | 'summary' | 'chat' | 'speech' | 'quiz' | 'glossary' | 'selection' | 'section';
+
+// What the user can do about each kind of failure; shown as the error message.
+const KIND_MESSAGES: Record<ServiceErrorKind, MessageKey> = {
+    'rate-limit': 'errors.rateLimit',
+    quota: 'errors.quota',
+    safety: 'errors.safety',
+    network: 'errors.network',
+    auth: 'errors.auth',
+    'empty-response': 'errors.emptyResponse',
+    'invalid-response': 'errors.invalidResponse',
+    server: 'errors.server',
+    unknown: 'errors.unknown',
+};
+
+export class ServiceError extends Error {
+    readonly kind: ServiceErrorKind;
+    /** Whether the same request may succeed if simply sent again. */
+    readonly retryable: boolean;
+    /** Server-suggested wait before retrying, when it gave one. */
+    readonly retryAfterMs?: number;
+    step?: ServiceStep;
+
+    constructor(kind: ServiceErrorKind, options: { message?: string; retryable?: boolean; retryAfterMs?: number; cause?: unknown } = {}) {
+        super(options.message ?? t(KIND_MESSAGES[kind]), { cause: options.cause });
+        this.name = 'ServiceError';
+        this.kind = kind;
+        this.retryable = options.retryable ?? false;
+        this.retryAfterMs = options.retryAfterMs;
+    }
+}
+
+export class RateLimitError extends ServiceError {
+    constructor(options: { retryAfterMs?: number; cause?: unknown } = {}) {
+        super('rate-limit', { ...options, retryable: true });
+        this.name = 'RateLimitError';
+    }
+}
+
+export class QuotaExceededError extends ServiceError {
+    constructor(options: { cause?: unknown } = {}) {
+        super('quota', options);
+        this.name = 'QuotaExceededError';
+    }
+}
+
+export class SafetyBlockError extends ServiceError {
+    /** The provider's block or finish reason, e.g. `SAFETY` or `PROHIBITED_CONTENT`. */
+    readonly reason?: string;
+
+    constructor(options: { reason?: string; cause?: unknown } = {}) {
+        super('safety', { cause: options.cause });
+        this.name = 'SafetyBlockError';
+        this.reason = options.reason;
+    }
+}
+
+export class NetworkError extends ServiceError {
+    constructor(options: { cause?: unknown } = {}) {
+        super('network', { ...options, retryable: true });
+        this.name = 'NetworkError';
+    }
+}
+
+export class AuthError extends ServiceError {
+    constructor(options: { cause?: unknown } = {}) {
+        super('auth', options);
+        this.name = 'AuthError';
+    }
+}
+
+export class EmptyResponseError extends ServiceError {
+    constructor(options: { message?: string; cause?: unknown } = {}) {
+        // Empty payloads, TTS ones especially, are usually transient.
+        super('empty-response', { ...options, retryable: true });
+        this.name = 'EmptyResponseError';
+    }
+}
+
+export class InvalidResponseError extends ServiceError {
+    constructor(options: { cause?: unknown } = {}) {
+        super('invalid-response', { ...options, retryable: true });
+        this.name = 'InvalidResponseError';
+    }
+}
+
+export class ServerError extends ServiceError {
+    constructor(options: { cause?: unknown } = {}) {
+        super('server', { ...options, retryable: true });
+        this.name = 'ServerError';
+    }
+}
+
+/** Reads "retry in 23s" style hints: Gemini's RetryInfo `retryDelay` or a Retry-After value in seconds. */
+const parseRetryAfterMs = (text: string): number | undefined => {
+    const match = text.match(/retry(?:Delay|[ -]after)?["':\s]*(?:in\s*)?(\d+(?:\.\d+)?)\s*s/i);
+    return match ? Math.ceil(Number(match[1]) * 1000) : undefined;
+};
+
+/** Maps an HTTP status and response body to the matching error class. */
+export function errorFromHttpStatus(status: number, detail: string, retryAfterHeader?: string | null): ServiceError {
+    const cause = new Error(`HTTP ${status}: ${detail}`);
+    if (status === 429) {
+        // Gemini and OpenAI both use 429 for exhausted quota as well as for rate limiting.
+        if (/quota|billing|insufficient_quota/i.test(detail) && !/per minute|per_minute|rate/i.test(detail)) {
+            return new QuotaExceededError({ cause });
+        }
+        const headerSeconds = retryAfterHeader ? Number(retryAfterHeader) : NaN;
+        return new RateLimitError({
+            retryAfterMs: Number.isFinite(headerSeconds) ? headerSeconds * 1000 : parseRetryAfterMs(detail),
+            cause,
+        });
+    }
+    if (status === 401 || status === 403 || /API[_ ]KEY[_ ]INVALID|API key not valid/i.test(detail)) {
+        return new AuthError({ cause });
+    }
+    if (status === 408 || status >= 500) {
+        return new ServerError({ cause });
+    }
+    if (/safety|blocked|content[_ ]policy|content_filter/i.test(detail)) {
+        return new SafetyBlockError({ cause });
+    }
+    return new ServiceError('unknown', { cause });
+}
+
+/**
+ * Turns anything a provider threw into a `ServiceError`. SDK and HTTP
+ * errors are classified by status; `fetch` network failures surface as a
+ * `TypeError`. Abort errors must be filtered out before calling this.
+ */
+export function classifyError(error: unknown): ServiceError {
+    if (error instanceof ServiceError) {
+        return error;
+    }
+    if (error instanceof SyntaxError) {
+        return new InvalidResponseError({ cause: error });
+    }
+    if (error instanceof TypeError && /fetch|network|load failed/i.test(error.message)) {
+        return new NetworkError({ cause: error });
+    }
+    if (error instanceof Error) {
+        const status = (error as { status?: unknown }).status;
+        if (typeof status === 'number') {
+            return errorFromHttpStatus(status, error.message);
+        }
+    }
+    return new ServiceError('unknown', { cause: error });
+}
+
+/**
+ * Classifies a failed step for the UI. Unclassifiable errors keep the
+ * step's own `fallbackMessage`. Abort errors must be rethrown before this.
+ */
+export function toServiceError(error: unknown, step: ServiceStep, fallbackMessage: string): ServiceError {
+    const classified = classifyError(error);
+    const result = classified.kind === 'unknown'
+        ? new ServiceError('unknown', { message: fallbackMessage, cause: classified.cause })
+        : classified;
+    result.step = step;
+    return result;
+}
@@ -0,0 +1,68 @@
+import { FeedbackEntry } from '../types';
+
+const FEEDBACK_KEY = 'feedback';
+
+/** Somewhere besides local storage that submitted feedback is forwarded to. */
+export interface FeedbackSink {
+    /** Shown in logs when delivery fails. */
+    name: string;
+    send: (entry: FeedbackEntry) => Promise<void>;
+}
+
+const sinks = new Set<FeedbackSink>();
+
+/** Adds a sink for every later submission; returns a function that removes it again. */
+export function registerFeedbackSink(sink: FeedbackSink): () => void {
+    sinks.add(sink);
+    return () => {
+        sinks.delete(sink);
+    };
+}
+
+/** Posts each entry as JSON to a collection endpoint, e.g. one running on the team's own machine. */
+export const createEndpointSink = (url: string): FeedbackSink => ({
+    name: url,
+    send: async entry => {
+        const response = await fetch(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(entry),
+        });
+        if (!response.ok) {
+            throw new Error(`HTTP ${response.status}`);
+        }
+    },
+});
+
+export function loadFeedback(): FeedbackEntry[] {
+    try {
+        const stored = localStorage.getItem(FEEDBACK_KEY);
+        return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+        console.error("Failed to read feedback", error);
+        return [];
+    }
+}
+
+export function saveFeedback(entries: FeedbackEntry[]): void {
+    try {
+        localStorage.setItem(FEEDBACK_KEY, JSON.stringify(entries));
+    } catch (error) {
+        console.error("Failed to save feedback", error);
+    }
+}
+
+/**
+ * Stores a rating and forwards it to the registered sinks. The local copy is
+ * what counts: a sink that fails is logged and not retried. Resolves to all
+ * stored entries.
+ */
+export async function recordFeedback(rating: Omit<FeedbackEntry, 'id' | 'createdAt'>, now = Date.now()): Promise<FeedbackEntry[]> {
+    const entry: FeedbackEntry = { id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`, createdAt: now, ...rating };
+    const entries = [...loadFeedback(), entry];
+    saveFeedback(entries);
+    await Promise.all([...sinks].map(sink => sink.send(entry).catch(error => {
+        console.error(`Failed to send feedback to ${sink.name}`, error);
+    })));
+    return entries;
+}
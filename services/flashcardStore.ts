@@ -0,0 +1,49 @@
+import { Flashcard, QuizQuestion } from '../types';
+import { INITIAL_EASE_FACTOR } from '../utils/spacedRepetition';
+import { t } from '../i18n';
+
+const FLASHCARDS_KEY = 'flashcards';
+
+export function loadFlashcards(): Flashcard[] {
+    try {
+        const stored = localStorage.getItem(FLASHCARDS_KEY);
+        return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+        console.error("Failed to read flashcards", error);
+        return [];
+    }
+}
+
+export function saveFlashcards(cards: Flashcard[]): void {
+    try {
+        localStorage.setItem(FLASHCARDS_KEY, JSON.stringify(cards));
+    } catch (error) {
+        console.error("Failed to save flashcards", error);
+    }
+}
+
+const cardFront = (question: QuizQuestion): string =>
+    question.type === 'multiple-choice' ? `${question.question}\n\n${question.options.map(option => `• ${option}`).join('\n')}` : question.question;
+
+const cardBack = (question: QuizQuestion): string => {
+    const answer = question.type === 'true-false' ? t(question.answer === 'true' ? 'quiz.true' : 'quiz.false') : question.answer;
+    return question.explanation ? `${answer}\n\n${question.explanation}` : answer;
+};
+
+/** New cards, due right away, for the quiz questions that are not in the deck yet. */
+export function flashcardsFromQuiz(questions: QuizQuestion[], deck: Flashcard[], now = Date.now()): Flashcard[] {
+    const fronts = new Set(deck.map(card => card.front));
+    return questions
+        .map(question => ({ front: cardFront(question), back: cardBack(question) }))
+        .filter(({ front }) => !fronts.has(front))
+        .map(({ front, back }, index) => ({
+            id: `${now.toString(36)}-${index}`,
+            front,
+            back,
+            createdAt: now,
+            dueAt: now,
+            intervalDays: 0,
+            easeFactor: INITIAL_EASE_FACTOR,
+            repetitions: 0,
+        }));
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AuthError } from './errors';
+import type { SpeechRequest } from './providers';
+import { generateSpeechChunked } from './geminiService';
+
+const pending = new Map<string, { request: SpeechRequest; resolve: (audio: string) => void; reject: (error: unknown) => void }>();
+
+vi.mock('./providers', () => ({
+    getProvider: () => ({
+        name: 'mock',
+        models: { speech: 'test-speech' },
+        generateSpeech: (request: SpeechRequest) => new Promise<string>((resolve, reject) => {
+            pending.set(request.text, { request, resolve, reject });
+        }),
+    }),
+    resetProvider: () => {},
+}));
+
+vi.mock('./resultCache', () => ({
+    getCachedAudio: async () => undefined,
+    putCachedAudio: async () => {},
+}));
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('generateSpeechChunked', () => {
+    it('emits nothing once a later chunk has failed', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const onChunk = vi.fn();
+        const run = generateSpeechChunked(['Zero.', 'One.', 'Two.'], onChunk);
+        await flush();
+
+        pending.get('One.')!.reject(new AuthError());
+        await expect(run).rejects.toBeInstanceOf(AuthError);
+        expect(pending.get('Zero.')!.request.signal?.aborted).toBe(true);
+
+        // A provider that ignores the abort still finishes the older chunk.
+        pending.get('Zero.')!.resolve('AAAA');
+        await flush();
+
+        expect(onChunk).not.toHaveBeenCalled();
+        expect(pending.has('Two.')).toBe(false);
+    });
+});
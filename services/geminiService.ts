@@ -1,108 +1,561 @@
-import { GoogleGenAI, Modality } from "@google/genai";
+import { getProvider, ModelOperation, resetProvider, SpeechRequest, TextRequest, TextTask, VoiceOption } from './providers';
+import { GEMINI_MODEL_SUGGESTIONS, thinkingRange, ThinkingRange } from './providers/geminiProvider';
+import { AppSettings, loadSettings, saveSettings } from './settings';
+import { buildScriptPrompt, builtInTemplate, getPrompts, levelLabel, toneLabel } from './prompts';
+import { Locale, t } from '../i18n';
+import { extractChunkNotes, isLongInput, parseSourceReferences, stripSourceTags, ChunkProgressCallback } from './mapReduce';
+import { ChatContext, ChatMessage, Citation, GlossaryTerm, PromptTemplate, QuizQuestion, QuizQuestionType, ScriptFormat, SelectionAction, SourcedText } from '../types';
+import { locateQuote } from '../utils/textSearch';
+import { locateGlossary } from '../utils/glossary';
+import { ChunkOptions, chunkScript, TextRange } from '../utils/textChunker';
+import { selectionContext, translationLanguage } from '../utils/selection';
+import { chunkDialogue } from '../utils/dialogue';
+import { normalizeSectionReply, parseScript, ScriptSection, StructuredScript } from '../utils/scriptStructure';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { isAbortError } from '../utils/abort';
+import { EmptyResponseError, toServiceError } from './errors';
+import { withRetry } from './retry';
+import { getCachedAudio, getCachedText, putCachedAudio, putCachedText, trimCache } from './resultCache';
+import { hashParts } from '../utils/hash';
+import { decode, encode } from '../utils/audioUtils';
 
-const API_KEY = process.env.API_KEY;
+// The first chunk is kept short so playback can start quickly.
+const TTS_CHUNK_OPTIONS = { maxChars: 1500, firstChunkMaxChars: 300 };
+const TTS_CONCURRENCY = 2;
 
-if (!API_KEY) {
-  // In a real app, you might want to handle this more gracefully,
-  // but for this context, throwing an error is fine.
-  throw new Error("API_KEY environment variable not set");
+export const getActiveProviderLabel = (): string => getProvider().label;
+
+export const getAvailableVoices = (): VoiceOption[] => getProvider().voices;
+
+export const getDefaultVoice = (): string => getProvider().defaultVoice;
+
+export const getActiveModels = (): Record<ModelOperation, string> => getProvider().models;
+
+export const getModelSuggestions = (): string[] => (getProvider().name === 'gemini' ? GEMINI_MODEL_SUGGESTIONS : []);
+
+/** The thinking budgets `model` accepts; null when it can't think or the provider has no thinking budget. */
+export const getThinkingRange = (model: string): ThinkingRange | null => (getProvider().name === 'gemini' ? thinkingRange(model) : null);
+
+/** Stores new settings and rebuilds the provider from them, e.g. after a new API key was entered. */
+export const applySettings = (settings: AppSettings): void => {
+  saveSettings(settings);
+  resetProvider();
+  shortClips.clear();
+  trimCache();
+};
+
+/** Receives the full text generated so far each time a new piece arrives. */
+export type ProgressCallback = (partialText: string) => void;
+
+export interface RequestOptions {
+  /** Aborting rejects the call with an `AbortError`, which is rethrown as is rather than translated. */
+  signal?: AbortSignal;
+}
+
+export interface CachedRequestOptions extends RequestOptions {
+  /** Skips the result cache lookup; the fresh result still replaces the cached one. */
+  forceRegenerate?: boolean;
+}
+
+export interface TextOptions extends RequestOptions {
+  /** Language to write in, whatever the input's language; Persian by default. */
+  language?: Locale;
+}
+
+export interface GenerationOptions extends TextOptions, CachedRequestOptions {
+  onProgress?: ProgressCallback;
+  /** Reported only for inputs long enough to go through the chunked pipeline. */
+  onChunkProgress?: ChunkProgressCallback;
 }
 
-const ai = new GoogleGenAI({ apiKey: API_KEY });
+export interface ScriptOptions extends GenerationOptions {
+  /** A narrated monologue, or a conversation between the two hosts named by `getDialogueSpeakers`. */
+  format?: ScriptFormat;
+  /** A template for the same language and format; the built-in one by default. */
+  template?: PromptTemplate;
+}
+
+/**
+ * Streams a text request to completion. A transient failure restarts the
+ * whole request, so `onProgress` starts over from the first piece.
+ */
+const collectStream = (request: TextRequest, onProgress?: ProgressCallback): Promise<string> => withRetry(async () => {
+  let text = '';
+  for await (const delta of getProvider().streamText(request)) {
+    request.signal?.throwIfAborted();
+    text += delta;
+    onProgress?.(text);
+  }
+  return text;
+}, { signal: request.signal });
+
+/**
+ * The prompt written around the whole input already carries the input,
+ * language, tone, level and template, so it stands in for all of them.
+ */
+const textCacheKey = (task: TextTask, prompt: string): Promise<string> => {
+  const provider = getProvider();
+  return hashParts([task, provider.name, provider.models[task], provider.models.notes, String(loadSettings().thinkingBudget), prompt]);
+};
+
+/**
+ * Runs a text operation directly for inputs that fit in one prompt, or as
+ * map-reduce over per-chunk notes for long ones. `buildPrompt` receives
+ * either the input itself or the tagged notes. Results are cached by
+ * content, so the same request is answered locally unless `forceRegenerate`.
+ */
+const generateSourcedText = async (
+  text: string,
+  task: TextTask,
+  buildPrompt: (material: string, fromNotes: boolean) => string,
+  options: GenerationOptions,
+): Promise<SourcedText> => {
+  const key = await textCacheKey(task, buildPrompt(text, false));
+  if (!options.forceRegenerate) {
+    const cached = await getCachedText(key);
+    if (cached) return { ...cached, fromCache: true };
+  }
+  const result = await generateUncached(text, task, buildPrompt, options);
+  await putCachedText(key, result);
+  return result;
+};
+
+const generateUncached = async (
+  text: string,
+  task: TextTask,
+  buildPrompt: (material: string, fromNotes: boolean) => string,
+  { onProgress, onChunkProgress, signal, language }: GenerationOptions,
+): Promise<SourcedText> => {
+  if (!isLongInput(text)) {
+    const result = await collectStream({ task, prompt: buildPrompt(text, false), signal }, onProgress);
+    return { text: result, chunks: [], references: [] };
+  }
+
+  const { chunks, notes } = await extractChunkNotes(text, { onChunkProgress, signal, language });
+  const raw = await collectStream(
+    { task, prompt: buildPrompt(notes, true), signal },
+    partial => onProgress?.(stripSourceTags(partial)),
+  );
+  return { ...parseSourceReferences(raw, chunks.length), chunks };
+};
+
+/** A script as Markdown text, with the title, sections and takeaways read from it. */
+export interface ScriptResult extends SourcedText {
+  structure: StructuredScript;
+}
 
-export const analyzeTextWithThinking = async (text: string, tone: string, level: string): Promise<string> => {
+/** `tone` and `level` are built-in identifiers or the text of a custom tone or audience profile. */
+export const analyzeTextWithThinking = async (text: string, tone: string, level: string, options: ScriptOptions = {}): Promise<ScriptResult> => {
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-pro",
-      contents: `شما یک مربی و سخنران خبره هستید. وظیفه شما تحلیل متن زیر و تولید یک اسکریپت آموزشی واضح، جذاب و آموزنده است که مفاهیم کلیدی، زمینه و اهمیت آن را توضیح دهد. اسکریپت باید طوری نوشته شود که انگار قرار است با صدای بلند در یک ارائه یا روایت مستند خوانده شود.
-      
-      توضیحات خود را با سطح درک "${level}" و لحن "${tone}" تطبیق دهید. ایده‌های پیچیده را به زبان ساده و مناسب برای سطح مخاطب تقسیم کنید.
-
-      متن برای تحلیل:
-      ---
-      ${text}
-      ---
-      
-      اکنون اسکریپت گفتاری را تولید کنید.`,
-      config: {
-        thinkingConfig: { thinkingBudget: 32768 },
-      },
-    });
-    return response.text;
+    const format = options.format ?? 'monologue';
+    const template = options.template ?? builtInTemplate(options.language ?? 'fa', format);
+    const result = await generateSourcedText(text, format === 'dialogue' ? 'dialogue' : 'script', (material, fromNotes) => buildScriptPrompt(template, { material, fromNotes, tone, level }), options);
+    return { ...result, structure: parseScript(result.text) };
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.error("Error analyzing text:", error);
-    throw new Error("تحلیل متن با خطا مواجه شد. ممکن است مدل خطایی برگردانده باشد.");
+    throw toServiceError(error, 'script', t('errors.script'));
   }
 };
 
-export const summarizeText = async (text: string): Promise<string> => {
+export const summarizeText = async (text: string, options: GenerationOptions = {}): Promise<SourcedText> => {
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: `متن زیر را با تمرکز بر نکات کلیدی و ایده‌های اصلی خلاصه کنید. خلاصه باید مختصر، واضح و قابل فهم باشد.
-
-      متن برای خلاصه:
-      ---
-      ${text}
-      ---
-      
-      خلاصه را ارائه دهید.`,
-    });
-    return response.text;
+    return await generateSourcedText(text, 'summary', getPrompts(options.language ?? 'fa').summary, options);
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.error("Error summarizing text:", error);
-    throw new Error("خلاصه‌سازی متن با خطا مواجه شد. ممکن است مدل خطایی برگردانده باشد.");
-  }
-};
-
-export const answerQuestion = async (contextText: string, question: string): Promise<string> => {
-    try {
-      const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash",
-        contents: `بر اساس متن زیر، به سوال کاربر پاسخ دهید. اگر پاسخ در متن موجود نیست، اعلام کنید که نمی‌توانید پاسخ را در متن ارائه شده پیدا کنید.
-
-        متن زمینه:
-        ---
-        ${contextText}
-        ---
-        
-        سوال:
-        ---
-        ${question}
-        ---
-        
-        پاسخ:`,
-      });
-      return response.text;
-    } catch (error) {
-      console.error("Error answering question:", error);
-      throw new Error("پاسخ به سوال با خطا مواجه شد. ممکن است مدل خطایی برگردانده باشد.");
+    throw toServiceError(error, 'summary', t('errors.summary'));
+  }
+};
+
+// Unparseable JSON is retried along with transient failures, as a fresh sample usually parses.
+const generateJson = <T>(task: TextTask, prompt: string, responseSchema: object, signal?: AbortSignal): Promise<T> => withRetry(async () => {
+  const raw = await getProvider().generateText({ task, prompt, responseSchema, signal });
+  // Some OpenAI-compatible servers wrap JSON in a Markdown fence despite the schema.
+  return JSON.parse(raw.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, '')) as T;
+}, { signal });
+
+/** Keeps the quotes that can be found in the source, as sorted, de-duplicated ranges. */
+const locateCitations = (source: string, quotes: string[]): Citation[] => {
+  const citations: Citation[] = [];
+  for (const quote of quotes) {
+    const range = locateQuote(source, quote);
+    if (range && !citations.some(c => c.start === range.start && c.end === range.end)) {
+      citations.push({ quote: source.slice(range.start, range.end), ...range });
     }
+  }
+  return citations.sort((a, b) => a.start - b.start);
 };
 
+const QUIZ_QUESTION_TYPES: QuizQuestionType[] = ['multiple-choice', 'true-false', 'short-answer'];
+const DEFAULT_QUIZ_LENGTH = 8;
 
-export const generateSpeech = async (text: string): Promise<string> => {
+const QUIZ_SCHEMA = {
+  type: 'object',
+  properties: {
+    questions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          type: { type: 'string', enum: QUIZ_QUESTION_TYPES },
+          question: { type: 'string' },
+          options: { type: 'array', items: { type: 'string' }, description: 'Four choices for multiple-choice questions; empty otherwise.' },
+          answer: { type: 'string', description: 'One of the options, "true" or "false", or a short answer.' },
+          explanation: { type: 'string' },
+        },
+        required: ['type', 'question', 'options', 'answer', 'explanation'],
+      },
+    },
+  },
+  required: ['questions'],
+};
+
+type RawQuizQuestion = Partial<Record<'type' | 'question' | 'answer' | 'explanation', string>> & { options?: string[] };
+
+/** Checks a generated question against its type, or returns null when it can't be asked as given. */
+const toQuizQuestion = (raw: RawQuizQuestion, index: number): QuizQuestion | null => {
+  const type = QUIZ_QUESTION_TYPES.find(candidate => candidate === raw.type);
+  const question = raw.question?.trim();
+  let answer = raw.answer?.trim() ?? '';
+  if (!type || !question || !answer) return null;
+  let options: string[] = [];
+  if (type === 'multiple-choice') {
+    options = [...new Set((raw.options ?? []).map(option => option.trim()).filter(Boolean))];
+    if (options.length < 2 || !options.includes(answer)) return null;
+  } else if (type === 'true-false') {
+    answer = answer.toLowerCase();
+    if (answer !== 'true' && answer !== 'false') return null;
+  }
+  return { id: `q${index + 1}`, type, question, options, answer, explanation: raw.explanation?.trim() ?? '' };
+};
+
+export interface QuizOptions extends TextOptions {
+  questionCount?: number;
+  /** Reported only for inputs long enough to go through the chunked pipeline. */
+  onChunkProgress?: ChunkProgressCallback;
+}
+
+/** Self-test questions about the text; long inputs are quizzed from their extracted notes. */
+export const generateQuiz = async (text: string, { questionCount = DEFAULT_QUIZ_LENGTH, language = 'fa', onChunkProgress, signal }: QuizOptions = {}): Promise<QuizQuestion[]> => {
   try {
-    const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash-preview-tts",
-        contents: [{ parts: [{ text: text }] }],
-        config: {
-            responseModalities: [Modality.AUDIO],
-            speechConfig: {
-                voiceConfig: {
-                  prebuiltVoiceConfig: { voiceName: 'Kore' }, // A pleasant, clear voice
-                },
-            },
+    const fromNotes = isLongInput(text);
+    const material = fromNotes ? stripSourceTags((await extractChunkNotes(text, { onChunkProgress, signal, language })).notes) : text;
+    const reply = await generateJson<{ questions?: RawQuizQuestion[] }>(
+      'quiz', getPrompts(language).quiz(material, fromNotes, questionCount), QUIZ_SCHEMA, signal);
+    const questions = (reply.questions ?? [])
+      .map(toQuizQuestion)
+      .filter((question): question is QuizQuestion => question !== null);
+    if (questions.length === 0) {
+      throw new EmptyResponseError();
+    }
+    return questions;
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error("Error generating quiz:", error);
+    throw toServiceError(error, 'quiz', t('errors.quiz'));
+  }
+};
+
+const GLOSSARY_SCHEMA = {
+  type: 'object',
+  properties: {
+    terms: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          term: { type: 'string', description: 'Copied verbatim from the text.' },
+          definition: { type: 'string' },
         },
+        required: ['term', 'definition'],
+      },
+    },
+  },
+  required: ['terms'],
+};
+
+export interface GlossaryOptions extends TextOptions {
+  /** Reported only for inputs long enough to go through the chunked pipeline. */
+  onChunkProgress?: ChunkProgressCallback;
+}
+
+/**
+ * Key terms of the text with short definitions. The model only names the
+ * terms; where they occur is looked up in the text itself, and terms that
+ * can't be found there are dropped.
+ */
+export const extractGlossary = async (text: string, { language = 'fa', onChunkProgress, signal }: GlossaryOptions = {}): Promise<GlossaryTerm[]> => {
+  try {
+    const fromNotes = isLongInput(text);
+    const material = fromNotes ? stripSourceTags((await extractChunkNotes(text, { onChunkProgress, signal, language })).notes) : text;
+    const reply = await generateJson<{ terms?: { term?: string; definition?: string }[] }>(
+      'glossary', getPrompts(language).glossary(material, fromNotes), GLOSSARY_SCHEMA, signal);
+    const entries = (reply.terms ?? [])
+      .map(raw => ({ term: raw.term?.trim() ?? '', definition: raw.definition?.trim() ?? '' }))
+      .filter(entry => entry.term && entry.definition);
+    const glossary = locateGlossary(text, entries);
+    if (glossary.length === 0) {
+      throw new EmptyResponseError();
+    }
+    return glossary;
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error("Error extracting glossary:", error);
+    throw toServiceError(error, 'glossary', t('errors.glossary'));
+  }
+};
+
+export interface SelectionNote {
+  text: string;
+  /** The explanation language, except for translations of text already written in it. */
+  language: Locale;
+}
+
+/**
+ * Explains, simplifies, gives an example for or translates one span of
+ * `document`, with the text around the span sent along as context.
+ */
+export const explainSelection = async (
+  document: string,
+  range: TextRange,
+  action: SelectionAction,
+  { language = 'fa', signal }: TextOptions = {},
+): Promise<SelectionNote> => {
+  try {
+    const { passage, before, after } = selectionContext(document, range);
+    const noteLanguage = action === 'translate' ? translationLanguage(passage, language) : language;
+    const prompt = getPrompts(noteLanguage).selection(action, passage, before, after);
+    const text = (await collectStream({ task: 'selection', prompt, signal })).trim();
+    if (!text) {
+      throw new EmptyResponseError();
+    }
+    return { text, language: noteLanguage };
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error("Error explaining selection:", error);
+    throw toServiceError(error, 'selection', t('errors.selection'));
+  }
+};
+
+export interface SectionOptions extends TextOptions {
+  format?: ScriptFormat;
+}
+
+/**
+ * Rewrites one section of `script` in the tone, level and format it was
+ * written in and returns its Markdown, heading included. The input is sent
+ * along unless it is long enough to have needed the chunked pipeline. Not
+ * cached: asking again is asking for another version.
+ */
+export const regenerateScriptSection = async (
+  input: string,
+  script: string,
+  section: ScriptSection,
+  tone: string,
+  level: string,
+  { language = 'fa', format = 'monologue', signal }: SectionOptions = {},
+): Promise<string> => {
+  try {
+    const prompt = getPrompts(language).section({
+      script,
+      heading: section.heading,
+      material: isLongInput(input) ? null : input,
+      tone: toneLabel(tone, language),
+      level: levelLabel(level, language),
+      format,
     });
+    const text = normalizeSectionReply(stripSourceTags(await collectStream({ task: 'section', prompt, signal })), section.heading);
+    if (!text) {
+      throw new EmptyResponseError();
+    }
+    return text;
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error("Error regenerating section:", error);
+    throw toServiceError(error, 'section', t('errors.section'));
+  }
+};
+
+const CHAT_CITATIONS_SCHEMA = {
+  type: 'object',
+  properties: {
+    found: { type: 'boolean', description: 'Whether the answer rests on the original text.' },
+    quotes: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Verbatim passages copied from the original text that support the answer.',
+    },
+  },
+  required: ['found', 'quotes'],
+};
+
+/**
+ * The passages of the source a finished chat reply rests on, asked for in a
+ * separate structured request so the streamed reply can be any Markdown.
+ * When that request fails, the reply is kept, just without citations.
+ */
+const groundChatReply = async (sourceText: string, question: string, answer: string, { signal, language = 'fa' }: TextOptions): Promise<Pick<ChatMessage, 'citations' | 'foundInText'>> => {
+  try {
+    const reply = await generateJson<{ found: boolean; quotes: string[] }>(
+      'answer', getPrompts(language).chatCitations(sourceText, question, answer), CHAT_CITATIONS_SCHEMA, signal);
+    const citations = locateCitations(sourceText, reply.quotes ?? []);
+    return { citations, foundInText: Boolean(reply.found) && citations.length > 0 };
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error("Error locating chat citations:", error);
+    return {};
+  }
+};
+
+/**
+ * Sends the next user turn of a Q&A conversation with all earlier turns and
+ * the generated result as context, streaming the visible reply through
+ * `onProgress`. Resolves to the complete model turn with its citations.
+ */
+export const sendChatMessage = async (context: ChatContext, history: ChatMessage[], message: string, options: GenerationOptions = {}): Promise<ChatMessage> => {
+  try {
+    const raw = await collectStream({
+      task: 'chat',
+      systemInstruction: getPrompts(options.language ?? 'fa').chatInstruction(context.sourceText, context.result),
+      history: history.map(turn => ({ role: turn.role, text: turn.text })),
+      prompt: message,
+      signal: options.signal,
+    }, partial => options.onProgress?.(partial.trim()));
 
-    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    if (!base64Audio) {
-        throw new Error("دیتای صوتی از API دریافت نشد.");
+    const answer = raw.trim();
+    if (!answer) {
+      throw new EmptyResponseError();
     }
-    return base64Audio;
+    return { role: 'model', text: answer, ...await groundChatReply(context.sourceText, message, answer, options) };
   } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error("Error in chat:", error);
+    throw toServiceError(error, 'chat', t('errors.answer'));
+  }
+};
+
+/** Which voice, or for dialogue scripts which voice per speaker, to synthesize with. */
+export type VoiceSelection = Pick<SpeechRequest, 'voice' | 'speakers'>;
+
+/** Names of the two dialogue hosts in scripts written in `language`. */
+export const getDialogueSpeakers = (language: Locale): string[] => getPrompts(language).speakers;
+
+/** Pairs each dialogue host with a voice, in `getDialogueSpeakers` order. */
+export const dialogueVoiceSelection = (voices: string[], language: Locale): VoiceSelection => ({
+  speakers: getDialogueSpeakers(language).map((speaker, index) => ({ speaker, voice: voices[index] ?? getDefaultVoice() })),
+});
+
+export const generateSpeech = async (text: string, voice: VoiceSelection = {}, { signal }: RequestOptions = {}): Promise<string> => {
+  try {
+    return await withRetry(() => getProvider().generateSpeech({ text, ...voice, signal }), { signal });
+  } catch (error) {
+      if (isAbortError(error)) throw error;
       console.error("Error generating speech:", error);
-      throw new Error("تولید صدا با خطا مواجه شد. ممکن است مدل خطایی برگردانده باشد.");
+      throw toServiceError(error, 'speech', t('errors.speech'));
   }
-};
\ No newline at end of file
+};
+
+/** Receives each synthesized chunk of a script, strictly in script order. */
+export type SpeechChunkCallback = (base64Audio: string, chunkText: string, index: number, total: number, fromCache: boolean) => void | Promise<void>;
+
+interface SpeechChunk {
+  audio: string;
+  fromCache: boolean;
+}
+
+/** A chunk's audio from the result cache, or synthesized and then cached as raw PCM. */
+const speakChunk = async (text: string, voice: VoiceSelection, { signal, forceRegenerate }: CachedRequestOptions): Promise<SpeechChunk> => {
+  const provider = getProvider();
+  const key = await hashParts(['speech', provider.name, provider.models.speech, JSON.stringify(voice), text]);
+  if (!forceRegenerate) {
+    const pcm = await getCachedAudio(key);
+    if (pcm) return { audio: encode(pcm), fromCache: true };
+  }
+  const audio = await generateSpeech(text, voice, { signal });
+  await putCachedAudio(key, decode(audio));
+  return { audio, fromCache: false };
+};
+
+/**
+ * Splits a long script into sentence/paragraph chunks and synthesizes them
+ * with bounded concurrency, so the first chunk can be played while later
+ * ones are still being generated. Resolves to all chunks in order. When the
+ * script comes in parts, e.g. sections, no chunk spans two of them.
+ */
+export const generateSpeechChunked = async (
+  text: string | string[],
+  onChunk?: SpeechChunkCallback,
+  voice: VoiceSelection = {},
+  { signal, forceRegenerate }: CachedRequestOptions = {},
+): Promise<string[]> => {
+  // Dialogue chunks break only between turns so every line keeps its speaker label.
+  const chunkPart = (part: string, options: ChunkOptions) => (voice.speakers
+    ? chunkDialogue(part, voice.speakers.map(s => s.speaker), options)
+    : chunkScript(part, options));
+  const chunks = (Array.isArray(text) ? text : [text])
+    .flatMap((part, index) => chunkPart(part, index === 0 ? TTS_CHUNK_OPTIONS : { maxChars: TTS_CHUNK_OPTIONS.maxChars }));
+  const ready: (SpeechChunk | undefined)[] = new Array(chunks.length);
+  let nextToEmit = 0;
+  let emitting: Promise<void> = Promise.resolve();
+  // Aborted with the caller's signal, or by the first failed chunk, so chunks
+  // still in flight are cancelled and nothing is emitted after the failure.
+  const controller = new AbortController();
+  const forwardAbort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) forwardAbort();
+  signal?.addEventListener('abort', forwardAbort, { once: true });
+
+  try {
+    const results = await mapWithConcurrency(chunks, TTS_CONCURRENCY, async (chunk, index) => {
+      const speech = await speakChunk(chunk, voice, { signal: controller.signal, forceRegenerate });
+      ready[index] = speech;
+      // Chunks can finish out of order; release every chunk whose predecessors are done.
+      while (ready[nextToEmit] !== undefined) {
+        const emitIndex = nextToEmit++;
+        const { audio, fromCache } = ready[emitIndex] as SpeechChunk;
+        emitting = emitting.then(() => {
+          controller.signal.throwIfAborted();
+          return onChunk?.(audio, chunks[emitIndex], emitIndex, chunks.length, fromCache);
+        });
+        // A failed emit is rethrown where the chain is awaited, not reported as unhandled in between.
+        emitting.catch(() => {});
+      }
+      return speech.audio;
+    });
+    await emitting;
+    return results;
+  } catch (error) {
+    controller.abort();
+    // An emit already running may still be finishing; let it settle first.
+    await emitting.catch(() => {});
+    throw error;
+  } finally {
+    signal?.removeEventListener('abort', forwardAbort);
+  }
+};
+
+const shortClips = new Map<string, Promise<string>>();
+
+/** Synthesizes a short clip once per key and then reuses it. */
+const speakOnce = (key: string, text: string, voice: string | undefined): Promise<string> => {
+  let clip = shortClips.get(key);
+  if (!clip) {
+    clip = generateSpeech(text, { voice });
+    // Don't cache failures, so a later click can try again.
+    clip.catch(() => shortClips.delete(key));
+    shortClips.set(key, clip);
+  }
+  return clip;
+};
+
+/** A short sample sentence in the given voice and language, synthesized once and then reused. */
+export const previewVoice = (voice: string, language: Locale = 'fa'): Promise<string> =>
+  speakOnce(`preview:${language}:${voice}`, getPrompts(language).voicePreview, voice);
+
+/** The spoken form of a glossary term, synthesized once per voice and then reused. */
+export const pronounceTerm = (term: string, voice?: string): Promise<string> =>
+  speakOnce(`term:${voice ?? ''}:${term}`, term, voice);
+
+/** An annotation read aloud, synthesized once per voice and then reused. */
+export const speakAnnotation = (text: string, voice?: string): Promise<string> =>
+  speakOnce(`note:${voice ?? ''}:${text}`, text, voice);
@@ -0,0 +1,43 @@
+/**
+ * Returns an opener for a database that is opened on first use and shared
+ * after that. `upgrade` creates the object stores.
+ */
+export const createDatabase = (name: string, version: number, upgrade: (db: IDBDatabase) => void): (() => Promise<IDBDatabase>) => {
+    let dbPromise: Promise<IDBDatabase> | null = null;
+    return () => {
+        if (!dbPromise) {
+            dbPromise = new Promise((resolve, reject) => {
+                const request = indexedDB.open(name, version);
+                request.onupgradeneeded = () => upgrade(request.result);
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+        }
+        return dbPromise;
+    };
+};
+
+export const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+/** Runs `run` in a transaction and resolves once the transaction has committed. */
+export const runTransaction = async <T>(
+    db: Promise<IDBDatabase>,
+    storeNames: string | string[],
+    mode: IDBTransactionMode,
+    run: (tx: IDBTransaction) => Promise<T>,
+): Promise<T> => {
+    const tx = (await db).transaction(storeNames, mode);
+    const done = new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+    // When `run` throws, its error is the one reported and `done` is never awaited; don't let it reject unhandled.
+    done.catch(() => {});
+    const result = await run(tx);
+    await done;
+    return result;
+};
@@ -0,0 +1,99 @@
+import { getProvider } from './providers';
+import { ChunkProgress, ChunkStatus, SourceChunk, SourceReference } from '../types';
+import { estimateTokens, splitIntoTokenRanges } from '../utils/textChunker';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { isAbortError } from '../utils/abort';
+import { withRetry } from './retry';
+import { getPrompts } from './prompts';
+import type { Locale } from '../i18n';
+
+// Inputs above this are summarized chunk by chunk before the final prompt.
+const LONG_INPUT_TOKENS = 30000;
+const MAP_CHUNK_TOKENS = 8000;
+const MAP_CONCURRENCY = 2;
+
+export type ChunkProgressCallback = (progress: ChunkProgress) => void;
+
+export const isLongInput = (text: string): boolean => estimateTokens(text) > LONG_INPUT_TOKENS;
+
+// Matches the source tags of every prompt language, e.g. "[بخش 2]" or "[Part 1, 3]".
+const SOURCE_TAG_PATTERN = /\s*\[\s*(?:بخش|Part)([^\]\n]*)\]/g;
+
+const toAsciiDigits = (value: string) => value
+    .replace(/[۰-۹]/g, d => String(d.charCodeAt(0) - 0x06F0))
+    .replace(/[٠-٩]/g, d => String(d.charCodeAt(0) - 0x0660));
+
+/** Removes source tags, e.g. from a partially streamed result before it is shown. */
+export const stripSourceTags = (text: string): string => text.replace(SOURCE_TAG_PATTERN, '');
+
+/** Splits tagged model output into clean text plus the chunks each paragraph cites. */
+export const parseSourceReferences = (raw: string, chunkCount: number): { text: string; references: SourceReference[] } => {
+    const references: SourceReference[] = [];
+    const lines = raw.split('\n').map(line => {
+        const chunkIndexes = new Set<number>();
+        for (const match of line.matchAll(SOURCE_TAG_PATTERN)) {
+            for (const number of toAsciiDigits(match[1]).match(/\d+/g) ?? []) {
+                const index = Number(number) - 1;
+                if (index >= 0 && index < chunkCount) chunkIndexes.add(index);
+            }
+        }
+        const paragraph = stripSourceTags(line).trimEnd();
+        if (chunkIndexes.size > 0 && paragraph.trim()) {
+            references.push({ paragraph: paragraph.trim(), chunkIndexes: [...chunkIndexes].sort((a, b) => a - b) });
+        }
+        return paragraph;
+    });
+    return { text: lines.join('\n').trim(), references };
+};
+
+/**
+ * Map step of the long-input pipeline: splits the text into token-bounded
+ * chunks and extracts tagged notes from each with bounded concurrency. The
+ * joined notes are condensed further until they fit in a single prompt.
+ */
+export const extractChunkNotes = async (
+    text: string,
+    { onChunkProgress, signal, language = 'fa' }: { onChunkProgress?: ChunkProgressCallback; signal?: AbortSignal; language?: Locale } = {},
+): Promise<{ chunks: SourceChunk[]; notes: string }> => {
+    const prompts = getPrompts(language);
+    const ranges = splitIntoTokenRanges(text, MAP_CHUNK_TOKENS);
+    const chunks: SourceChunk[] = ranges.map((range, index) => ({ index, ...range }));
+    const statuses: ChunkStatus[] = chunks.map(() => 'pending');
+    const report = (stage: ChunkProgress['stage']) => onChunkProgress?.({ stage, statuses: [...statuses] });
+    report('map');
+
+    const chunkNotes = await mapWithConcurrency(chunks, MAP_CONCURRENCY, async chunk => {
+        statuses[chunk.index] = 'running';
+        report('map');
+        let notes: string;
+        try {
+            notes = await withRetry(() => getProvider().generateText({
+                task: 'notes',
+                prompt: prompts.notes(text.slice(chunk.start, chunk.end), chunk.index, chunks.length),
+                signal,
+            }), { signal });
+        } catch (error) {
+            // A cancelled chunk didn't fail; the whole run is dropped anyway.
+            if (!isAbortError(error)) {
+                statuses[chunk.index] = 'failed';
+                report('map');
+            }
+            throw error;
+        }
+        statuses[chunk.index] = 'done';
+        report('map');
+        return `${prompts.sourceTag(chunk.index)}\n${notes.trim()}`;
+    });
+
+    report('combine');
+    let notes = chunkNotes.join('\n\n');
+    while (isLongInput(notes)) {
+        const condensed = await mapWithConcurrency(splitIntoTokenRanges(notes, MAP_CHUNK_TOKENS), MAP_CONCURRENCY, range =>
+            withRetry(() => getProvider().generateText({ task: 'notes', prompt: prompts.condense(notes.slice(range.start, range.end)), signal }), { signal }),
+        );
+        const next = condensed.join('\n\n');
+        if (next.length >= notes.length) break;
+        notes = next;
+    }
+    return { chunks, notes };
+};
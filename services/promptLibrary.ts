@@ -0,0 +1,94 @@
+import { PromptLibrary, PromptTemplate, ScriptFormat } from '../types';
+import { BUILT_IN_TEMPLATES, builtInTemplate } from './prompts';
+import { isLevelId, isToneId } from './settings';
+import { LOCALES, Locale, t } from '../i18n';
+
+const LIBRARY_KEY = 'promptLibrary';
+const EXPORT_VERSION = 1;
+
+export const EMPTY_LIBRARY: PromptLibrary = { templates: [], tones: [], audiences: [] };
+
+export function loadPromptLibrary(): PromptLibrary {
+    try {
+        const stored = localStorage.getItem(LIBRARY_KEY);
+        return stored ? { ...EMPTY_LIBRARY, ...JSON.parse(stored) } : EMPTY_LIBRARY;
+    } catch (error) {
+        console.error("Failed to read prompt templates", error);
+        return EMPTY_LIBRARY;
+    }
+}
+
+export function savePromptLibrary(library: PromptLibrary): void {
+    try {
+        localStorage.setItem(LIBRARY_KEY, JSON.stringify(library));
+    } catch (error) {
+        console.error("Failed to save prompt templates", error);
+    }
+}
+
+export const createTemplateId = (now = Date.now()): string => `template-${now.toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+/** The built-in template for the language and format, followed by the user's. */
+export const templatesFor = (library: PromptLibrary, language: Locale, format: ScriptFormat): PromptTemplate[] => [
+    builtInTemplate(language, format),
+    ...library.templates.filter(template => template.language === language && template.format === format),
+];
+
+/** The chosen template if it suits the language and format, or else the built-in one. */
+export const resolveTemplate = (library: PromptLibrary, id: string | undefined, language: Locale, format: ScriptFormat): PromptTemplate =>
+    templatesFor(library, language, format).find(template => template.id === id) ?? builtInTemplate(language, format);
+
+/** Whether a custom tone or audience can be added: not empty, not a built-in identifier and not already there. */
+export const isNewStyle = (value: string, existing: string[]): boolean =>
+    value.trim() !== '' && !isToneId(value.trim()) && !isLevelId(value.trim()) && !existing.includes(value.trim());
+
+export const libraryToJson = (library: PromptLibrary): string =>
+    JSON.stringify({ version: EXPORT_VERSION, ...library }, null, 2);
+
+const isTemplate = (value: unknown): value is PromptTemplate => {
+    const template = value as Partial<PromptTemplate> | null;
+    return typeof template?.id === 'string'
+        && typeof template.name === 'string'
+        && typeof template.body === 'string'
+        && LOCALES.some(language => language === template.language)
+        && (template.format === 'monologue' || template.format === 'dialogue');
+};
+
+const strings = (value: unknown): string[] =>
+    Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '').map(item => item.trim()) : [];
+
+/**
+ * Parses an exported library. Entries that aren't valid templates are
+ * skipped, and copies of built-in templates are dropped since those always
+ * come from the app itself.
+ */
+export function parseLibraryJson(json: string): PromptLibrary {
+    let data: Record<string, unknown>;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new Error(t('templates.invalidFile'));
+    }
+    if (!data || typeof data !== 'object' || !Array.isArray(data.templates)) {
+        throw new Error(t('templates.invalidFile'));
+    }
+    const builtInIds = new Set(BUILT_IN_TEMPLATES.map(template => template.id));
+    return {
+        templates: data.templates
+            .filter(isTemplate)
+            .filter(template => !template.builtIn && !builtInIds.has(template.id))
+            .map(({ id, name, language, format, body }) => ({ id, name, language, format, body })),
+        tones: strings(data.tones),
+        audiences: strings(data.audiences),
+    };
+}
+
+/** Adds an imported library to the current one; imported templates replace those with the same id. */
+export function mergeLibraries(current: PromptLibrary, imported: PromptLibrary): PromptLibrary {
+    const importedIds = new Set(imported.templates.map(template => template.id));
+    return {
+        templates: [...current.templates.filter(template => !importedIds.has(template.id)), ...imported.templates],
+        tones: [...new Set([...current.tones, ...imported.tones])].filter(tone => !isToneId(tone)),
+        audiences: [...new Set([...current.audiences, ...imported.audiences])].filter(audience => !isLevelId(audience)),
+    };
+}
@@ -0,0 +1,427 @@
+import { LOCALES, Locale } from '../i18n';
+import { LevelId, PromptTemplate, ResultKind, ScriptFormat, SelectionAction, ToneId } from '../types';
+import { isLevelId, isToneId } from './settings';
+import { TAKEAWAYS_MARKER } from '../utils/scriptStructure';
+
+export interface ScriptPromptParams {
+    material: string;
+    /** Whether `material` is tagged notes from the long-input pipeline rather than the input itself. */
+    fromNotes: boolean;
+    /** A `ToneId`, or the text of a custom tone. */
+    tone: string;
+    /** A `LevelId`, or the text of a custom audience profile. */
+    level: string;
+}
+
+export interface SectionPromptParams {
+    /** The whole script as it is now. */
+    script: string;
+    /** Heading of the section to rewrite; empty for the untitled opening. */
+    heading: string;
+    /** The input the script was written from, or null when it is too long to send again. */
+    material: string | null;
+    tone: string;
+    level: string;
+    format: ScriptFormat;
+}
+
+/**
+ * Every prompt the app sends, written in the language the model should answer
+ * in. Prompts in the output language steer the model far more reliably than
+ * a foreign-language prompt that merely asks for another language.
+ */
+export interface PromptSet {
+    tones: Record<ToneId, string>;
+    levels: Record<LevelId, string>;
+    /** Names of the two dialogue hosts; they double as the labels TTS assigns voices by. */
+    speakers: string[];
+    resultTitles: Record<ResultKind, string>;
+    /** Tag marking which input chunk a note came from; `parseSourceReferences` reads these back. */
+    sourceTag: (index: number) => string;
+    sourceTagInstruction: string;
+    /** Bodies of the built-in script templates; see `renderTemplate` for their placeholders. */
+    scriptTemplates: Record<ScriptFormat, string>;
+    /** Tells the model that the material is tagged notes; fills `{notes}` for long inputs. */
+    notesInstruction: string;
+    /** The title, sections and takeaways layout `parseScript` reads; appended to every script prompt. */
+    scriptLayout: string;
+    /** Rewrites one section of a script, in the script's layout, tone and format. */
+    section: (params: SectionPromptParams) => string;
+    summary: (material: string, fromNotes: boolean) => string;
+    quiz: (material: string, fromNotes: boolean, questionCount: number) => string;
+    glossary: (material: string, fromNotes: boolean) => string;
+    /** Works on `passage` only; `before` and `after` are the document around it, for context. Translations go into this set's language. */
+    selection: (action: SelectionAction, passage: string, before: string, after: string) => string;
+    chatInstruction: (sourceText: string, result?: { kind: ResultKind; text: string }) => string;
+    /** Asks, once a chat reply is complete, for the passages of the source it rests on; answered with a schema. */
+    chatCitations: (sourceText: string, question: string, answer: string) => string;
+    notes: (chunk: string, index: number, total: number) => string;
+    condense: (notes: string) => string;
+    voicePreview: string;
+}
+
+const faSourceTag = (index: number) => `[بخش ${index + 1}]`;
+const faSourceTagInstruction = `یادداشت‌ها با برچسب‌هایی مانند ${faSourceTag(0)} مشخص شده‌اند که نشان می‌دهد هر نکته از کدام بخش متن اصلی آمده است. در انتهای هر بند یا هر مورد فهرست، برچسب بخش‌هایی را که آن نکته از آن‌ها گرفته شده دقیقاً به همین شکل بیاورید، مثلاً ${faSourceTag(1)} یا [بخش 1، 3].`;
+const FA_OUTPUT_LANGUAGE = 'صرف‌نظر از زبان متن ورودی، پاسخ را به زبان فارسی بنویسید.';
+
+const faNotesInstruction = `متن اصلی طولانی بوده و به جای آن یادداشت‌های استخراج‌شده از بخش‌های آن در اختیار شماست. ${faSourceTagInstruction}`;
+
+const faLongInputNote = (fromNotes: boolean) => fromNotes ? `\n      ${faNotesInstruction}\n` : '';
+
+const FA_SPEAKERS = ['سارا', 'آرش'];
+
+const FA_SELECTION_TASKS: Record<SelectionAction, string> = {
+    explain: 'بخش انتخاب‌شده از متن زیر را برای خواننده توضیح دهید: منظور آن چیست و چه نقشی در متن دارد. پاسخ را در یک یا دو بند کوتاه نگه دارید.',
+    simplify: 'بخش انتخاب‌شده از متن زیر را با واژه‌ها و جمله‌های ساده‌تر بازنویسی کنید، بی‌آنکه معنای آن تغییر کند. فقط بازنویسی را بنویسید.',
+    example: 'برای مطلب بخش انتخاب‌شده از متن زیر یک مثال ملموس و روزمره بیاورید که فهم آن را آسان کند. پاسخ را کوتاه نگه دارید.',
+    translate: 'بخش انتخاب‌شده از متن زیر را به فارسی روان و دقیق ترجمه کنید. فقط ترجمه را بنویسید.',
+};
+
+// Template bodies are shown in the template editor, so they are not indented like the other prompts.
+const FA_SCRIPT_TEMPLATE = `شما یک مربی و سخنران خبره هستید. وظیفه شما تحلیل متن زیر و تولید یک اسکریپت آموزشی واضح، جذاب و آموزنده است که مفاهیم کلیدی، زمینه و اهمیت آن را توضیح دهد. اسکریپت باید طوری نوشته شود که انگار قرار است با صدای بلند در یک ارائه یا روایت مستند خوانده شود.
+
+توضیحات خود را با سطح درک "{level}" و لحن "{tone}" تطبیق دهید. ایده‌های پیچیده را به زبان ساده و مناسب برای سطح مخاطب تقسیم کنید. ${FA_OUTPUT_LANGUAGE}
+{notes}
+متن برای تحلیل:
+---
+{text}
+---
+
+اکنون اسکریپت گفتاری را تولید کنید.`;
+
+const FA_DIALOGUE_TEMPLATE = `شما نویسنده یک پادکست آموزشی هستید. وظیفه شما تحلیل متن زیر و نوشتن گفتگویی طبیعی و جذاب میان دو مجری به نام‌های ${FA_SPEAKERS[0]} و ${FA_SPEAKERS[1]} است که مفاهیم کلیدی، زمینه و اهمیت آن را توضیح دهد. ${FA_SPEAKERS[0]} موضوع را توضیح می‌دهد و ${FA_SPEAKERS[1]} سوال می‌پرسد، مثال می‌زند و نکات را به زبان خودش جمع‌بندی می‌کند تا شنونده همراه گفتگو یاد بگیرد.
+
+توضیحات را با سطح درک "{level}" و لحن "{tone}" تطبیق دهید. ${FA_OUTPUT_LANGUAGE}
+
+قالب: هر نوبت گفتگو در یک خط جداگانه و با نام گوینده و دونقطه شروع شود، دقیقاً مانند «${FA_SPEAKERS[0]}: ...» یا «${FA_SPEAKERS[1]}: ...». جز عنوان و سرفصل‌هایی که قالب پاسخ می‌خواهد، توضیح صحنه یا متن دیگری خارج از نوبت‌ها ننویسید.
+{notes}
+متن برای تحلیل:
+---
+{text}
+---
+
+اکنون گفتگو را بنویسید.`;
+
+const fa: PromptSet = {
+    tones: { friendly: 'دوستانه', formal: 'رسمی', enthusiastic: 'مشتاقانه', neutral: 'خنثی' },
+    levels: { beginner: 'مبتدی', intermediate: 'متوسط', advanced: 'پیشرفته' },
+    speakers: FA_SPEAKERS,
+    resultTitles: { script: 'اسکریپت', summary: 'خلاصه' },
+    sourceTag: faSourceTag,
+    sourceTagInstruction: faSourceTagInstruction,
+
+    scriptTemplates: {
+        monologue: FA_SCRIPT_TEMPLATE,
+        dialogue: FA_DIALOGUE_TEMPLATE,
+    },
+    notesInstruction: faNotesInstruction,
+    scriptLayout: `قالب پاسخ: اسکریپت را با یک خط عنوان به شکل «# عنوان» شروع کنید. سپس آن را به ۳ تا ۶ بخش تقسیم کنید و هر بخش را با یک خط سرفصل کوتاه به شکل «## سرفصل» آغاز کنید. متن بخش‌ها با صدای بلند خوانده می‌شود، پس آن را بدون قالب‌بندی دیگر Markdown مانند ستاره، جدول یا پیوند بنویسید. در پایان، در یک خط جداگانه فقط ${TAKEAWAYS_MARKER} بنویسید و پس از آن ۳ تا ۵ نکته کلیدی را، هر کدام در یک خط که با «- » شروع می‌شود، بیاورید.`,
+
+    section: ({ script, heading, material, tone, level, format }) => `${heading ? `بخشی از اسکریپت زیر را که با سرفصل «${heading}» شروع می‌شود` : 'بخش آغازین اسکریپت زیر، پیش از نخستین سرفصل، را'} از نو بنویسید تا روشن‌تر، دقیق‌تر و گیراتر شود. لحن "${tone}"، سطح درک "${level}" و قالب ${format === 'dialogue' ? 'گفتگو و گویندگان' : 'روایت'} بقیه اسکریپت را نگه دارید و طوری بنویسید که با بخش‌های پیش و پس از آن پیوسته بماند. ${FA_OUTPUT_LANGUAGE}
+
+      ${heading ? `فقط همین بخش را بنویسید و آن را با خط «## ${heading}» آغاز کنید.` : 'فقط متن همین بخش را، بدون عنوان و سرفصل، بنویسید.'} متن بخش با صدای بلند خوانده می‌شود، پس از قالب‌بندی دیگر Markdown استفاده نکنید.
+${material ? `
+      متن اصلی:
+      ---
+      ${material}
+      ---
+` : ''}
+      اسکریپت کنونی:
+      ===
+      ${script}
+      ===`,
+
+    summary: (material, fromNotes) => `متن زیر را با تمرکز بر نکات کلیدی و ایده‌های اصلی خلاصه کنید. خلاصه باید مختصر، واضح و قابل فهم باشد. ${FA_OUTPUT_LANGUAGE}
+      ${faLongInputNote(fromNotes)}
+      ${fromNotes ? 'یادداشت‌های متن' : 'متن'} برای خلاصه:
+      ---
+      ${material}
+      ---
+
+      خلاصه را ارائه دهید.`,
+
+    quiz: (material, fromNotes, questionCount) => `از ${fromNotes ? 'یادداشت‌های متن' : 'متن'} زیر ${questionCount} سوال برای خودآزمایی یک یادگیرنده طراحی کنید: ترکیبی از سوال‌های چندگزینه‌ای (multiple-choice) با چهار گزینه، درست/نادرست (true-false) و پاسخ کوتاه (short-answer). سوال‌ها باید درک مفاهیم کلیدی را بسنجند، نه حفظ جزئیات بی‌اهمیت، و پاسخ همه آن‌ها باید در متن باشد. ${FA_OUTPUT_LANGUAGE}
+
+      برای سوال چندگزینه‌ای، answer باید دقیقاً یکی از options باشد. برای سوال درست/نادرست، options را خالی بگذارید و answer را true یا false قرار دهید. برای سوال پاسخ کوتاه، options را خالی بگذارید و answer را در چند کلمه بنویسید. در explanation در یک یا دو جمله توضیح دهید چرا این پاسخ درست است.
+
+      ${fromNotes ? 'یادداشت‌های متن' : 'متن'}:
+      ---
+      ${material}
+      ---`,
+
+    glossary: (material, fromNotes) => `اصطلاحات کلیدی ${fromNotes ? 'یادداشت‌های متن' : 'متن'} زیر را پیدا کنید: واژه‌ها و عبارت‌های تخصصی، نام‌ها و مفاهیمی که یک خواننده تازه‌کار برای فهم متن باید معنایشان را بداند. حداکثر ۲۰ اصطلاح انتخاب کنید و از واژه‌های روزمره بگذرید.
+
+      هر term را دقیقاً همان‌طور که در متن آمده بنویسید، با همان زبان و املا و بدون ترجمه، تا بتوان آن را در متن پیدا کرد. در definition معنای اصطلاح را در یک یا دو جمله ساده و در همان معنایی که در این متن به کار رفته توضیح دهید. ${FA_OUTPUT_LANGUAGE}
+
+      ${fromNotes ? 'یادداشت‌های متن' : 'متن'}:
+      ---
+      ${material}
+      ---`,
+
+    selection: (action, passage, before, after) => `${FA_SELECTION_TASKS[action]} ${FA_OUTPUT_LANGUAGE}
+
+      متن پیرامون بخش انتخاب‌شده، فقط برای فهم زمینه آمده است و بخش انتخاب‌شده میان ⟦ و ⟧ قرار دارد:
+      ---
+      ${before}⟦${passage}⟧${after}
+      ---
+
+      بخش انتخاب‌شده:
+      ---
+      ${passage}
+      ---`,
+
+    chatInstruction: (sourceText, result) => `شما یک دستیار آموزشی هستید که در یک گفتگو به سوالات کاربر درباره متن زیر به زبان فارسی پاسخ می‌دهید. فقط از اطلاعات متن اصلی استفاده کنید و به نوبت‌های قبلی گفتگو توجه داشته باشید تا سوالات پیگیری مانند «نکته دوم چه بود؟» را درست بفهمید.
+
+متن اصلی:
+---
+${sourceText}
+---
+${result ? `
+${fa.resultTitles[result.kind]} که پیش‌تر از این متن تولید شده است:
+===
+${result.text}
+===
+` : ''}`,
+
+    chatCitations: (sourceText, question, answer) => `پاسخ زیر به سوال کاربر درباره متن اصلی داده شده است. در فیلد quotes عبارت‌هایی از متن اصلی را که پاسخ بر آن‌ها استوار است، دقیقاً و بدون تغییر و به همان زبان متن اصلی کپی کنید. اگر پاسخ بر متن اصلی استوار نیست، found را false قرار دهید و quotes را خالی بگذارید.
+
+        متن اصلی:
+        ---
+        ${sourceText}
+        ---
+
+        سوال:
+        ===
+        ${question}
+        ===
+
+        پاسخ:
+        ===
+        ${answer}
+        ===`,
+
+    notes: (chunk, index, total) => `این بخش ${index + 1} از ${total} بخشِ یک متن طولانی است. نکات کلیدی، مفاهیم، تعاریف، داده‌ها و استدلال‌های مهم این بخش را به صورت فهرستی فشرده و کامل استخراج کنید. چیزی از خودتان اضافه نکنید. ${FA_OUTPUT_LANGUAGE}
+
+      متن بخش:
+      ---
+      ${chunk}
+      ---`,
+
+    condense: notes => `یادداشت‌های زیر را فشرده‌تر کنید بدون اینکه نکته مهمی از دست برود. ${faSourceTagInstruction}
+
+      یادداشت‌ها:
+      ---
+      ${notes}
+      ---`,
+
+    voicePreview: 'سلام! این نمونه‌ای از صدای من است.',
+};
+
+const enSourceTag = (index: number) => `[Part ${index + 1}]`;
+const enSourceTagInstruction = `The notes carry tags such as ${enSourceTag(0)} showing which part of the original text each point came from. At the end of every paragraph or list item, add the tags of the parts that point was drawn from, written exactly this way, e.g. ${enSourceTag(1)} or [Part 1, 3].`;
+const EN_OUTPUT_LANGUAGE = 'Whatever language the input is in, write your response in English.';
+
+const enNotesInstruction = `The original text was long, so you are given notes extracted from its parts instead. ${enSourceTagInstruction}`;
+
+const enLongInputNote = (fromNotes: boolean) => fromNotes ? `\n      ${enNotesInstruction}\n` : '';
+
+const EN_SPEAKERS = ['Sara', 'Arash'];
+
+const EN_SELECTION_TASKS: Record<SelectionAction, string> = {
+    explain: 'Explain the selected passage of the text below to the reader: what it means and what role it plays in the text. Keep the answer to one or two short paragraphs.',
+    simplify: 'Rewrite the selected passage of the text below in simpler words and sentences without changing its meaning. Write only the rewrite.',
+    example: 'Give one concrete, everyday example of what the selected passage of the text below says, one that makes it easier to grasp. Keep the answer short.',
+    translate: 'Translate the selected passage of the text below into fluent, accurate English. Write only the translation.',
+};
+
+const EN_SCRIPT_TEMPLATE = `You are an expert teacher and speaker. Your task is to analyze the text below and write a clear, engaging and informative educational script that explains its key concepts, context and significance. The script should read as if it will be spoken aloud in a presentation or a documentary narration.
+
+Pitch your explanation at a "{level}" level of understanding, in a "{tone}" tone. Break complex ideas down into plain language suited to the audience's level. ${EN_OUTPUT_LANGUAGE}
+{notes}
+Text to analyze:
+---
+{text}
+---
+
+Now write the spoken script.`;
+
+const EN_DIALOGUE_TEMPLATE = `You write an educational podcast. Your task is to analyze the text below and write a natural, engaging conversation between two hosts, ${EN_SPEAKERS[0]} and ${EN_SPEAKERS[1]}, that explains its key concepts, context and significance. ${EN_SPEAKERS[0]} explains the topic while ${EN_SPEAKERS[1]} asks questions, gives examples and sums points up in their own words, so listeners learn along with the conversation.
+
+Pitch the explanation at a "{level}" level of understanding, in a "{tone}" tone. ${EN_OUTPUT_LANGUAGE}
+
+Format: put every turn on its own line, starting with the speaker's name and a colon, exactly like "${EN_SPEAKERS[0]}: ..." or "${EN_SPEAKERS[1]}: ...". Apart from the title and headings the reply format asks for, do not write stage directions or any other text outside the turns.
+{notes}
+Text to analyze:
+---
+{text}
+---
+
+Now write the conversation.`;
+
+const en: PromptSet = {
+    tones: { friendly: 'friendly', formal: 'formal', enthusiastic: 'enthusiastic', neutral: 'neutral' },
+    levels: { beginner: 'beginner', intermediate: 'intermediate', advanced: 'advanced' },
+    speakers: EN_SPEAKERS,
+    resultTitles: { script: 'Script', summary: 'Summary' },
+    sourceTag: enSourceTag,
+    sourceTagInstruction: enSourceTagInstruction,
+
+    scriptTemplates: {
+        monologue: EN_SCRIPT_TEMPLATE,
+        dialogue: EN_DIALOGUE_TEMPLATE,
+    },
+    notesInstruction: enNotesInstruction,
+    scriptLayout: `Reply format: start the script with a title line written as "# Title". Then divide it into 3 to 6 sections, each opening with a short heading line written as "## Heading". The text of the sections is read aloud, so write it without any other Markdown formatting such as asterisks, tables or links. At the end, write only ${TAKEAWAYS_MARKER} on a line of its own, followed by 3 to 5 key takeaways, each on its own line starting with "- ".`,
+
+    section: ({ script, heading, material, tone, level, format }) => `Rewrite ${heading ? `the section of the script below that starts with the heading "${heading}"` : 'the opening of the script below, before its first heading,'} so that it is clearer, more accurate and more engaging. Keep the "${tone}" tone, the "${level}" level and the ${format === 'dialogue' ? 'dialogue format and speakers' : 'narrated format'} of the rest of the script, and make it flow on from the sections before and after it. ${EN_OUTPUT_LANGUAGE}
+
+      ${heading ? `Write only this section, starting with the line "## ${heading}".` : 'Write only the text of this section, without a title or heading.'} The text of the section is read aloud, so do not use any other Markdown formatting.
+${material ? `
+      Original text:
+      ---
+      ${material}
+      ---
+` : ''}
+      Current script:
+      ===
+      ${script}
+      ===`,
+
+    summary: (material, fromNotes) => `Summarize the text below, focusing on its key points and main ideas. The summary should be concise, clear and easy to understand. ${EN_OUTPUT_LANGUAGE}
+      ${enLongInputNote(fromNotes)}
+      ${fromNotes ? 'Notes on the text' : 'Text'} to summarize:
+      ---
+      ${material}
+      ---
+
+      Provide the summary.`,
+
+    quiz: (material, fromNotes, questionCount) => `Write ${questionCount} self-test questions for a learner based on the ${fromNotes ? 'notes on the ' : ''}text below: a mix of multiple-choice questions with four options, true-false questions and short-answer questions. The questions should test understanding of the key concepts rather than recall of trivial details, and every answer must be found in the text. ${EN_OUTPUT_LANGUAGE}
+
+      For a multiple-choice question, answer must be exactly one of the options. For a true-false question, leave options empty and set answer to true or false. For a short-answer question, leave options empty and give the answer in a few words. In explanation, say in one or two sentences why the answer is right.
+
+      ${fromNotes ? 'Notes on the text' : 'Text'}:
+      ---
+      ${material}
+      ---`,
+
+    glossary: (material, fromNotes) => `Find the key terms of the ${fromNotes ? 'notes on the ' : ''}text below: technical words and phrases, names and concepts whose meaning a newcomer needs to know to follow the text. Pick at most 20 terms and skip everyday words.
+
+      Write each term exactly as it appears in the text, in the same language and spelling and without translating it, so it can be found in the text. In definition, explain the term in one or two plain sentences, in the sense it has in this text. ${EN_OUTPUT_LANGUAGE}
+
+      ${fromNotes ? 'Notes on the text' : 'Text'}:
+      ---
+      ${material}
+      ---`,
+
+    selection: (action, passage, before, after) => `${EN_SELECTION_TASKS[action]} ${EN_OUTPUT_LANGUAGE}
+
+      The text around the selected passage, given only as context, with the passage between ⟦ and ⟧:
+      ---
+      ${before}⟦${passage}⟧${after}
+      ---
+
+      Selected passage:
+      ---
+      ${passage}
+      ---`,
+
+    chatInstruction: (sourceText, result) => `You are a teaching assistant answering the user's questions about the text below in a conversation, in English. Use only information from the original text, and keep earlier turns in mind so follow-up questions such as "What was the second point?" are understood correctly.
+
+Original text:
+---
+${sourceText}
+---
+${result ? `
+${en.resultTitles[result.kind]} previously generated from this text:
+===
+${result.text}
+===
+` : ''}`,
+
+    chatCitations: (sourceText, question, answer) => `The answer below was given to the user's question about the original text. In the quotes field, copy the passages of the original text the answer rests on verbatim, unchanged and in the original text's language. If the answer does not rest on the original text, set found to false and leave quotes empty.
+
+        Original text:
+        ---
+        ${sourceText}
+        ---
+
+        Question:
+        ===
+        ${question}
+        ===
+
+        Answer:
+        ===
+        ${answer}
+        ===`,
+
+    notes: (chunk, index, total) => `This is part ${index + 1} of ${total} of a long text. Extract the key points, concepts, definitions, data and important arguments of this part as a compact but complete list. Do not add anything of your own. ${EN_OUTPUT_LANGUAGE}
+
+      Text of the part:
+      ---
+      ${chunk}
+      ---`,
+
+    condense: notes => `Condense the notes below further without losing any important point. ${enSourceTagInstruction}
+
+      Notes:
+      ---
+      ${notes}
+      ---`,
+
+    voicePreview: 'Hello! This is a sample of my voice.',
+};
+
+const PROMPTS: Record<Locale, PromptSet> = { fa, en };
+
+export const getPrompts = (language: Locale): PromptSet => PROMPTS[language];
+
+/** Placeholders a script template can use. */
+export const TEMPLATE_VARIABLES = ['text', 'tone', 'level', 'notes'] as const;
+
+export type TemplateVariable = typeof TEMPLATE_VARIABLES[number];
+
+/** The read-only templates every library starts with, one per language and format. */
+export const BUILT_IN_TEMPLATES: PromptTemplate[] = LOCALES.flatMap(language => (['monologue', 'dialogue'] as const).map(format => ({
+    id: `builtin-${language}-${format}`,
+    name: '',
+    language,
+    format,
+    body: PROMPTS[language].scriptTemplates[format],
+    builtIn: true,
+})));
+
+export const builtInTemplate = (language: Locale, format: ScriptFormat): PromptTemplate =>
+    BUILT_IN_TEMPLATES.find(template => template.language === language && template.format === format) ?? BUILT_IN_TEMPLATES[0];
+
+/** The wording of a tone in the given language; custom tones are used as written. */
+export const toneLabel = (tone: string, language: Locale): string => (isToneId(tone) ? PROMPTS[language].tones[tone] : tone);
+
+export const levelLabel = (level: string, language: Locale): string => (isLevelId(level) ? PROMPTS[language].levels[level] : level);
+
+/**
+ * Fills the known placeholders of a template in one pass, so placeholders
+ * that happen to appear in the input are left alone. A template without
+ * `{text}` gets the material appended, and one without `{notes}` gets the
+ * notes instruction appended, since tagged notes can't be cited without it.
+ */
+export function renderTemplate(body: string, values: Record<TemplateVariable, string>): string {
+    let prompt = body.replace(/\{(text|tone|level|notes)\}/g, (_, name: TemplateVariable) => values[name]);
+    if (!body.includes('{text}')) {
+        prompt += `\n\n---\n${values.text}\n---`;
+    }
+    if (values.notes && !body.includes('{notes}')) {
+        prompt += `\n\n${values.notes}`;
+    }
+    return prompt;
+}
+
+/** A template filled in, followed by the layout every script is written in, whatever the template says. */
+export const buildScriptPrompt = (template: PromptTemplate, { material, fromNotes, tone, level }: ScriptPromptParams): string =>
+    `${renderTemplate(template.body, {
+        text: material,
+        tone: toneLabel(tone, template.language),
+        level: levelLabel(level, template.language),
+        notes: fromNotes ? PROMPTS[template.language].notesInstruction : '',
+    })}\n\n${PROMPTS[template.language].scriptLayout}`;
@@ -0,0 +1,213 @@
+import { GenerateContentResponse, GoogleGenAI, Modality } from "@google/genai";
+import { ModelOperation, ModelOverrides, ModelProvider, SpeechRequest, TextRequest, VoiceOption } from './types';
+import { AuthError, EmptyResponseError, SafetyBlockError } from '../errors';
+import { t } from '../../i18n';
+
+const DEFAULT_MODELS: Record<ModelOperation, string> = {
+    script: "gemini-2.5-pro",
+    dialogue: "gemini-2.5-pro",
+    summary: "gemini-2.5-flash",
+    answer: "gemini-2.5-flash",
+    chat: "gemini-2.5-flash",
+    notes: "gemini-2.5-flash",
+    quiz: "gemini-2.5-flash",
+    glossary: "gemini-2.5-flash",
+    selection: "gemini-2.5-flash",
+    section: "gemini-2.5-pro",
+    speech: "gemini-2.5-flash-preview-tts",
+};
+
+/** Suggestions for the settings panel; any model name the API accepts can be entered. */
+export const GEMINI_MODEL_SUGGESTIONS = [
+    "gemini-2.5-pro",
+    "gemini-2.5-flash",
+    "gemini-2.5-flash-lite",
+    "gemini-2.5-flash-preview-tts",
+    "gemini-2.5-pro-preview-tts",
+];
+
+export const DEFAULT_THINKING_BUDGET = 32768;
+
+/** The thinking budgets a model accepts, besides -1 for a budget the model picks itself. */
+export interface ThinkingRange {
+    min: number;
+    max: number;
+    /** Whether a budget of 0 turns thinking off; Pro models cannot. */
+    canTurnOff: boolean;
+}
+
+// Checked in order, so Flash-Lite comes before Flash.
+const THINKING_RANGES: { family: RegExp; range: ThinkingRange }[] = [
+    { family: /flash-lite/, range: { min: 512, max: 24576, canTurnOff: true } },
+    { family: /flash/, range: { min: 1, max: 24576, canTurnOff: true } },
+    { family: /pro/, range: { min: 128, max: 32768, canTurnOff: false } },
+];
+
+/**
+ * The thinking budgets `model` accepts, or null for models that reject a
+ * thinking config: anything before Gemini 2.5 and the speech, image and live models.
+ */
+export const thinkingRange = (model: string): ThinkingRange | null => {
+    if (!/^gemini-2\.5-/.test(model) || /tts|image|live|audio/.test(model)) return null;
+    return THINKING_RANGES.find(({ family }) => family.test(model))?.range ?? null;
+};
+
+/** Fits a budget from the settings into what `model` accepts. */
+export const fitThinkingBudget = (budget: number, { min, max, canTurnOff }: ThinkingRange): number => {
+    if (budget < 0) return -1;
+    if (budget === 0 && canTurnOff) return 0;
+    return Math.min(max, Math.max(min, budget));
+};
+
+export interface GeminiProviderConfig {
+    apiKey?: string;
+    models?: ModelOverrides;
+    /** Thinking tokens for script writing: 0 turns thinking off, -1 lets the model decide. */
+    thinkingBudget?: number;
+}
+
+// Prebuilt voices of the Gemini TTS models, with the style Google describes for each.
+const VOICES: VoiceOption[] = [
+    { id: 'Kore', description: 'Firm' },
+    { id: 'Puck', description: 'Upbeat' },
+    { id: 'Zephyr', description: 'Bright' },
+    { id: 'Charon', description: 'Informative' },
+    { id: 'Fenrir', description: 'Excitable' },
+    { id: 'Leda', description: 'Youthful' },
+    { id: 'Orus', description: 'Firm' },
+    { id: 'Aoede', description: 'Breezy' },
+    { id: 'Callirrhoe', description: 'Easy-going' },
+    { id: 'Autonoe', description: 'Bright' },
+    { id: 'Enceladus', description: 'Breathy' },
+    { id: 'Iapetus', description: 'Clear' },
+    { id: 'Umbriel', description: 'Easy-going' },
+    { id: 'Algieba', description: 'Smooth' },
+    { id: 'Despina', description: 'Smooth' },
+    { id: 'Erinome', description: 'Clear' },
+    { id: 'Algenib', description: 'Gravelly' },
+    { id: 'Rasalgethi', description: 'Informative' },
+    { id: 'Laomedeia', description: 'Upbeat' },
+    { id: 'Achernar', description: 'Soft' },
+    { id: 'Alnilam', description: 'Firm' },
+    { id: 'Schedar', description: 'Even' },
+    { id: 'Gacrux', description: 'Mature' },
+    { id: 'Pulcherrima', description: 'Forward' },
+    { id: 'Achird', description: 'Friendly' },
+    { id: 'Zubenelgenubi', description: 'Casual' },
+    { id: 'Vindemiatrix', description: 'Gentle' },
+    { id: 'Sadachbia', description: 'Lively' },
+    { id: 'Sadaltager', description: 'Knowledgeable' },
+    { id: 'Sulafat', description: 'Warm' },
+];
+
+const DEFAULT_VOICE = 'Kore'; // A pleasant, clear voice
+
+// Finish reasons meaning the output was cut off by a content filter rather than completed.
+const BLOCKED_FINISH_REASONS = new Set(['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY']);
+
+/** Blocked prompts and filtered outputs come back as ordinary responses; turn them into errors. */
+const throwIfBlocked = (response: GenerateContentResponse) => {
+    const blockReason = response.promptFeedback?.blockReason;
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (blockReason || (finishReason && BLOCKED_FINISH_REASONS.has(finishReason))) {
+        throw new SafetyBlockError({ reason: blockReason ?? finishReason });
+    }
+};
+
+const prebuiltVoice = (voiceName: string) => ({ prebuiltVoiceConfig: { voiceName } });
+
+// Multi-speaker TTS renders "Speaker: line" text with one voice per named speaker (at most two).
+const buildSpeechParams = ({ text, voice, speakers }: SpeechRequest) => {
+    if (speakers && speakers.length > 1) {
+        return {
+            contents: [{ parts: [{ text: `TTS the following conversation between ${speakers.map(s => s.speaker).join(' and ')}:\n${text}` }] }],
+            speechConfig: {
+                multiSpeakerVoiceConfig: {
+                    speakerVoiceConfigs: speakers.map(({ speaker, voice }) => ({ speaker, voiceConfig: prebuiltVoice(voice) })),
+                },
+            },
+        };
+    }
+    return {
+        contents: [{ parts: [{ text: text }] }],
+        speechConfig: { voiceConfig: prebuiltVoice(voice ?? DEFAULT_VOICE) },
+    };
+};
+
+export const createGeminiProvider = ({ apiKey, models: overrides, thinkingBudget = DEFAULT_THINKING_BUDGET }: GeminiProviderConfig): ModelProvider => {
+    let ai: GoogleGenAI | null = null;
+    const models = { ...DEFAULT_MODELS, ...overrides };
+
+    const getClient = () => {
+        if (!apiKey) {
+            throw new AuthError();
+        }
+        if (!ai) {
+            ai = new GoogleGenAI({ apiKey });
+        }
+        return ai;
+    };
+
+    const thinkingConfig = (model: string) => {
+        const range = thinkingRange(model);
+        return range ? { thinkingConfig: { thinkingBudget: fitThinkingBudget(thinkingBudget, range) } } : {};
+    };
+
+    const buildTextParams = ({ task, prompt, responseSchema, systemInstruction, history, signal }: TextRequest) => ({
+        model: models[task],
+        contents: history
+            ? [...history, { role: 'user', text: prompt }].map(turn => ({ role: turn.role, parts: [{ text: turn.text }] }))
+            : prompt,
+        config: {
+            systemInstruction,
+            abortSignal: signal,
+            ...(task === 'script' || task === 'dialogue' || task === 'section' ? thinkingConfig(models[task]) : {}),
+            ...(responseSchema ? { responseMimeType: 'application/json', responseJsonSchema: responseSchema } : {}),
+        },
+    });
+
+    return {
+        name: 'gemini',
+        label: 'Gemini',
+        voices: VOICES,
+        defaultVoice: DEFAULT_VOICE,
+        models,
+
+        async generateText(request) {
+            const response = await getClient().models.generateContent(buildTextParams(request));
+            throwIfBlocked(response);
+            return response.text ?? '';
+        },
+
+        async *streamText(request) {
+            const stream = await getClient().models.generateContentStream(buildTextParams(request));
+            for await (const chunk of stream) {
+                request.signal?.throwIfAborted();
+                throwIfBlocked(chunk);
+                if (chunk.text) {
+                    yield chunk.text;
+                }
+            }
+        },
+
+        async generateSpeech(request) {
+            const { contents, speechConfig } = buildSpeechParams(request);
+            const response = await getClient().models.generateContent({
+                model: models.speech,
+                contents,
+                config: {
+                    responseModalities: [Modality.AUDIO],
+                    speechConfig,
+                    abortSignal: request.signal,
+                },
+            });
+
+            throwIfBlocked(response);
+            const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+            if (!base64Audio) {
+                throw new EmptyResponseError({ message: t('errors.noAudio') });
+            }
+            return base64Audio;
+        },
+    };
+};
@@ -0,0 +1,56 @@
+import { ModelProvider, ProviderName } from './types';
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAiProvider } from './openAiProvider';
+import { createMockProvider } from './mockProvider';
+import { loadSettings } from '../settings';
+
+export type { ChatTurn, ModelOperation, ModelOverrides, ModelProvider, ProviderName, SpeakerVoice, SpeechRequest, TextRequest, TextTask, VoiceOption } from './types';
+
+// A key entered in the settings panel wins over the one set at build time.
+const geminiApiKey = (): string | undefined => loadSettings().apiKey.trim() || process.env.API_KEY;
+
+const resolveProviderName = (): ProviderName => {
+    const configured = process.env.MODEL_PROVIDER;
+    if (configured === 'gemini' || configured === 'openai' || configured === 'mock') {
+        return configured;
+    }
+    if (configured) {
+        console.warn(`Unknown MODEL_PROVIDER "${configured}", falling back to default.`);
+    }
+    // Without a key there is nothing to call, so default to the offline provider.
+    return geminiApiKey() ? 'gemini' : 'mock';
+};
+
+const createProvider = (name: ProviderName): ModelProvider => {
+    const { models, thinkingBudget } = loadSettings();
+    switch (name) {
+        case 'openai':
+            return createOpenAiProvider({
+                baseUrl: process.env.OPENAI_BASE_URL || 'http://localhost:11434/v1',
+                apiKey: process.env.OPENAI_API_KEY,
+                model: process.env.OPENAI_MODEL || 'llama3.1',
+                ttsModel: process.env.OPENAI_TTS_MODEL || 'tts-1',
+                ttsVoice: process.env.OPENAI_TTS_VOICE || 'alloy',
+                models,
+            });
+        case 'mock':
+            return createMockProvider();
+        case 'gemini':
+        default:
+            return createGeminiProvider({ apiKey: geminiApiKey(), models, thinkingBudget });
+    }
+};
+
+let activeProvider: ModelProvider | null = null;
+
+export const getProvider = (): ModelProvider => {
+    if (!activeProvider) {
+        activeProvider = createProvider(resolveProviderName());
+    }
+    return activeProvider;
+};
+
+/** Drops the current provider so the next call builds one from the latest settings. */
+export const resetProvider = (): void => {
+    activeProvider = null;
+};
@@ -0,0 +1,314 @@
+import { ModelOperation, ModelProvider, TextRequest, TextTask, VoiceOption } from './types';
+import { encode } from '../../utils/audioUtils';
+import { splitIntoSentences } from '../../utils/textChunker';
+import { parseDialogueTurns } from '../../utils/dialogue';
+import { abortableDelay } from '../../utils/abort';
+import { getPrompts } from '../prompts';
+import { TAKEAWAYS_MARKER } from '../../utils/scriptStructure';
+import type { Locale } from '../../i18n';
+
+const SAMPLE_RATE = 24000;
+const LATENCY_MS = 400;
+const STREAM_CHUNK_MS = 60;
+
+const [FA_SPEAKERS, EN_SPEAKERS] = [getPrompts('fa').speakers, getPrompts('en').speakers];
+
+const CANNED_REPLIES: Record<Locale, Record<TextTask, string>> = {
+    fa: {
+        script: `# نگاهی دقیق به متن شما
+
+سلام و خوش آمدید! امروز قرار است با هم نگاهی دقیق به متنی بیندازیم که وارد کرده‌اید.
+
+## موضوع اصلی
+
+در ابتدا، بیایید ببینیم موضوع اصلی چیست. هر متن یک ایده مرکزی دارد که بقیه جملات حول آن شکل می‌گیرند. پیدا کردن این ایده، نخستین قدم برای فهم عمیق است.
+
+## زمینه
+
+سپس به زمینه می‌پردازیم. چرا نویسنده این موضوع را مطرح کرده است؟ دانستن زمینه به ما کمک می‌کند که اهمیت مطلب را بهتر درک کنیم.
+
+## مرور
+
+در پایان، نکات کلیدی را مرور می‌کنیم. اگر این نکات را به خاطر بسپارید، می‌توانید متن را به زبان خودتان برای دیگران توضیح دهید.
+
+${TAKEAWAYS_MARKER}
+- هر متن یک ایده مرکزی دارد.
+- زمینه نشان می‌دهد چرا مطلب مهم است.
+- مرور نکات کلیدی به توضیح متن کمک می‌کند.`,
+        dialogue: `# گفتگویی درباره متن شما
+
+## موضوع اصلی
+
+${FA_SPEAKERS[0]}: سلام! امروز قرار است با هم درباره متنی که وارد کرده‌اید صحبت کنیم.
+${FA_SPEAKERS[1]}: سلام! من کنجکاوم بدانم موضوع اصلی آن چیست.
+${FA_SPEAKERS[0]}: هر متن یک ایده مرکزی دارد. پیدا کردن این ایده، نخستین قدم برای فهم عمیق است.
+${FA_SPEAKERS[1]}: یعنی اول باید بپرسیم نویسنده دقیقاً چه می‌خواهد بگوید؟
+
+## زمینه و مرور
+
+${FA_SPEAKERS[0]}: دقیقاً. بعد سراغ زمینه می‌رویم تا بفهمیم چرا این موضوع مهم است.
+${FA_SPEAKERS[1]}: پس اگر نکات کلیدی را مرور کنیم، می‌توانیم متن را برای دیگران هم توضیح دهیم. عالی بود!
+
+${TAKEAWAYS_MARKER}
+- پیدا کردن ایده مرکزی نخستین قدم است.
+- زمینه اهمیت موضوع را نشان می‌دهد.`,
+        summary: `این یک خلاصه آزمایشی است که توسط ارائه‌دهنده ساختگی تولید شده است.
+
+- ایده اصلی متن در یک جمله بیان شده است.
+- زمینه و اهمیت موضوع به طور مختصر توضیح داده شده است.
+- نکات کلیدی برای مرور سریع فهرست شده‌اند.`,
+        answer: `این یک پاسخ آزمایشی از ارائه‌دهنده ساختگی است. در حالت آفلاین، پاسخ واقعی بر اساس متن تولید نمی‌شود.`,
+        notes: `- نکته کلیدی نخست این بخش.
+- مفهوم مهمی که در این بخش تعریف شده است.
+- نتیجه‌گیری این بخش.`,
+        chat: `این یک پاسخ آزمایشی در گفتگو است. ارائه‌دهنده ساختگی نوبت‌های قبلی را می‌بیند اما پاسخ واقعی تولید نمی‌کند.`,
+        quiz: `۱. نخستین قدم برای فهم عمیق یک متن چیست؟
+۲. دانستن زمینه به درک اهمیت مطلب کمک می‌کند. درست یا نادرست؟`,
+        glossary: `این یک تعریف آزمایشی از ارائه‌دهنده ساختگی است.`,
+        selection: `این یک توضیح آزمایشی برای بخش انتخاب‌شده است که ارائه‌دهنده ساختگی تولید کرده است.`,
+        section: `## بخش بازنویسی‌شده
+
+این متن آزمایشی به جای بخش انتخاب‌شده می‌نشیند. ارائه‌دهنده ساختگی بخش را واقعاً بازنویسی نمی‌کند، اما روایت تازه آن را می‌توان شنید.`,
+    },
+    en: {
+        script: `# A Close Look at Your Text
+
+Hello and welcome! Today we are going to take a close look at the text you entered.
+
+## The main topic
+
+First, let's see what the main topic is. Every text has a central idea that the other sentences are built around. Finding that idea is the first step towards understanding it deeply.
+
+## The context
+
+Next, we turn to the context. Why did the author raise this topic? Knowing the context helps us see why the material matters.
+
+## Review
+
+Finally, we review the key points. If you remember them, you can explain the text to others in your own words.
+
+${TAKEAWAYS_MARKER}
+- Every text has a central idea.
+- The context shows why the material matters.
+- Reviewing the key points helps you explain the text.`,
+        dialogue: `# A Conversation About Your Text
+
+## The main topic
+
+${EN_SPEAKERS[0]}: Hi! Today we are talking about the text you entered.
+${EN_SPEAKERS[1]}: Hi! I'm curious what its main topic is.
+${EN_SPEAKERS[0]}: Every text has a central idea. Finding it is the first step towards understanding it deeply.
+${EN_SPEAKERS[1]}: So first we ask what exactly the author wants to say?
+
+## Context and review
+
+${EN_SPEAKERS[0]}: Exactly. Then we look at the context to see why the topic matters.
+${EN_SPEAKERS[1]}: And if we review the key points, we can explain the text to others too. Great!
+
+${TAKEAWAYS_MARKER}
+- Finding the central idea is the first step.
+- The context shows why the topic matters.`,
+        summary: `This is a test summary produced by the mock provider.
+
+- The main idea of the text is stated in one sentence.
+- The context and importance of the topic are briefly explained.
+- The key points are listed for a quick review.`,
+        answer: `This is a test answer from the mock provider. Offline, no real answer is generated from the text.`,
+        notes: `- The first key point of this part.
+- An important concept defined in this part.
+- The conclusion of this part.`,
+        chat: `This is a test chat reply. The mock provider sees the earlier turns but does not generate a real answer.`,
+        quiz: `1. What is the first step towards understanding a text deeply?
+2. Knowing the context helps you see why the material matters. True or false?`,
+        glossary: `This is a test definition from the mock provider.`,
+        selection: `This is a test note on the selected passage, produced by the mock provider.`,
+        section: `## Rewritten section
+
+This test text takes the place of the chosen section. The mock provider doesn't really rewrite it, but its new narration can be heard.`,
+    },
+};
+
+// Prompts are written in the output language, so their opening says which replies to use.
+const replyLanguage = ({ prompt, systemInstruction }: TextRequest): Locale =>
+    /[\u0600-\u06FF]/.test((systemInstruction ?? prompt).slice(0, 200)) ? 'fa' : 'en';
+
+// Quotes the first sentence of the first "---"-delimited block, so citations can be exercised offline.
+const firstQuotedSentence = (text: string): string | undefined =>
+    splitIntoSentences(text.match(/---\s*\n([\s\S]*?)\n\s*---/)?.[1] ?? '')[0];
+
+const CANNED_QUIZZES: Record<Locale, unknown[]> = {
+    fa: [
+        {
+            type: 'multiple-choice',
+            question: 'نخستین قدم برای فهم عمیق یک متن چیست؟',
+            options: ['پیدا کردن ایده مرکزی', 'حفظ کردن جمله‌ها', 'شمردن بندها', 'خواندن سریع'],
+            answer: 'پیدا کردن ایده مرکزی',
+            explanation: 'بقیه جملات متن حول ایده مرکزی شکل می‌گیرند.',
+        },
+        {
+            type: 'true-false',
+            question: 'دانستن زمینه به درک اهمیت مطلب کمک می‌کند.',
+            options: [],
+            answer: 'true',
+            explanation: 'زمینه نشان می‌دهد چرا نویسنده موضوع را مطرح کرده است.',
+        },
+        {
+            type: 'short-answer',
+            question: 'در پایان توضیح، چه چیزی مرور می‌شود؟',
+            options: [],
+            answer: 'نکات کلیدی',
+            explanation: 'مرور نکات کلیدی کمک می‌کند متن را برای دیگران توضیح دهید.',
+        },
+    ],
+    en: [
+        {
+            type: 'multiple-choice',
+            question: 'What is the first step towards understanding a text deeply?',
+            options: ['Finding the central idea', 'Memorizing sentences', 'Counting paragraphs', 'Skimming quickly'],
+            answer: 'Finding the central idea',
+            explanation: 'The other sentences of a text are built around its central idea.',
+        },
+        {
+            type: 'true-false',
+            question: 'Knowing the context helps you see why the material matters.',
+            options: [],
+            answer: 'true',
+            explanation: 'The context shows why the author raised the topic.',
+        },
+        {
+            type: 'short-answer',
+            question: 'What is reviewed at the end of the explanation?',
+            options: [],
+            answer: 'The key points',
+            explanation: 'Reviewing the key points lets you explain the text to others.',
+        },
+    ],
+};
+
+// Picks the longest distinct words of the quoted material, so the glossary has terms that occur in the input.
+const longestWords = (text: string, count: number): string[] =>
+    [...new Set(text.match(/---\s*\n([\s\S]*?)\n\s*---/)?.[1].match(/[\p{L}\p{N}]{6,}/gu) ?? [])]
+        .sort((a, b) => b.length - a.length)
+        .slice(0, count);
+
+// Structured replies for requests that carry a response schema.
+const CANNED_JSON: Partial<Record<TextTask, (request: TextRequest) => unknown>> = {
+    answer: request => {
+        const quote = firstQuotedSentence(request.prompt);
+        return { found: Boolean(quote), quotes: quote ? [quote] : [] };
+    },
+    quiz: request => ({ questions: CANNED_QUIZZES[replyLanguage(request)] }),
+    glossary: request => ({
+        terms: longestWords(request.prompt, 5).map(term => ({ term, definition: CANNED_REPLIES[replyLanguage(request)].glossary })),
+    }),
+};
+
+// Voices differ only in pitch, which is enough to tell speakers apart offline.
+const VOICES: VoiceOption[] = [
+    { id: 'low', description: 'Low tone' },
+    { id: 'mid', description: 'Middle tone' },
+    { id: 'high', description: 'High tone' },
+];
+
+const VOICE_BASE_FREQUENCY: Record<string, number> = { low: 140, mid: 220, high: 330 };
+
+/**
+ * When the prompt carries source tags from the long-input pipeline, echo them
+ * back round-robin at the end of each paragraph, as a real model is asked to.
+ */
+const cannedReply = (request: TextRequest): string => {
+    const { task, prompt } = request;
+    const replies = CANNED_REPLIES[replyLanguage(request)];
+    const tags = [...new Set(prompt.match(/\[(?:بخش|Part) \d+\]/g) ?? [])];
+    if (tags.length === 0 || task === 'notes') {
+        return replies[task];
+    }
+    return replies[task]
+        .split('\n')
+        // Headings and the takeaways marker are left untagged, as they carry no claims.
+        .map((line, index) => (line.trim() && !line.startsWith('#') ? `${line} ${tags[index % tags.length]}` : line))
+        .join('\n');
+};
+
+/**
+ * Renders text as a sequence of short tones, one per word, with a longer
+ * pause after sentence punctuation. The output is deterministic for a given
+ * input and roughly tracks the length of real narration.
+ */
+const synthesizeTonePcm = (text: string, voice = 'mid'): Uint8Array => {
+    const baseFrequency = VOICE_BASE_FREQUENCY[voice] ?? VOICE_BASE_FREQUENCY.mid;
+    const words = text.split(/\s+/).filter(Boolean);
+    const segments: { frequency: number; seconds: number }[] = [];
+    words.forEach((word, index) => {
+        const frequency = baseFrequency + ((word.length * 37 + index * 11) % baseFrequency);
+        segments.push({ frequency, seconds: Math.min(0.6, 0.08 + word.length * 0.05) });
+        segments.push({ frequency: 0, seconds: /[.!?؟]$/.test(word) ? 0.4 : 0.08 });
+    });
+    if (segments.length === 0) {
+        segments.push({ frequency: 0, seconds: 0.5 });
+    }
+
+    const totalFrames = segments.reduce((sum, s) => sum + Math.round(s.seconds * SAMPLE_RATE), 0);
+    const pcm = new Int16Array(totalFrames);
+    let offset = 0;
+    for (const { frequency, seconds } of segments) {
+        const frames = Math.round(seconds * SAMPLE_RATE);
+        if (frequency > 0) {
+            for (let i = 0; i < frames; i++) {
+                // Short linear fade in/out avoids clicks at segment edges.
+                const envelope = Math.min(1, i / 240, (frames - i) / 240);
+                pcm[offset + i] = Math.round(Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE) * envelope * 0.3 * 0x7FFF);
+            }
+        }
+        offset += frames;
+    }
+    return new Uint8Array(pcm.buffer);
+};
+
+const MODELS: Record<ModelOperation, string> = {
+    script: 'mock', dialogue: 'mock', summary: 'mock', answer: 'mock', notes: 'mock', chat: 'mock', quiz: 'mock', glossary: 'mock', selection: 'mock', section: 'mock', speech: 'mock-tone',
+};
+
+export const createMockProvider = (): ModelProvider => ({
+    name: 'mock',
+    label: 'Mock (offline)',
+    voices: VOICES,
+    defaultVoice: 'mid',
+    models: MODELS,
+
+    async generateText(request) {
+        await abortableDelay(LATENCY_MS, request.signal);
+        const cannedJson = CANNED_JSON[request.task];
+        if (request.responseSchema && cannedJson) {
+            return JSON.stringify(cannedJson(request));
+        }
+        return cannedReply(request);
+    },
+
+    async *streamText(request) {
+        await abortableDelay(LATENCY_MS, request.signal);
+        // Emit a few words at a time so progressive rendering can be exercised offline.
+        const pieces = cannedReply(request).match(/\S+\s*/g) ?? [];
+        for (let i = 0; i < pieces.length; i += 3) {
+            await abortableDelay(STREAM_CHUNK_MS, request.signal);
+            yield pieces.slice(i, i + 3).join('');
+        }
+    },
+
+    async generateSpeech({ text, voice, speakers, signal }) {
+        await abortableDelay(LATENCY_MS, signal);
+        if (!speakers || speakers.length < 2) {
+            return encode(synthesizeTonePcm(text, voice));
+        }
+        const voiceOf = new Map(speakers.map(s => [s.speaker, s.voice]));
+        const parts = parseDialogueTurns(text, speakers.map(s => s.speaker))
+            .map(turn => synthesizeTonePcm(turn.text, voiceOf.get(turn.speaker)));
+        const pcm = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+        let offset = 0;
+        for (const part of parts) {
+            pcm.set(part, offset);
+            offset += part.length;
+        }
+        return encode(pcm);
+    },
+});
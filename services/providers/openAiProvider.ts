@@ -0,0 +1,161 @@
+import { ModelOperation, ModelOverrides, ModelProvider, TextRequest, VoiceOption } from './types';
+import { EmptyResponseError, errorFromHttpStatus } from '../errors';
+import { encode } from '../../utils/audioUtils';
+import { parseDialogueTurns } from '../../utils/dialogue';
+import { t } from '../../i18n';
+
+export interface OpenAiProviderConfig {
+    baseUrl: string;
+    apiKey?: string;
+    model: string;
+    ttsModel: string;
+    ttsVoice: string;
+    models?: ModelOverrides;
+}
+
+const VOICES: VoiceOption[] = [
+    { id: 'alloy', description: 'Neutral' },
+    { id: 'ash', description: 'Clear' },
+    { id: 'ballad', description: 'Soft' },
+    { id: 'coral', description: 'Warm' },
+    { id: 'echo', description: 'Resonant' },
+    { id: 'fable', description: 'Expressive' },
+    { id: 'onyx', description: 'Deep' },
+    { id: 'nova', description: 'Bright' },
+    { id: 'sage', description: 'Calm' },
+    { id: 'shimmer', description: 'Light' },
+    { id: 'verse', description: 'Versatile' },
+];
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+    const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+};
+
+// Talks to any server exposing the OpenAI REST surface (llama.cpp, Ollama, vLLM, LM Studio, ...).
+export const createOpenAiProvider = (config: OpenAiProviderConfig): ModelProvider => {
+    const baseUrl = config.baseUrl.replace(/\/+$/, '');
+    const { model, ttsModel } = config;
+    const models: Record<ModelOperation, string> = {
+        script: model, dialogue: model, summary: model, answer: model, notes: model, chat: model, quiz: model, glossary: model, selection: model, section: model, speech: ttsModel,
+        ...config.models,
+    };
+
+    const post = async (path: string, body: unknown, signal?: AbortSignal): Promise<Response> => {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (config.apiKey) {
+            headers['Authorization'] = `Bearer ${config.apiKey}`;
+        }
+        const response = await fetch(`${baseUrl}${path}`, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify(body),
+            signal,
+        });
+        if (!response.ok) {
+            const detail = await response.text().catch(() => '');
+            throw errorFromHttpStatus(response.status, `${path}: ${detail}`, response.headers.get('Retry-After'));
+        }
+        return response;
+    };
+
+    const buildMessages = ({ prompt, systemInstruction, history = [] }: TextRequest) => [
+        ...(systemInstruction ? [{ role: 'system', content: systemInstruction }] : []),
+        ...history.map(turn => ({ role: turn.role === 'model' ? 'assistant' : 'user', content: turn.text })),
+        { role: 'user', content: prompt },
+    ];
+
+    return {
+        name: 'openai',
+        label: `OpenAI-compatible (${config.model})`,
+        // Local servers often ship their own voices; keep a configured one selectable.
+        voices: VOICES.some(v => v.id === config.ttsVoice) ? VOICES : [{ id: config.ttsVoice, description: 'Configured' }, ...VOICES],
+        defaultVoice: config.ttsVoice,
+        models,
+
+        async generateText(request) {
+            const { task, responseSchema } = request;
+            const response = await post('/chat/completions', {
+                model: models[task],
+                messages: buildMessages(request),
+                ...(responseSchema ? {
+                    response_format: { type: 'json_schema', json_schema: { name: task, schema: responseSchema } },
+                } : {}),
+            }, request.signal);
+            const json = await response.json();
+            return json.choices?.[0]?.message?.content ?? '';
+        },
+
+        async *streamText(request) {
+            const response = await post('/chat/completions', {
+                model: models[request.task],
+                messages: buildMessages(request),
+                stream: true,
+            }, request.signal);
+            if (!response.body) {
+                return;
+            }
+            // Server-sent events: one "data: {json}" line per delta, terminated by "data: [DONE]".
+            const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+            let buffered = '';
+            try {
+                while (true) {
+                    const { done, value } = await reader.read();
+                    if (done) break;
+                    buffered += value;
+                    const lines = buffered.split('\n');
+                    buffered = lines.pop() ?? '';
+                    for (const rawLine of lines) {
+                        const line = rawLine.trim();
+                        if (!line.startsWith('data:')) continue;
+                        const data = line.slice('data:'.length).trim();
+                        if (data === '[DONE]') return;
+                        const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+                        if (delta) {
+                            yield delta as string;
+                        }
+                    }
+                }
+            } finally {
+                // Closes the response on [DONE], an abort or a parse error alike, not only when it ends by itself.
+                reader.cancel().catch(() => {});
+                reader.releaseLock();
+            }
+        },
+
+        async generateSpeech({ text, voice, speakers, signal }) {
+            // "pcm" is raw 24 kHz 16-bit mono, the same shape Gemini TTS returns.
+            const speak = async (input: string, voiceId: string) => {
+                const response = await post('/audio/speech', {
+                    model: models.speech,
+                    voice: voiceId,
+                    input,
+                    response_format: 'pcm',
+                }, signal);
+                return new Uint8Array(await response.arrayBuffer());
+            };
+
+            let bytes: Uint8Array;
+            if (speakers && speakers.length > 1) {
+                // There is no multi-speaker endpoint, so each turn is spoken separately and joined.
+                const voiceOf = new Map(speakers.map(s => [s.speaker, s.voice]));
+                const parts: Uint8Array[] = [];
+                for (const turn of parseDialogueTurns(text, speakers.map(s => s.speaker))) {
+                    parts.push(await speak(turn.text, voiceOf.get(turn.speaker) ?? config.ttsVoice));
+                }
+                bytes = concatBytes(parts);
+            } else {
+                bytes = await speak(text, voice ?? config.ttsVoice);
+            }
+            if (bytes.length === 0) {
+                throw new EmptyResponseError({ message: t('errors.noAudio') });
+            }
+            return encode(bytes);
+        },
+    };
+};
@@ -0,0 +1,65 @@
+export type ProviderName = 'gemini' | 'openai' | 'mock';
+
+// Identifies which operation a prompt belongs to, so providers can pick a
+// suitable model and the mock provider can return a matching canned reply.
+export type TextTask = 'script' | 'dialogue' | 'summary' | 'answer' | 'notes' | 'chat' | 'quiz' | 'glossary' | 'selection' | 'section';
+
+/** Everything a model is chosen for: the text tasks plus speech synthesis. */
+export type ModelOperation = TextTask | 'speech';
+
+/** Models to use instead of a provider's defaults; operations left out keep the default. */
+export type ModelOverrides = Partial<Record<ModelOperation, string>>;
+
+export interface ChatTurn {
+    role: 'user' | 'model';
+    text: string;
+}
+
+export interface TextRequest {
+    task: TextTask;
+    prompt: string;
+    /** JSON Schema the reply must conform to; the reply is then a JSON string. */
+    responseSchema?: object;
+    systemInstruction?: string;
+    /** Earlier turns of a conversation; `prompt` is sent as the latest user turn. */
+    history?: ChatTurn[];
+    signal?: AbortSignal;
+}
+
+export interface SpeakerVoice {
+    speaker: string;
+    voice: string;
+}
+
+export interface SpeechRequest {
+    text: string;
+    /** One of the provider's `voices`; the provider default when omitted. */
+    voice?: string;
+    /** For dialogue text whose lines start with "Speaker:" labels; takes precedence over `voice`. */
+    speakers?: SpeakerVoice[];
+    signal?: AbortSignal;
+}
+
+export interface VoiceOption {
+    id: string;
+    /** Short description of how the voice sounds. */
+    description: string;
+}
+
+/**
+ * A backend that can run the app's model operations.
+ * `streamText` yields text deltas as they arrive; concatenated they equal the `generateText` result.
+ * `generateSpeech` must resolve to base64-encoded 16-bit little-endian mono PCM at 24 kHz.
+ * All methods reject with an `AbortError` once the request's `signal` aborts.
+ */
+export interface ModelProvider {
+    readonly name: ProviderName;
+    readonly label: string;
+    readonly voices: VoiceOption[];
+    readonly defaultVoice: string;
+    /** The model each operation runs on, overrides included. */
+    readonly models: Record<ModelOperation, string>;
+    generateText(request: TextRequest): Promise<string>;
+    streamText(request: TextRequest): AsyncIterable<string>;
+    generateSpeech(request: SpeechRequest): Promise<string>;
+}
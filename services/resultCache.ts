@@ -0,0 +1,125 @@
+import { SourcedText } from '../types';
+import { createDatabase, promisify, runTransaction } from './indexedDb';
+import { loadSettings } from './settings';
+
+// Kept apart from the session library, so clearing one never touches the other.
+const DB_NAME = 'text-explainer-cache';
+const DB_VERSION = 1;
+const ENTRIES = 'entries';
+// Sizes and access times live in their own store, so eviction never has to load the payloads.
+const META = 'meta';
+
+type CachedValue =
+    | { kind: 'text'; result: SourcedText }
+    | { kind: 'audio'; pcm: ArrayBuffer };
+
+interface CacheEntry {
+    key: string;
+    value: CachedValue;
+}
+
+interface CacheMeta {
+    key: string;
+    sizeBytes: number;
+    lastUsedAt: number;
+}
+
+export interface CacheUsage {
+    entries: number;
+    bytes: number;
+}
+
+const openDb = createDatabase(DB_NAME, DB_VERSION, db => {
+    if (!db.objectStoreNames.contains(ENTRIES)) {
+        db.createObjectStore(ENTRIES, { keyPath: 'key' });
+    }
+    if (!db.objectStoreNames.contains(META)) {
+        db.createObjectStore(META, { keyPath: 'key' });
+    }
+});
+
+const withStore = <T>(mode: IDBTransactionMode, run: (tx: IDBTransaction) => Promise<T>): Promise<T> =>
+    runTransaction(openDb(), [ENTRIES, META], mode, run);
+
+const budgetBytes = (): number => Math.max(0, loadSettings().cacheBudgetMb) * 1024 * 1024;
+
+const sizeOf = (value: CachedValue): number =>
+    // UTF-16 in memory is a fair upper bound for what IndexedDB stores for text.
+    value.kind === 'audio' ? value.pcm.byteLength : JSON.stringify(value.result).length * 2;
+
+/** The cache only saves money, so a failing database is logged and treated as a miss. */
+const safely = async <T>(fallback: T, action: () => Promise<T>): Promise<T> => {
+    try {
+        return await action();
+    } catch (error) {
+        console.error("Result cache unavailable", error);
+        return fallback;
+    }
+};
+
+/** Looks an entry up and marks it as just used. */
+const read = (key: string): Promise<CachedValue | undefined> => safely(undefined, async () => {
+    if (budgetBytes() === 0) return undefined;
+    return withStore('readwrite', async tx => {
+        const entry = await promisify(tx.objectStore(ENTRIES).get(key) as IDBRequest<CacheEntry | undefined>);
+        if (!entry) return undefined;
+        const meta: CacheMeta = { key, sizeBytes: sizeOf(entry.value), lastUsedAt: Date.now() };
+        tx.objectStore(META).put(meta);
+        return entry.value;
+    });
+});
+
+/** Drops the least recently used entries until the cache fits its budget again. */
+const evict = async (budget: number): Promise<void> => {
+    await withStore('readwrite', async tx => {
+        const metas = await promisify(tx.objectStore(META).getAll() as IDBRequest<CacheMeta[]>);
+        let total = metas.reduce((sum, meta) => sum + meta.sizeBytes, 0);
+        for (const meta of metas.sort((a, b) => a.lastUsedAt - b.lastUsedAt)) {
+            if (total <= budget) break;
+            tx.objectStore(ENTRIES).delete(meta.key);
+            tx.objectStore(META).delete(meta.key);
+            total -= meta.sizeBytes;
+        }
+    });
+};
+
+const write = (key: string, value: CachedValue): Promise<void> => safely(undefined, async () => {
+    const budget = budgetBytes();
+    if (budget === 0) return;
+    const entry: CacheEntry = { key, value };
+    const meta: CacheMeta = { key, sizeBytes: sizeOf(value), lastUsedAt: Date.now() };
+    await withStore('readwrite', async tx => {
+        tx.objectStore(ENTRIES).put(entry);
+        tx.objectStore(META).put(meta);
+    });
+    await evict(budget);
+});
+
+export const getCachedText = async (key: string): Promise<SourcedText | undefined> => {
+    const value = await read(key);
+    return value?.kind === 'text' ? value.result : undefined;
+};
+
+export const putCachedText = (key: string, result: SourcedText): Promise<void> => write(key, { kind: 'text', result });
+
+/** Raw PCM as the speech model returned it. */
+export const getCachedAudio = async (key: string): Promise<Uint8Array | undefined> => {
+    const value = await read(key);
+    return value?.kind === 'audio' ? new Uint8Array(value.pcm) : undefined;
+};
+
+export const putCachedAudio = (key: string, pcm: Uint8Array): Promise<void> =>
+    write(key, { kind: 'audio', pcm: pcm.slice().buffer });
+
+export const getCacheUsage = (): Promise<CacheUsage> => safely({ entries: 0, bytes: 0 }, () => withStore('readonly', async tx => {
+    const metas = await promisify(tx.objectStore(META).getAll() as IDBRequest<CacheMeta[]>);
+    return { entries: metas.length, bytes: metas.reduce((sum, meta) => sum + meta.sizeBytes, 0) };
+}));
+
+export const clearCache = (): Promise<void> => safely(undefined, () => withStore('readwrite', async tx => {
+    tx.objectStore(ENTRIES).clear();
+    tx.objectStore(META).clear();
+}));
+
+/** Applies a lowered budget right away rather than at the next write. */
+export const trimCache = (): Promise<void> => safely(undefined, () => evict(budgetBytes()));
@@ -0,0 +1,46 @@
+import { classifyError, ServiceError } from './errors';
+import { abortableDelay, isAbortError } from '../utils/abort';
+
+export interface RetryOptions {
+    signal?: AbortSignal;
+    /** Attempts after the first one. */
+    retries?: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    onRetry?: (error: ServiceError, attempt: number, delayMs: number) => void;
+}
+
+const DEFAULT_RETRIES = 3;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 20000;
+
+/**
+ * Runs `operation`, retrying transient and rate-limit failures with
+ * exponential backoff and full jitter. A server-suggested retry delay takes
+ * precedence. Non-retryable errors are rethrown at once as classified
+ * `ServiceError`s; aborts are rethrown unchanged and also cut a wait short.
+ */
+export async function withRetry<T>(operation: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+    const {
+        signal,
+        retries = DEFAULT_RETRIES,
+        baseDelayMs = DEFAULT_BASE_DELAY_MS,
+        maxDelayMs = DEFAULT_MAX_DELAY_MS,
+        onRetry,
+    } = options;
+
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await operation();
+        } catch (error) {
+            if (isAbortError(error)) throw error;
+            const classified = classifyError(error);
+            if (!classified.retryable || attempt >= retries) throw classified;
+            const backoff = Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+            const delayMs = Math.min(maxDelayMs, classified.retryAfterMs ?? backoff);
+            console.warn(`Retrying after ${classified.name} (attempt ${attempt + 1} of ${retries}) in ${Math.round(delayMs)} ms`, error);
+            onRetry?.(classified, attempt + 1, delayMs);
+            await abortableDelay(delayMs, signal);
+        }
+    }
+}
@@ -0,0 +1,216 @@
+import { Session, SessionAudio } from '../types';
+import { t } from '../i18n';
+import { createDatabase, promisify, runTransaction } from './indexedDb';
+
+const DB_NAME = 'text-explainer';
+const DB_VERSION = 1;
+const SESSIONS = 'sessions';
+const AUDIO = 'audio';
+
+// Sessions beyond this total are evicted oldest-first: audio before text, pinned ones never.
+export const STORAGE_BUDGET_BYTES = 200 * 1024 * 1024;
+
+const LEGACY_HISTORY_KEY = 'textHistory';
+
+const openDb = createDatabase(DB_NAME, DB_VERSION, db => {
+    if (!db.objectStoreNames.contains(SESSIONS)) {
+        db.createObjectStore(SESSIONS, { keyPath: 'id' });
+    }
+    if (!db.objectStoreNames.contains(AUDIO)) {
+        db.createObjectStore(AUDIO, { keyPath: 'sessionId' });
+    }
+});
+
+const withStore = <T>(storeNames: string | string[], mode: IDBTransactionMode, run: (tx: IDBTransaction) => Promise<T>): Promise<T> =>
+    runTransaction(openDb(), storeNames, mode, run);
+
+const isQuotaError = (error: unknown) => error instanceof DOMException && error.name === 'QuotaExceededError';
+
+const estimateSessionBytes = (session: Session, audioBytes: number): number =>
+    // UTF-16 in memory is a fair upper bound for what IndexedDB stores for text.
+    JSON.stringify({ ...session, sizeBytes: 0 }).length * 2 + audioBytes;
+
+export const createSessionId = (): string =>
+    typeof crypto !== 'undefined' && 'randomUUID' in crypto
+        ? crypto.randomUUID()
+        : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+export const defaultSessionName = (inputText: string): string => {
+    const firstLine = inputText.trim().split('\n')[0] ?? '';
+    return firstLine.length > 60 ? `${firstLine.slice(0, 60)}…` : firstLine || t('library.untitled');
+};
+
+/** All sessions without audio, pinned first, then most recently updated. */
+export const listSessions = async (): Promise<Session[]> => {
+    const sessions = await withStore(SESSIONS, 'readonly', tx => promisify(tx.objectStore(SESSIONS).getAll() as IDBRequest<Session[]>));
+    return sessions.sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.updatedAt - a.updatedAt);
+};
+
+export const getSession = async (id: string): Promise<Session | undefined> =>
+    withStore(SESSIONS, 'readonly', tx => promisify(tx.objectStore(SESSIONS).get(id) as IDBRequest<Session | undefined>));
+
+export const getSessionAudio = async (id: string): Promise<SessionAudio | undefined> =>
+    withStore(AUDIO, 'readonly', tx => promisify(tx.objectStore(AUDIO).get(id) as IDBRequest<SessionAudio | undefined>));
+
+/**
+ * Applies `patch` to a session inside `tx`, reading and writing it in the
+ * same transaction. Transactions on a store run one after another, so
+ * updates started together can't overwrite each other's fields.
+ */
+const patchSession = async (tx: IDBTransaction, id: string, patch: Partial<Omit<Session, 'id'>>): Promise<Session | undefined> => {
+    const session = await promisify(tx.objectStore(SESSIONS).get(id) as IDBRequest<Session | undefined>);
+    if (!session) return undefined;
+    const next = { ...session, ...patch };
+    const audio = next.hasAudio ? await promisify(tx.objectStore(AUDIO).get(id) as IDBRequest<SessionAudio | undefined>) : undefined;
+    const saved = { ...next, sizeBytes: estimateSessionBytes(next, audio?.pcm.byteLength ?? 0) };
+    tx.objectStore(SESSIONS).put(saved);
+    return saved;
+};
+
+/** Evicts old, unpinned data until the library fits in `budgetBytes`. Returns the bytes in use afterwards. */
+export const enforceStorageBudget = async (budgetBytes = STORAGE_BUDGET_BYTES): Promise<number> => {
+    const sessions = await listSessions();
+    let used = sessions.reduce((sum, session) => sum + session.sizeBytes, 0);
+    if (used <= budgetBytes) return used;
+
+    const evictable = sessions.filter(session => !session.pinned).sort((a, b) => a.updatedAt - b.updatedAt);
+    await withStore([SESSIONS, AUDIO], 'readwrite', async tx => {
+        // Audio is by far the largest part, so drop it everywhere before dropping any session.
+        for (const session of evictable) {
+            if (used <= budgetBytes) return;
+            if (!session.hasAudio) continue;
+            tx.objectStore(AUDIO).delete(session.id);
+            // Patched as stored now, not as listed above, so fields updated in between are kept.
+            const saved = await patchSession(tx, session.id, { hasAudio: false });
+            used -= session.sizeBytes - (saved?.sizeBytes ?? 0);
+        }
+        for (const session of evictable) {
+            if (used <= budgetBytes) return;
+            used -= session.sizeBytes;
+            tx.objectStore(SESSIONS).delete(session.id);
+        }
+    });
+    return used;
+};
+
+/** Retries a write once after freeing space when the browser reports the quota is exhausted. */
+const withQuotaRetry = async <T>(write: () => Promise<T>): Promise<T> => {
+    try {
+        return await write();
+    } catch (error) {
+        if (!isQuotaError(error)) throw error;
+        const used = (await listSessions()).reduce((sum, session) => sum + session.sizeBytes, 0);
+        await enforceStorageBudget(Math.floor(used / 2));
+        return write();
+    }
+};
+
+export const saveSession = async (session: Session): Promise<Session> => {
+    const audio = session.hasAudio ? await getSessionAudio(session.id) : undefined;
+    const saved = { ...session, sizeBytes: estimateSessionBytes(session, audio?.pcm.byteLength ?? 0) };
+    await withQuotaRetry(() => withStore(SESSIONS, 'readwrite', async tx => {
+        tx.objectStore(SESSIONS).put(saved);
+    }));
+    return saved;
+};
+
+/** Applies `patch` to a stored session and bumps its `updatedAt` unless the patch sets it. */
+export const updateSession = async (id: string, patch: Partial<Omit<Session, 'id'>>): Promise<Session | undefined> => {
+    const updatedAt = patch.updatedAt ?? Date.now();
+    return withQuotaRetry(() => withStore([SESSIONS, AUDIO], 'readwrite', tx => patchSession(tx, id, { ...patch, updatedAt })));
+};
+
+export const saveSessionAudio = async (audio: SessionAudio): Promise<void> => {
+    const updatedAt = Date.now();
+    const saved = await withQuotaRetry(() => withStore([SESSIONS, AUDIO], 'readwrite', async tx => {
+        // The session may have been deleted while its audio was being synthesized.
+        if (await promisify(tx.objectStore(SESSIONS).getKey(audio.sessionId)) === undefined) return false;
+        tx.objectStore(AUDIO).put(audio);
+        await patchSession(tx, audio.sessionId, { hasAudio: true, updatedAt });
+        return true;
+    }));
+    if (saved) {
+        await enforceStorageBudget();
+    }
+};
+
+export const deleteSessionAudio = async (id: string): Promise<void> => {
+    await withStore([SESSIONS, AUDIO], 'readwrite', async tx => {
+        tx.objectStore(AUDIO).delete(id);
+        await patchSession(tx, id, { hasAudio: false });
+    });
+};
+
+/** Drops the audio of unpinned sessions beyond the `keepRecent` most recently updated ones. */
+export const pruneOldAudio = async (keepRecent = 5): Promise<void> => {
+    const stale = (await listSessions())
+        .filter(session => !session.pinned)
+        .slice(keepRecent)
+        .filter(session => session.hasAudio);
+    for (const session of stale) {
+        await deleteSessionAudio(session.id);
+    }
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+    await withStore([SESSIONS, AUDIO], 'readwrite', async tx => {
+        tx.objectStore(SESSIONS).delete(id);
+        tx.objectStore(AUDIO).delete(id);
+    });
+};
+
+export interface StorageUsage {
+    /** Bytes used by the session library, by our own accounting. */
+    libraryBytes: number;
+    budgetBytes: number;
+    /** What the browser reports for the whole origin, when available. */
+    originUsage?: number;
+    originQuota?: number;
+}
+
+export const getStorageUsage = async (): Promise<StorageUsage> => {
+    const sessions = await listSessions();
+    const estimate = await navigator.storage?.estimate?.().catch(() => undefined);
+    return {
+        libraryBytes: sessions.reduce((sum, session) => sum + session.sizeBytes, 0),
+        budgetBytes: STORAGE_BUDGET_BYTES,
+        originUsage: estimate?.usage,
+        originQuota: estimate?.quota,
+    };
+};
+
+/**
+ * One-time import of the old string-only history from localStorage, so
+ * earlier inputs show up in the library. Also asks the browser to keep the
+ * library when it is under storage pressure.
+ */
+export const initSessionStore = async (): Promise<void> => {
+    await navigator.storage?.persist?.().catch(() => false);
+    const legacy = localStorage.getItem(LEGACY_HISTORY_KEY);
+    if (!legacy) return;
+    try {
+        const texts: string[] = JSON.parse(legacy);
+        const now = Date.now();
+        for (const [index, inputText] of texts.entries()) {
+            await saveSession({
+                id: createSessionId(),
+                name: defaultSessionName(inputText),
+                pinned: false,
+                // Keep the original most-recent-first order.
+                createdAt: now - index,
+                updatedAt: now - index,
+                inputText,
+                tone: '',
+                level: '',
+                sourceChunks: [],
+                sourceReferences: [],
+                qaHistory: [],
+                hasAudio: false,
+                sizeBytes: 0,
+            });
+        }
+        localStorage.removeItem(LEGACY_HISTORY_KEY);
+    } catch (error) {
+        console.error("Failed to migrate history from localStorage", error);
+    }
+};
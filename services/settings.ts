@@ -0,0 +1,102 @@
+import { ModelOverrides } from './providers/types';
+import { DEFAULT_THINKING_BUDGET } from './providers/geminiProvider';
+import { LevelId, ToneId } from '../types';
+import type { SpeechProcessingOptions } from '../utils/audioUtils';
+import type { Locale } from '../i18n';
+
+export const TONES: ToneId[] = ['friendly', 'formal', 'enthusiastic', 'neutral'];
+export const LEVELS: LevelId[] = ['beginner', 'intermediate', 'advanced'];
+
+// Tones and levels used to be stored as their Persian labels.
+const LEGACY_TONES: Record<string, ToneId> = { 'دوستانه': 'friendly', 'رسمی': 'formal', 'مشتاقانه': 'enthusiastic', 'خنثی': 'neutral' };
+const LEGACY_LEVELS: Record<string, LevelId> = { 'مبتدی': 'beginner', 'متوسط': 'intermediate', 'پیشرفته': 'advanced' };
+
+export const isToneId = (value: string): value is ToneId => TONES.some(tone => tone === value);
+
+export const isLevelId = (value: string): value is LevelId => LEVELS.some(level => level === value);
+
+/** Reads a stored tone, accepting identifiers and legacy labels alike. */
+export const toToneId = (value: string | undefined): ToneId =>
+    TONES.find(tone => tone === value) ?? LEGACY_TONES[value ?? ''] ?? TONES[0];
+
+export const toLevelId = (value: string | undefined): LevelId =>
+    LEVELS.find(level => level === value) ?? LEGACY_LEVELS[value ?? ''] ?? LEVELS[0];
+
+/** Like `toToneId`, but keeps a custom tone's text instead of falling back to the default. */
+export const toToneChoice = (value: string | undefined): string =>
+    value?.trim() && !LEGACY_TONES[value] ? value : toToneId(value);
+
+export const toLevelChoice = (value: string | undefined): string =>
+    value?.trim() && !LEGACY_LEVELS[value] ? value : toLevelId(value);
+
+export interface AppSettings {
+    /** Language of the interface; the explanation language is chosen separately per session. */
+    locale: Locale;
+    /** Gemini key entered in the app; takes precedence over the one set at build time. */
+    apiKey: string;
+    models: ModelOverrides;
+    /** Thinking tokens for script writing: 0 turns thinking off, -1 lets the model decide. */
+    thinkingBudget: number;
+    defaultTone: ToneId;
+    defaultLevel: LevelId;
+    /** Empty for the provider's default voice. */
+    defaultVoice: string;
+    /** URL that each feedback submission is also posted to; empty to keep feedback in the browser only. */
+    feedbackEndpoint: string;
+    /** Space the result cache may take up, in megabytes; 0 turns caching off. */
+    cacheBudgetMb: number;
+    /** Cut the silence speech models leave at the start and end of each chunk. */
+    trimSilence: boolean;
+    /** Bring every chunk to the same level, so the narration doesn't get louder or quieter between chunks. */
+    normalizeLoudness: boolean;
+    /** Pause inserted between chunks, in milliseconds. */
+    segmentPauseMs: number;
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+    locale: 'fa',
+    apiKey: '',
+    models: {},
+    thinkingBudget: DEFAULT_THINKING_BUDGET,
+    defaultTone: TONES[0],
+    defaultLevel: LEVELS[0],
+    defaultVoice: '',
+    feedbackEndpoint: '',
+    cacheBudgetMb: 100,
+    trimSilence: true,
+    normalizeLoudness: true,
+    segmentPauseMs: 250,
+};
+
+// About as loud as spoken-word podcasts, with headroom for the peak ceiling.
+const TARGET_LOUDNESS_DB = -20;
+
+/** How each synthesized chunk is processed before it's played and saved. */
+export const speechProcessingOptions = (settings: AppSettings, isLastChunk = false): SpeechProcessingOptions => ({
+    // The rate the player's AudioContext runs at, whatever rate the speech model delivered.
+    sampleRate: 24000,
+    trimSilence: settings.trimSilence,
+    targetLoudnessDb: settings.normalizeLoudness ? TARGET_LOUDNESS_DB : null,
+    pauseSeconds: isLastChunk ? 0 : settings.segmentPauseMs / 1000,
+});
+
+const SETTINGS_KEY = 'settings';
+
+/** Stored settings over the defaults, so settings added later get their default value. */
+export function loadSettings(): AppSettings {
+    try {
+        const stored = localStorage.getItem(SETTINGS_KEY);
+        if (!stored) return DEFAULT_SETTINGS;
+        const settings: AppSettings = { ...DEFAULT_SETTINGS, ...JSON.parse(stored) };
+        return { ...settings, defaultTone: toToneId(settings.defaultTone), defaultLevel: toLevelId(settings.defaultLevel) };
+    } catch (error) {
+        console.error("Failed to read settings", error);
+        return DEFAULT_SETTINGS;
+    }
+}
+
+export function saveSettings(settings: AppSettings): void {
+    // Blank model fields mean "use the default" and are not stored.
+    const models = Object.fromEntries(Object.entries(settings.models).filter(([, model]) => model?.trim()));
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify({ ...settings, models }));
+}
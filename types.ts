@@ -1,9 +1,272 @@
+import type { TimedSentence } from './utils/sentenceTiming';
+import type { TextRange } from './utils/textChunker';
+import type { Locale } from './i18n';
+
 export enum AppState {
     Idle = 'IDLE',
     Analyzing = 'ANALYZING',
+    Streaming = 'STREAMING',
     Synthesizing = 'SYNTHESIZING',
     Playing = 'PLAYING',
+    Paused = 'PAUSED',
     Summarizing = 'SUMMARIZING',
     Answering = 'ANSWERING',
+    GeneratingQuiz = 'GENERATING_QUIZ',
+    ExtractingGlossary = 'EXTRACTING_GLOSSARY',
+    ExplainingSelection = 'EXPLAINING_SELECTION',
+    RegeneratingSection = 'REGENERATING_SECTION',
     Error = 'ERROR',
 }
+
+export type DocumentFormat = 'pdf' | 'docx' | 'html' | 'markdown' | 'text';
+
+/** A page (PDF) or heading-delimited section (other formats) of an imported file. */
+export interface DocumentSection {
+    title: string;
+    text: string;
+}
+
+export interface ImportedDocument {
+    fileName: string;
+    format: DocumentFormat;
+    sections: DocumentSection[];
+}
+
+/** A slice of the input processed on its own when the input is too long for one prompt. */
+export interface SourceChunk {
+    index: number;
+    /** Character range in the original input. */
+    start: number;
+    end: number;
+}
+
+/** A paragraph of a generated result and the source chunks it was drawn from. */
+export interface SourceReference {
+    paragraph: string;
+    chunkIndexes: number[];
+}
+
+export type ChunkStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface ChunkProgress {
+    stage: 'map' | 'combine';
+    statuses: ChunkStatus[];
+}
+
+export interface SourcedText {
+    text: string;
+    /** Empty when the input fit in a single prompt. */
+    chunks: SourceChunk[];
+    references: SourceReference[];
+    /** Set when the result was read back from the local result cache rather than generated. */
+    fromCache?: boolean;
+}
+
+/** A passage of the input that supports an answer, located by character range. */
+export interface Citation {
+    quote: string;
+    start: number;
+    end: number;
+}
+
+export interface ChatMessage {
+    role: 'user' | 'model';
+    text: string;
+    /** Set on model replies once complete. */
+    citations?: Citation[];
+    foundInText?: boolean;
+}
+
+/** What a Q&A conversation is about: the input plus the generated result it follows, if any. */
+export interface ChatContext {
+    sourceText: string;
+    result?: { kind: ResultKind; text: string };
+}
+
+export interface SessionRating {
+    stars: number;
+    comment: string;
+}
+
+/** The settings a result was generated with, recorded so ratings can be compared across them. */
+export interface PromptParams {
+    kind: ResultKind;
+    language: Locale;
+    provider: string;
+    model: string;
+    /** Scripts only; summaries don't take a tone, level, template or voice. A `ToneId` or a custom tone. */
+    tone?: string;
+    /** A `LevelId` or a custom audience profile. */
+    level?: string;
+    format?: ScriptFormat;
+    /** Name of the user template the script was written from; missing for the built-in one. */
+    template?: string;
+    /** The narrator's voice, or the hosts' voices joined with " + " for a dialogue. */
+    voice?: string;
+}
+
+/** A rating of one generated result, kept with the result itself and what produced it. */
+export interface FeedbackEntry {
+    id: string;
+    createdAt: number;
+    sessionId: string | null;
+    stars: number;
+    comment: string;
+    params: PromptParams;
+    output: string;
+}
+
+export type FeedbackExportFormat = 'json' | 'csv';
+
+/**
+ * Everything needed to reopen a piece of work. Audio lives in a separate
+ * store (see `SessionAudio`) so the library can be listed without loading it.
+ */
+export interface Session {
+    id: string;
+    name: string;
+    pinned: boolean;
+    createdAt: number;
+    updatedAt: number;
+    inputText: string;
+    /** A `ToneId`, a custom tone, or a Persian tone label in sessions saved before tones had identifiers. */
+    tone: string;
+    /** A `LevelId`, a custom audience profile, or a Persian label in older sessions. */
+    level: string;
+    /** The user template scripts are written from; the built-in one when missing. */
+    templateId?: string;
+    /** Language the results were written in; Persian when missing. */
+    language?: Locale;
+    scriptFormat?: ScriptFormat;
+    script?: string;
+    summary?: string;
+    /** Which result was produced last and is shown on reopen. */
+    activeResult?: ResultKind;
+    sourceChunks: SourceChunk[];
+    sourceReferences: SourceReference[];
+    qaHistory: ChatMessage[];
+    quiz?: QuizQuestion[];
+    glossary?: GlossaryTerm[];
+    annotations?: Annotation[];
+    /** What the shown result was generated with. */
+    resultParams?: PromptParams;
+    rating?: SessionRating;
+    hasAudio: boolean;
+    /** Approximate bytes used by this session, including its audio. */
+    sizeBytes: number;
+}
+
+export interface SessionAudio {
+    sessionId: string;
+    sampleRate: number;
+    numChannels: number;
+    /** Interleaved 16-bit little-endian PCM. */
+    pcm: ArrayBuffer;
+    sentenceTimings: TimedSentence[];
+}
+
+export type ExportFormat = 'script' | 'mp3' | 'wav' | 'srt' | 'vtt';
+
+export type BatchItemStatus = 'queued' | 'scripting' | 'narrating' | 'done' | 'failed';
+
+/** A text queued for the audiobook; the items become its chapters in queue order. */
+export interface BatchItem {
+    id: string;
+    title: string;
+    text: string;
+    status: BatchItemStatus;
+    script?: string;
+    audio?: AudioBuffer;
+    /** Why the last attempt failed. */
+    error?: string;
+}
+
+export type ScriptFormat = 'monologue' | 'dialogue';
+
+/** Locale-independent tone identifiers; UI labels and prompt wording are looked up per language. */
+export type ToneId = 'friendly' | 'formal' | 'enthusiastic' | 'neutral';
+
+export type LevelId = 'beginner' | 'intermediate' | 'advanced';
+
+export type ResultKind = 'script' | 'summary';
+
+export type QuizQuestionType = 'multiple-choice' | 'true-false' | 'short-answer';
+
+export interface QuizQuestion {
+    id: string;
+    type: QuizQuestionType;
+    question: string;
+    /** The choices of a multiple-choice question; empty for the other types. */
+    options: string[];
+    /** One of `options`, `'true'`/`'false'`, or the expected short answer. */
+    answer: string;
+    explanation: string;
+}
+
+export type QuizExportFormat = 'json' | 'csv';
+
+/** A question-and-answer card with its SM-2 review schedule. */
+export interface Flashcard {
+    id: string;
+    front: string;
+    back: string;
+    createdAt: number;
+    /** When the card is next due for review. */
+    dueAt: number;
+    /** Days until the following review after a successful one. */
+    intervalDays: number;
+    easeFactor: number;
+    /** Successful reviews in a row; a lapse starts the count over. */
+    repetitions: number;
+}
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+/** A key term of the input with a short definition. */
+export interface GlossaryTerm {
+    /** Spelled as in the input, which may be in another language than the definition. */
+    term: string;
+    definition: string;
+    /** Where the term occurs in the input, in order. */
+    occurrences: TextRange[];
+}
+
+export type SelectionAction = 'explain' | 'simplify' | 'example' | 'translate';
+
+/** A note on a span the user selected, anchored to that span of the input or the shown result. */
+export interface Annotation {
+    id: string;
+    target: 'input' | 'result';
+    start: number;
+    end: number;
+    /** The selected text, used to find the span again after the text changes. */
+    quote: string;
+    action: SelectionAction;
+    text: string;
+    /** Language `text` is written in, which for translations may differ from the explanation language. */
+    language: Locale;
+    createdAt: number;
+}
+
+/**
+ * A script prompt with `{text}`, `{tone}`, `{level}` and `{notes}`
+ * placeholders. It is written in the language of the scripts it produces.
+ */
+export interface PromptTemplate {
+    id: string;
+    name: string;
+    language: Locale;
+    format: ScriptFormat;
+    body: string;
+    /** Shipped with the app; can be copied but not changed. */
+    builtIn?: boolean;
+}
+
+/** What the user added on top of the built-in templates, tones and levels. */
+export interface PromptLibrary {
+    templates: PromptTemplate[];
+    /** Custom tones, used in prompts as written. */
+    tones: string[];
+    /** Audience profiles such as "high-school physics student", offered as levels. */
+    audiences: string[];
+}
@@ -0,0 +1,91 @@
+import { AppState } from '../types';
+
+/** `audio` narrates an existing script again without regenerating it. */
+export type FlowOperation = 'script' | 'audio' | 'summary' | 'chat' | 'quiz' | 'glossary' | 'selection' | 'section';
+
+export interface FlowRun {
+    id: number;
+    operation: FlowOperation;
+}
+
+export interface FlowState {
+    status: AppState;
+    /** The operation in flight, or null once it succeeded, failed or was cancelled. */
+    run: FlowRun | null;
+}
+
+/**
+ * Events that carry a `runId` belong to one run of an operation. They are
+ * ignored unless that run is still the active one, so a late response from a
+ * superseded or cancelled run can never move the app out of a newer state.
+ */
+export type FlowEvent =
+    | { type: 'START'; runId: number; operation: FlowOperation }
+    | { type: 'STREAM'; runId: number }
+    | { type: 'SYNTHESIZE'; runId: number }
+    | { type: 'AUDIO_READY'; runId: number }
+    | { type: 'SUCCEED'; runId: number }
+    | { type: 'FAIL'; runId: number }
+    | { type: 'CANCEL'; runId: number }
+    | { type: 'REJECT_INPUT' }
+    | { type: 'RESET' }
+    | { type: 'PLAY' }
+    | { type: 'PAUSE' }
+    | { type: 'STOP' };
+
+export const initialFlowState: FlowState = { status: AppState.Idle, run: null };
+
+const START_STATUS: Record<FlowOperation, AppState> = {
+    script: AppState.Analyzing,
+    audio: AppState.Synthesizing,
+    summary: AppState.Summarizing,
+    chat: AppState.Answering,
+    quiz: AppState.GeneratingQuiz,
+    glossary: AppState.ExtractingGlossary,
+    selection: AppState.ExplainingSelection,
+    section: AppState.RegeneratingSection,
+};
+
+// Which statuses each run event may leave; anything else is an out-of-order event and is dropped.
+const RUN_TRANSITIONS: Partial<Record<FlowEvent['type'], { from: AppState[]; to: AppState }>> = {
+    STREAM: { from: [AppState.Analyzing, AppState.Summarizing, AppState.Streaming], to: AppState.Streaming },
+    SYNTHESIZE: { from: [AppState.Analyzing, AppState.Streaming, AppState.RegeneratingSection], to: AppState.Synthesizing },
+    AUDIO_READY: { from: [AppState.Synthesizing], to: AppState.Playing },
+};
+
+const isPlayback = (status: AppState) => status === AppState.Playing || status === AppState.Paused;
+
+/** Status to fall back to when playback stops: back to synthesizing if the narration is still being generated. */
+const idleStatus = (run: FlowRun | null) => (run?.operation === 'script' || run?.operation === 'audio' || run?.operation === 'section' ? AppState.Synthesizing : AppState.Idle);
+
+export function flowReducer(state: FlowState, event: FlowEvent): FlowState {
+    if ('runId' in event && event.type !== 'START' && event.runId !== state.run?.id) {
+        return state;
+    }
+
+    switch (event.type) {
+        case 'START':
+            return { status: START_STATUS[event.operation], run: { id: event.runId, operation: event.operation } };
+        case 'STREAM':
+        case 'SYNTHESIZE':
+        case 'AUDIO_READY': {
+            const transition = RUN_TRANSITIONS[event.type]!;
+            return transition.from.includes(state.status) ? { ...state, status: transition.to } : state;
+        }
+        case 'SUCCEED':
+        case 'CANCEL':
+            // Audio that is already playing keeps playing when its synthesis ends or is cancelled.
+            return { status: isPlayback(state.status) ? state.status : AppState.Idle, run: null };
+        case 'FAIL':
+        case 'REJECT_INPUT':
+            return { status: AppState.Error, run: null };
+        case 'RESET':
+            return initialFlowState;
+        case 'PLAY':
+            return state.status === AppState.Playing ? state : { ...state, status: AppState.Playing };
+        case 'PAUSE':
+            return state.status === AppState.Playing ? { ...state, status: AppState.Paused } : state;
+        case 'STOP':
+            return isPlayback(state.status) ? { ...state, status: idleStatus(state.run) } : state;
+    }
+}
@@ -0,0 +1,108 @@
+import { floatTo16BitPCM } from './audioUtils';
+
+export interface AudioMetadata {
+    title: string;
+    artist?: string;
+    album?: string;
+    /** Where the narration came from, e.g. an excerpt of the input text. */
+    source?: string;
+}
+
+export interface Mp3Options {
+    /** Constant bitrate in kbps; speech at 24 kHz stays clear at 48–64. */
+    bitrate?: number;
+    metadata?: AudioMetadata;
+    /** Reports encoding progress from 0 to 1. */
+    onProgress?: (fraction: number) => void;
+}
+
+// Samples handed to the encoder per call; a multiple of the MP3 frame size.
+const SAMPLES_PER_FRAME = 1152;
+// Frames encoded between yields to the event loop, so long narrations don't freeze the UI.
+const FRAMES_PER_SLICE = 200;
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+    const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+};
+
+/** ID3v2 sizes store 7 bits per byte so they never look like an MPEG sync word. */
+const syncSafe = (size: number): number[] => [(size >> 21) & 0x7F, (size >> 14) & 0x7F, (size >> 7) & 0x7F, size & 0x7F];
+
+/** UTF-16 with BOM (ID3v2.3 encoding 1), the only v2.3 encoding that can hold Persian text. */
+const utf16WithBom = (text: string): number[] => {
+    const bytes = [0xFF, 0xFE];
+    for (let i = 0; i < text.length; i++) {
+        const code = text.charCodeAt(i);
+        bytes.push(code & 0xFF, code >> 8);
+    }
+    return bytes;
+};
+
+const id3Frame = (id: string, body: number[]): number[] => {
+    const size = body.length;
+    return [
+        ...Array.from(id, char => char.charCodeAt(0)),
+        (size >> 24) & 0xFF, (size >> 16) & 0xFF, (size >> 8) & 0xFF, size & 0xFF,
+        0, 0,
+        ...body,
+    ];
+};
+
+const textFrame = (id: string, text: string) => id3Frame(id, [1, ...utf16WithBom(text)]);
+
+/** COMM frame: encoding, language, a short description, then the text. */
+const commentFrame = (description: string, text: string) =>
+    id3Frame('COMM', [1, ...Array.from('per', char => char.charCodeAt(0)), ...utf16WithBom(description), 0, 0, ...utf16WithBom(text)]);
+
+/** Builds an ID3v2.3 tag to prepend to an MP3 stream. */
+export function buildId3Tag(metadata: AudioMetadata): Uint8Array {
+    const frames: number[] = [...textFrame('TIT2', metadata.title)];
+    if (metadata.artist) frames.push(...textFrame('TPE1', metadata.artist));
+    if (metadata.album) frames.push(...textFrame('TALB', metadata.album));
+    if (metadata.source) frames.push(...commentFrame('source', metadata.source));
+    return new Uint8Array([
+        ...Array.from('ID3', char => char.charCodeAt(0)),
+        3, 0, // version 2.3.0
+        0,
+        ...syncSafe(frames.length),
+        ...frames,
+    ]);
+}
+
+/**
+ * Encodes an AudioBuffer to a constant-bitrate MP3 in the browser, with an
+ * optional ID3v2 tag. Mono and stereo buffers are supported; the encoder is
+ * loaded on first use to keep it out of the main bundle.
+ */
+export async function encodeMp3(buffer: AudioBuffer, options: Mp3Options = {}): Promise<Blob> {
+    const { Mp3Encoder } = await import('@breezystack/lamejs');
+    const numChannels = Math.min(2, buffer.numberOfChannels);
+    const encoder = new Mp3Encoder(numChannels, buffer.sampleRate, options.bitrate ?? 64);
+    const left = floatTo16BitPCM(buffer.getChannelData(0));
+    const right = numChannels === 2 ? floatTo16BitPCM(buffer.getChannelData(1)) : undefined;
+
+    const parts: Uint8Array[] = [];
+    if (options.metadata) {
+        parts.push(buildId3Tag(options.metadata));
+    }
+    const sliceLength = SAMPLES_PER_FRAME * FRAMES_PER_SLICE;
+    for (let offset = 0; offset < left.length; offset += sliceLength) {
+        for (let frame = offset; frame < Math.min(left.length, offset + sliceLength); frame += SAMPLES_PER_FRAME) {
+            const encoded = encoder.encodeBuffer(
+                left.subarray(frame, frame + SAMPLES_PER_FRAME),
+                right?.subarray(frame, frame + SAMPLES_PER_FRAME),
+            );
+            if (encoded.length > 0) parts.push(encoded);
+        }
+        options.onProgress?.(Math.min(1, (offset + sliceLength) / left.length));
+        await new Promise(resolve => setTimeout(resolve, 0));
+    }
+    parts.push(encoder.flush());
+    return new Blob([concatBytes(parts)], { type: 'audio/mpeg' });
+}
@@ -9,28 +9,315 @@ export function decode(base64: string): Uint8Array {
   return bytes;
 }
 
+export function encode(bytes: Uint8Array): string {
+  let binary = '';
+  const len = bytes.byteLength;
+  for (let i = 0; i < len; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Interleaved 16-bit little-endian PCM to an AudioBuffer. The bytes may be a
+ * view starting at any offset of a larger buffer, and a stream cut off
+ * mid-sample is read up to its last whole frame.
+ */
 export async function decodeAudioData(
   data: Uint8Array,
-  ctx: AudioContext,
+  ctx: BaseAudioContext,
   sampleRate: number,
   numChannels: number,
 ): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
+  // An Int16Array over `data.buffer` would ignore `byteOffset` and throw on odd offsets or lengths.
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const frameCount = Math.floor(data.byteLength / (2 * numChannels));
+  // A buffer can't be empty, so a chunk without samples becomes one silent frame.
+  const buffer = ctx.createBuffer(numChannels, Math.max(1, frameCount), sampleRate);
 
   for (let channel = 0; channel < numChannels; channel++) {
     const channelData = buffer.getChannelData(channel);
     for (let i = 0; i < frameCount; i++) {
-      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
+      channelData[i] = view.getInt16((i * numChannels + channel) * 2, true) / 32768.0;
     }
   }
   return buffer;
 }
 
+// Windows shorter than a syllable, so trimming and ducking follow the speech closely.
+const ANALYSIS_WINDOW_SECONDS = 0.01;
+// Quieter than this counts as silence: well above the noise floor of synthesized speech, well below speech itself.
+const SILENCE_THRESHOLD_DB = -45;
+// Kept around trimmed speech so the first and last sounds aren't clipped.
+const TRIM_PADDING_SECONDS = 0.05;
+// Loudness blocks, and the level below which a block is left out of the average.
+const LOUDNESS_BLOCK_SECONDS = 0.1;
+const LOUDNESS_GATE_DB = -50;
+// Normalization never pushes a peak above this.
+const PEAK_CEILING_DB = -1;
+
+const toDb = (meanSquare: number): number => (meanSquare > 0 ? 10 * Math.log10(meanSquare) : -Infinity);
+
+const fromDb = (db: number): number => Math.pow(10, db / 20);
+
+/** Mean square over all channels of frames `[from, to)`. */
+const meanSquare = (buffer: AudioBuffer, from: number, to: number): number => {
+  let sum = 0;
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = from; i < to; i++) {
+      sum += data[i] * data[i];
+    }
+  }
+  return sum / Math.max(1, (to - from) * buffer.numberOfChannels);
+};
+
+const peakLevel = (buffer: AudioBuffer, from: number, to: number): number => {
+  let peak = 0;
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = from; i < to; i++) {
+      peak = Math.max(peak, Math.abs(data[i]));
+    }
+  }
+  return peak;
+};
+
+/** Start and end frame of each analysis window above the silence threshold, in order. */
+const soundWindows = (buffer: AudioBuffer): [number, number][] => {
+  const size = Math.max(1, Math.round(ANALYSIS_WINDOW_SECONDS * buffer.sampleRate));
+  const windows: [number, number][] = [];
+  for (let from = 0; from < buffer.length; from += size) {
+    const to = Math.min(buffer.length, from + size);
+    if (toDb(meanSquare(buffer, from, to)) > SILENCE_THRESHOLD_DB) {
+      windows.push([from, to]);
+    }
+  }
+  return windows;
+};
+
+/** The frames between the first and last sound, with a little padding; empty for a silent buffer. */
+export function findSoundBounds(buffer: AudioBuffer): { start: number; end: number } {
+  const windows = soundWindows(buffer);
+  if (windows.length === 0) return { start: 0, end: 0 };
+  const padding = Math.round(TRIM_PADDING_SECONDS * buffer.sampleRate);
+  return {
+    start: Math.max(0, windows[0][0] - padding),
+    end: Math.min(buffer.length, windows[windows.length - 1][1] + padding),
+  };
+}
+
+/**
+ * Average level of frames `[from, to)` in dBFS, leaving out near-silent
+ * blocks so pauses don't make a passage seem quieter than it sounds.
+ */
+export function measureLoudness(buffer: AudioBuffer, from = 0, to = buffer.length): number {
+  const size = Math.max(1, Math.round(LOUDNESS_BLOCK_SECONDS * buffer.sampleRate));
+  let sum = 0;
+  let blocks = 0;
+  for (let start = from; start < to; start += size) {
+    const level = meanSquare(buffer, start, Math.min(to, start + size));
+    if (toDb(level) > LOUDNESS_GATE_DB) {
+      sum += level;
+      blocks++;
+    }
+  }
+  return blocks > 0 ? toDb(sum / blocks) : -Infinity;
+}
+
+/** Gain that brings frames `[from, to)` to `targetDb`, limited so no peak clips. */
+const normalizationGain = (buffer: AudioBuffer, targetDb: number, from: number, to: number): number => {
+  const loudness = measureLoudness(buffer, from, to);
+  const peak = peakLevel(buffer, from, to);
+  if (!Number.isFinite(loudness) || peak === 0) return 1;
+  return Math.min(fromDb(targetDb - loudness), fromDb(PEAK_CEILING_DB) / peak);
+};
+
+export interface SpeechProcessingOptions {
+  /** Output sample rate; the segment's own by default. */
+  sampleRate?: number;
+  /** Cut leading and trailing silence. */
+  trimSilence?: boolean;
+  /** Level in dBFS every segment is brought to, so chunks sound equally loud; null leaves the level alone. */
+  targetLoudnessDb?: number | null;
+  /** Silence appended after the segment, in seconds. */
+  pauseSeconds?: number;
+}
+
+export interface ProcessedSegment {
+  buffer: AudioBuffer;
+  /** Length of the speech in `buffer`, without the appended pause. */
+  speechDuration: number;
+}
+
+/**
+ * Trims, normalizes and resamples one segment of speech and appends a pause,
+ * rendered offline so the result is the same whatever plays it later.
+ */
+export async function processSpeechSegment(segment: AudioBuffer, options: SpeechProcessingOptions = {}): Promise<ProcessedSegment> {
+  const sampleRate = options.sampleRate ?? segment.sampleRate;
+  const { start, end } = options.trimSilence ? findSoundBounds(segment) : { start: 0, end: segment.length };
+  const speechDuration = (end - start) / segment.sampleRate;
+  const length = Math.max(1, Math.round((speechDuration + Math.max(0, options.pauseSeconds ?? 0)) * sampleRate));
+
+  const ctx = new OfflineAudioContext(segment.numberOfChannels, length, sampleRate);
+  const source = ctx.createBufferSource();
+  source.buffer = segment;
+  const gain = ctx.createGain();
+  gain.gain.value = options.targetLoudnessDb == null ? 1 : normalizationGain(segment, options.targetLoudnessDb, start, end);
+  source.connect(gain).connect(ctx.destination);
+  if (speechDuration > 0) {
+    source.start(0, start / segment.sampleRate, speechDuration);
+  }
+  return { buffer: await ctx.startRendering(), speechDuration };
+}
+
+export const resampleAudioBuffer = async (buffer: AudioBuffer, sampleRate: number): Promise<AudioBuffer> =>
+  buffer.sampleRate === sampleRate ? buffer : (await processSpeechSegment(buffer, { sampleRate })).buffer;
+
+export interface DuckingOptions {
+  /** Music level, as a linear gain, while nobody speaks. */
+  musicVolume?: number;
+  /** Music level under speech. */
+  duckedVolume?: number;
+}
+
+// Speech pauses shorter than this keep the music ducked instead of letting it swell between words.
+const DUCK_MERGE_SECONDS = 0.6;
+// The music dips just before speech starts, and comes back a moment after it stops.
+const DUCK_LEAD_SECONDS = 0.15;
+const DUCK_RELEASE_SECONDS = 0.3;
+const DUCK_TIME_CONSTANT = 0.05;
+const RELEASE_TIME_CONSTANT = 0.25;
+const MUSIC_FADE_OUT_SECONDS = 2;
+
+/** Stretches of speech in seconds, with short pauses merged into the stretch around them. */
+const speechIntervals = (buffer: AudioBuffer): [number, number][] => {
+  const intervals: [number, number][] = [];
+  for (const [from, to] of soundWindows(buffer)) {
+    const start = from / buffer.sampleRate;
+    const end = to / buffer.sampleRate;
+    const last = intervals[intervals.length - 1];
+    if (last && start - last[1] < DUCK_MERGE_SECONDS) {
+      last[1] = end;
+    } else {
+      intervals.push([start, end]);
+    }
+  }
+  return intervals;
+};
+
+/**
+ * Lays looped background music under the speech, lowering it while someone
+ * speaks and fading it out at the end. The result is exactly as long as the
+ * speech, so sentence timings and subtitles still line up.
+ */
+export async function mixWithMusic(speech: AudioBuffer, music: AudioBuffer, { musicVolume = 0.3, duckedVolume = 0.08 }: DuckingOptions = {}): Promise<AudioBuffer> {
+  const ctx = new OfflineAudioContext(Math.max(speech.numberOfChannels, music.numberOfChannels), speech.length, speech.sampleRate);
+  const speechSource = ctx.createBufferSource();
+  speechSource.buffer = speech;
+  speechSource.connect(ctx.destination);
+
+  const musicSource = ctx.createBufferSource();
+  musicSource.buffer = music;
+  musicSource.loop = true;
+  const musicGain = ctx.createGain();
+  const fadeOutStart = Math.max(0, speech.duration - MUSIC_FADE_OUT_SECONDS);
+  musicGain.gain.setValueAtTime(musicVolume, 0);
+  // Nothing is scheduled past the fade-out, which would bring the music back up.
+  for (const [start, end] of speechIntervals(speech)) {
+    const duckAt = Math.max(0, start - DUCK_LEAD_SECONDS);
+    if (duckAt >= fadeOutStart) break;
+    musicGain.gain.setTargetAtTime(duckedVolume, duckAt, DUCK_TIME_CONSTANT);
+    if (end + DUCK_RELEASE_SECONDS < fadeOutStart) {
+      musicGain.gain.setTargetAtTime(musicVolume, end + DUCK_RELEASE_SECONDS, RELEASE_TIME_CONSTANT);
+    }
+  }
+  musicGain.gain.setTargetAtTime(0, fadeOutStart, MUSIC_FADE_OUT_SECONDS / 4);
+  musicSource.connect(musicGain).connect(ctx.destination);
+
+  speechSource.start(0);
+  musicSource.start(0);
+  return ctx.startRendering();
+}
+
+export function concatAudioBuffers(ctx: BaseAudioContext, buffers: AudioBuffer[]): AudioBuffer {
+  const numChannels = Math.max(1, ...buffers.map(b => b.numberOfChannels));
+  const sampleRate = buffers[0]?.sampleRate ?? ctx.sampleRate;
+  const totalLength = buffers.reduce((sum, b) => sum + b.length, 0);
+  const result = ctx.createBuffer(numChannels, Math.max(1, totalLength), sampleRate);
+
+  let offset = 0;
+  for (const buffer of buffers) {
+    for (let channel = 0; channel < numChannels; channel++) {
+      // Mono segments are copied into every channel of a wider result.
+      const source = buffer.getChannelData(Math.min(channel, buffer.numberOfChannels - 1));
+      result.getChannelData(channel).set(source, offset);
+    }
+    offset += buffer.length;
+  }
+  return result;
+}
+
+/** The part of `buffer` from `start` to `end` seconds, as a new buffer. */
+export function sliceAudioBuffer(ctx: BaseAudioContext, buffer: AudioBuffer, start: number, end: number): AudioBuffer {
+  const from = Math.max(0, Math.min(buffer.length, Math.round(start * buffer.sampleRate)));
+  const to = Math.max(from, Math.min(buffer.length, Math.round(end * buffer.sampleRate)));
+  const result = ctx.createBuffer(buffer.numberOfChannels, Math.max(1, to - from), buffer.sampleRate);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    result.getChannelData(channel).set(buffer.getChannelData(channel).subarray(from, to));
+  }
+  return result;
+}
+
+/** Inverse of `decodeAudioData`: interleaved 16-bit little-endian PCM bytes. */
+export function encodePcm16(buffer: AudioBuffer): Uint8Array {
+  const numChannels = buffer.numberOfChannels;
+  const interleaved = new Float32Array(buffer.length * numChannels);
+  for (let channel = 0; channel < numChannels; channel++) {
+    const channelData = buffer.getChannelData(channel);
+    for (let i = 0; i < buffer.length; i++) {
+      interleaved[i * numChannels + channel] = channelData[i];
+    }
+  }
+  return new Uint8Array(floatTo16BitPCM(interleaved).buffer);
+}
+
+/** A labelled point in an audio file, e.g. the start of a chapter. */
+export interface AudioMarker {
+    /** Seconds from the start. */
+    time: number;
+    label: string;
+}
+
+const padToEven = (bytes: number[]): number[] => (bytes.length % 2 ? [...bytes, 0] : bytes);
+
+const u32 = (value: number): number[] => [value & 0xFF, (value >> 8) & 0xFF, (value >> 16) & 0xFF, (value >>> 24) & 0xFF];
+
+const riffChunk = (id: string, body: number[]): number[] => [...Array.from(id, char => char.charCodeAt(0)), ...u32(body.length), ...padToEven(body)];
+
+/**
+ * A `cue ` chunk with one cue point per marker, and a `LIST`/`adtl` chunk
+ * naming each one. Labels are UTF-8, which audio editors read for non-Latin text.
+ */
+const wavMarkerChunks = (markers: AudioMarker[], sampleRate: number): Uint8Array => {
+    if (markers.length === 0) return new Uint8Array(0);
+    const cuePoints = markers.flatMap((marker, index) => {
+        const frame = Math.max(0, Math.round(marker.time * sampleRate));
+        return [...u32(index + 1), ...u32(frame), ...Array.from('data', char => char.charCodeAt(0)), ...u32(0), ...u32(0), ...u32(frame)];
+    });
+    const labels = markers.flatMap((marker, index) =>
+        riffChunk('labl', [...u32(index + 1), ...new TextEncoder().encode(marker.label), 0]));
+    return new Uint8Array([
+        ...riffChunk('cue ', [...u32(markers.length), ...cuePoints]),
+        ...riffChunk('LIST', [...Array.from('adtl', char => char.charCodeAt(0)), ...labels]),
+    ]);
+};
+
 // https://www.yourhtml5.com/post/your-your-awesome-app-html5-audio-from-bytes.html
 // https://github.com/mattdiamond/Recordjs
-export function audioBufferToWav(buffer: AudioBuffer): Blob {
+/** 16-bit PCM WAV; `markers` are written as cue points that audio editors show as regions. */
+export function audioBufferToWav(buffer: AudioBuffer, markers: AudioMarker[] = []): Blob {
     const numChannels = buffer.numberOfChannels;
     const sampleRate = buffer.sampleRate;
     const format = 1; // PCM
@@ -52,7 +339,8 @@ export function audioBufferToWav(buffer: AudioBuffer): Blob {
     }
     
     const dataLength = result.length * (bitDepth / 8);
-    const bufferLength = 44 + dataLength;
+    const markerChunks = wavMarkerChunks(markers, sampleRate);
+    const bufferLength = 44 + dataLength + markerChunks.length;
     const arrayBuffer = new ArrayBuffer(bufferLength);
     const view = new DataView(arrayBuffer);
 
@@ -64,7 +352,7 @@ export function audioBufferToWav(buffer: AudioBuffer): Blob {
 
     let offset = 0;
     writeString(view, offset, 'RIFF'); offset += 4;
-    view.setUint32(offset, 36 + dataLength, true); offset += 4;
+    view.setUint32(offset, 36 + dataLength + markerChunks.length, true); offset += 4;
     writeString(view, offset, 'WAVE'); offset += 4;
     writeString(view, offset, 'fmt '); offset += 4;
     view.setUint32(offset, 16, true); offset += 4;
@@ -80,11 +368,12 @@ export function audioBufferToWav(buffer: AudioBuffer): Blob {
     for (let i = 0; i < result.length; i++, offset += 2) {
         view.setInt16(offset, result[i], true);
     }
+    new Uint8Array(arrayBuffer).set(markerChunks, offset);
 
     return new Blob([view], { type: 'audio/wav' });
 }
 
-function floatTo16BitPCM(input: Float32Array): Int16Array {
+export function floatTo16BitPCM(input: Float32Array): Int16Array {
     const output = new Int16Array(input.length);
     for (let i = 0; i < input.length; i++) {
         const s = Math.max(-1, Math.min(1, input[i]));
@@ -0,0 +1,75 @@
+import { strToU8, zipSync } from 'fflate';
+import { AudioMarker, concatAudioBuffers } from './audioUtils';
+import { formatTimestamp } from './subtitles';
+
+/** One narrated text of a batch, in the order it appears in the audiobook. */
+export interface AudiobookPart {
+    title: string;
+    script: string;
+    audio: AudioBuffer;
+}
+
+export interface AudiobookChapter {
+    title: string;
+    /** Seconds from the start of the audiobook. */
+    start: number;
+    end: number;
+}
+
+export interface Audiobook {
+    audio: AudioBuffer;
+    chapters: AudiobookChapter[];
+}
+
+// Silence between chapters, so one text doesn't run straight into the next.
+const CHAPTER_GAP_SECONDS = 1.5;
+
+/** Where each part starts and ends once the parts are joined with a short pause between them. */
+export function layoutChapters(parts: Pick<AudiobookPart, 'title' | 'audio'>[]): AudiobookChapter[] {
+    let position = 0;
+    return parts.map((part, index) => {
+        const start = position + (index > 0 ? CHAPTER_GAP_SECONDS : 0);
+        position = start + part.audio.duration;
+        return { title: part.title, start, end: position };
+    });
+}
+
+/** Joins the parts into one recording, laid out as `layoutChapters` describes. */
+export function assembleAudiobook(ctx: BaseAudioContext, parts: AudiobookPart[]): Audiobook {
+    const sampleRate = parts[0]?.audio.sampleRate ?? ctx.sampleRate;
+    const gap = ctx.createBuffer(1, Math.round(CHAPTER_GAP_SECONDS * sampleRate), sampleRate);
+    const buffers = parts.flatMap((part, index) => (index > 0 ? [gap, part.audio] : [part.audio]));
+    return { audio: concatAudioBuffers(ctx, buffers), chapters: layoutChapters(parts) };
+}
+
+export const chapterMarkers = (chapters: AudiobookChapter[]): AudioMarker[] =>
+    chapters.map(chapter => ({ time: chapter.start, label: chapter.title }));
+
+/** One line per chapter, start time first, as podcast and video platforms take chapter lists. */
+export function chaptersToText(chapters: AudiobookChapter[]): string {
+    return chapters.map(chapter => `${formatTimestamp(chapter.start, '.')} ${chapter.title}`).join('\n') + '\n';
+}
+
+/** WebVTT chapters track, for `<track kind="chapters">` next to the audio. */
+export function chaptersToWebVtt(chapters: AudiobookChapter[]): string {
+    const cues = chapters.map((chapter, index) =>
+        `${index + 1}\n${formatTimestamp(chapter.start, '.')} --> ${formatTimestamp(chapter.end, '.')}\n${chapter.title}\n`);
+    return ['WEBVTT\n', ...cues].join('\n');
+}
+
+/** A file name that keeps Persian letters but nothing file systems reject. */
+const toFileName = (title: string): string =>
+    title.replace(/[\\/:*?"<>|\u0000-\u001F]+/g, ' ').trim().replace(/\s+/g, '-').slice(0, 60) || 'untitled';
+
+/** The scripts as numbered text files, with the chapter list alongside them. */
+export function buildScriptsZip(parts: AudiobookPart[], chapters: AudiobookChapter[]): Blob {
+    const files: Record<string, Uint8Array> = {};
+    const digits = String(parts.length).length;
+    parts.forEach((part, index) => {
+        const number = String(index + 1).padStart(Math.max(2, digits), '0');
+        files[`scripts/${number}-${toFileName(part.title)}.txt`] = strToU8(`${part.title}\n\n${part.script}\n`);
+    });
+    files['chapters.txt'] = strToU8(chaptersToText(chapters));
+    files['chapters.vtt'] = strToU8(chaptersToWebVtt(chapters));
+    return new Blob([zipSync(files)], { type: 'application/zip' });
+}
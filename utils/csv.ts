@@ -0,0 +1,11 @@
+// Quotes a field only when it holds a delimiter, quote or line break (RFC 4180).
+const escapeField = (value: string): string =>
+    /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Builds a CSV document with CRLF line endings. It starts with a byte order
+ * mark so spreadsheet apps read Persian text as UTF-8 rather than a legacy code page.
+ */
+export function toCsv(rows: (string | number)[][]): string {
+    return '\uFEFF' + rows.map(row => row.map(value => escapeField(String(value))).join(',')).join('\r\n');
+}
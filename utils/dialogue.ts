@@ -0,0 +1,63 @@
+import { chunkScript, ChunkOptions } from './textChunker';
+
+export interface DialogueTurn {
+    speaker: string;
+    text: string;
+}
+
+// "Name: line", allowing the Arabic colon and a short name of a word or two.
+const SPEAKER_LINE_PATTERN = /^\s*([^\s:：][^:：\n]{0,24})\s*[:：]\s*(.*)$/;
+
+/**
+ * Parses a "Speaker: line" script into turns. Only names in `speakers` count
+ * as labels, so colons inside ordinary sentences are left alone; unlabeled
+ * lines continue the previous turn.
+ */
+export function parseDialogueTurns(text: string, speakers: string[]): DialogueTurn[] {
+    const turns: DialogueTurn[] = [];
+    for (const line of text.split('\n')) {
+        if (!line.trim()) continue;
+        const match = line.match(SPEAKER_LINE_PATTERN);
+        const speaker = match?.[1].replace(/[*_]/g, '').trim();
+        if (match && speaker && speakers.includes(speaker)) {
+            turns.push({ speaker, text: match[2].trim() });
+        } else if (turns.length > 0) {
+            turns[turns.length - 1].text += `\n${line.trim()}`;
+        } else {
+            turns.push({ speaker: speakers[0], text: line.trim() });
+        }
+    }
+    return turns.filter(turn => turn.text);
+}
+
+export const formatDialogueTurn = ({ speaker, text }: DialogueTurn): string => `${speaker}: ${text}`;
+
+/**
+ * Packs a dialogue script into chunks for speech synthesis without ever
+ * cutting a line off from its speaker label. Turns are merged while they fit;
+ * a turn longer than the limit is split on sentences and each piece is
+ * labeled again.
+ */
+export function chunkDialogue(text: string, speakers: string[], { maxChars, firstChunkMaxChars = maxChars }: ChunkOptions): string[] {
+    const chunks: string[] = [];
+    let current = '';
+    const limit = () => (chunks.length === 0 ? firstChunkMaxChars : maxChars);
+
+    for (const turn of parseDialogueTurns(text, speakers)) {
+        const line = formatDialogueTurn(turn);
+        const lines = line.length <= maxChars
+            ? [line]
+            : chunkScript(turn.text, { maxChars: maxChars - turn.speaker.length - 2 }).map(piece => formatDialogueTurn({ speaker: turn.speaker, text: piece }));
+        for (const piece of lines) {
+            if (current && current.length + 1 + piece.length > limit()) {
+                chunks.push(current);
+                current = '';
+            }
+            current = current ? `${current}\n${piece}` : piece;
+        }
+    }
+    if (current) {
+        chunks.push(current);
+    }
+    return chunks;
+}
@@ -0,0 +1,234 @@
+import { unzipSync, strFromU8 } from 'fflate';
+import { DocumentFormat, DocumentSection, ImportedDocument } from '../types';
+import { t } from '../i18n';
+
+export const ACCEPTED_FILE_TYPES = '.pdf,.docx,.html,.htm,.md,.markdown,.txt';
+
+const BIDI_CONTROLS = /[\u200E\u200F\u202A-\u202E\u2066-\u2069]/g;
+
+/**
+ * Cleans extracted text for Persian: folds Arabic presentation forms (common
+ * in PDFs) back to base letters, maps Arabic yeh/kaf to their Persian forms,
+ * and strips stray bidi control marks. The zero-width non-joiner is kept,
+ * since Persian words depend on it.
+ */
+export function normalizeExtractedText(text: string): string {
+    return text
+        .normalize('NFKC')
+        .replace(/ي/g, 'ی')
+        .replace(/ك/g, 'ک')
+        .replace(BIDI_CONTROLS, '')
+        .replace(/\r\n?/g, '\n')
+        .replace(/[ \t\u00A0]+/g, ' ')
+        .replace(/ *\n */g, '\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
+
+/** Guesses the base direction of a text from the balance of RTL and LTR letters. */
+export function detectTextDirection(text: string): 'rtl' | 'ltr' {
+    const rtl = (text.match(/[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]/g) ?? []).length;
+    const ltr = (text.match(/[A-Za-zÀ-ɏ]/g) ?? []).length;
+    return rtl >= ltr && rtl > 0 ? 'rtl' : 'ltr';
+}
+
+export function detectDocumentFormat(file: File): DocumentFormat | null {
+    const extension = file.name.split('.').pop()?.toLowerCase();
+    switch (extension) {
+        case 'pdf': return 'pdf';
+        case 'docx': return 'docx';
+        case 'html':
+        case 'htm': return 'html';
+        case 'md':
+        case 'markdown': return 'markdown';
+        case 'txt': return 'text';
+    }
+    if (file.type === 'application/pdf') return 'pdf';
+    if (file.type === 'text/html') return 'html';
+    if (file.type === 'text/markdown') return 'markdown';
+    if (file.type.startsWith('text/')) return 'text';
+    return null;
+}
+
+/** Groups paragraphs under the most recent heading; text before the first heading gets a default title. */
+const createSectionBuilder = (defaultTitle: string) => {
+    const sections: DocumentSection[] = [];
+    let title = defaultTitle;
+    let paragraphs: string[] = [];
+
+    const flush = () => {
+        if (paragraphs.length > 0) {
+            sections.push({ title, text: paragraphs.join('\n\n') });
+        }
+        paragraphs = [];
+    };
+
+    return {
+        heading(text: string) {
+            flush();
+            title = normalizeExtractedText(text) || defaultTitle;
+        },
+        paragraph(text: string) {
+            const clean = normalizeExtractedText(text);
+            if (clean) {
+                paragraphs.push(clean);
+            }
+        },
+        build(): DocumentSection[] {
+            flush();
+            return sections;
+        },
+    };
+};
+
+const extractPdf = async (file: File): Promise<DocumentSection[]> => {
+    const pdfjs = await import('pdfjs-dist');
+    const { default: workerUrl } = await import('pdfjs-dist/build/pdf.worker.min.mjs?url');
+    pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+
+    const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+    const sections: DocumentSection[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        const page = await pdf.getPage(pageNumber);
+        const content = await page.getTextContent();
+        let text = '';
+        for (const item of content.items) {
+            if (!('str' in item)) continue;
+            text += item.str + (item.hasEOL ? '\n' : '');
+        }
+        const clean = normalizeExtractedText(text);
+        if (clean) {
+            sections.push({ title: t('import.page', { number: pageNumber }), text: clean });
+        }
+    }
+    await pdf.destroy();
+    return sections;
+};
+
+const extractDocx = async (file: File): Promise<DocumentSection[]> => {
+    const archive = unzipSync(new Uint8Array(await file.arrayBuffer()), {
+        filter: entry => entry.name === 'word/document.xml',
+    });
+    const documentXml = archive['word/document.xml'];
+    if (!documentXml) {
+        throw new Error(t('import.invalidDocx'));
+    }
+    const xml = new DOMParser().parseFromString(strFromU8(documentXml), 'application/xml');
+    const builder = createSectionBuilder(t('import.text'));
+
+    for (const paragraph of Array.from(xml.getElementsByTagName('w:p'))) {
+        let text = '';
+        for (const node of Array.from(paragraph.getElementsByTagName('*'))) {
+            if (node.tagName === 'w:t') text += node.textContent ?? '';
+            else if (node.tagName === 'w:tab') text += '\t';
+            else if (node.tagName === 'w:br') text += '\n';
+        }
+        const style = paragraph.getElementsByTagName('w:pStyle')[0]?.getAttribute('w:val') ?? '';
+        if (/^(heading|title)/i.test(style) && text.trim()) {
+            builder.heading(text);
+        } else {
+            builder.paragraph(text);
+        }
+    }
+    return builder.build();
+};
+
+const BLOCK_TAGS = new Set(['P', 'LI', 'BLOCKQUOTE', 'PRE', 'TD', 'TH', 'DT', 'DD', 'FIGCAPTION', 'H5', 'H6']);
+const SECTION_HEADINGS = new Set(['H1', 'H2', 'H3', 'H4']);
+const SKIPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'NAV', 'FOOTER', 'TEMPLATE', 'SVG']);
+
+const extractHtml = async (file: File): Promise<DocumentSection[]> => {
+    const html = new DOMParser().parseFromString(await file.text(), 'text/html');
+    const builder = createSectionBuilder(html.title || t('import.text'));
+
+    const walk = (element: Element) => {
+        for (const child of Array.from(element.children)) {
+            if (SKIPPED_TAGS.has(child.tagName)) continue;
+            if (SECTION_HEADINGS.has(child.tagName)) {
+                builder.heading(child.textContent ?? '');
+            } else if (BLOCK_TAGS.has(child.tagName)) {
+                builder.paragraph(child.textContent ?? '');
+            } else if (child.children.length > 0) {
+                walk(child);
+            } else {
+                builder.paragraph(child.textContent ?? '');
+            }
+        }
+    };
+    walk(html.body);
+    return builder.build();
+};
+
+const stripMarkdownInline = (line: string): string => line
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(/(\*\*|__)(.*?)\1/g, '$2')
+    .replace(/(\*|_)(.*?)\1/g, '$2')
+    .replace(/^\s*>\s?/, '')
+    .replace(/^\s*[-*+]\s+/, '• ');
+
+const extractMarkdown = async (file: File): Promise<DocumentSection[]> => {
+    const builder = createSectionBuilder(t('import.text'));
+    let paragraph: string[] = [];
+    let inCodeBlock = false;
+    const endParagraph = () => {
+        builder.paragraph(paragraph.join('\n'));
+        paragraph = [];
+    };
+
+    for (const line of (await file.text()).split(/\r?\n/)) {
+        if (/^\s*(```|~~~)/.test(line)) {
+            inCodeBlock = !inCodeBlock;
+            continue;
+        }
+        if (inCodeBlock) {
+            paragraph.push(line);
+            continue;
+        }
+        const heading = line.match(/^\s{0,3}#{1,4}\s+(.*?)\s*#*\s*$/);
+        if (heading) {
+            endParagraph();
+            builder.heading(stripMarkdownInline(heading[1]));
+        } else if (!line.trim() || /^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+            endParagraph();
+        } else {
+            paragraph.push(stripMarkdownInline(line));
+        }
+    }
+    endParagraph();
+    return builder.build();
+};
+
+const extractText = async (file: File): Promise<DocumentSection[]> => {
+    const text = normalizeExtractedText(await file.text());
+    return text ? [{ title: t('import.fullText'), text }] : [];
+};
+
+/** Extracts clean, section-structured text from a supported file, entirely in the browser. */
+export async function importDocument(file: File): Promise<ImportedDocument> {
+    const format = detectDocumentFormat(file);
+    if (!format) {
+        throw new Error(t('import.unsupported', { name: file.name }));
+    }
+
+    const extractors: Record<DocumentFormat, (file: File) => Promise<DocumentSection[]>> = {
+        pdf: extractPdf,
+        docx: extractDocx,
+        html: extractHtml,
+        markdown: extractMarkdown,
+        text: extractText,
+    };
+
+    let sections: DocumentSection[];
+    try {
+        sections = await extractors[format](file);
+    } catch (error) {
+        console.error("Error importing document:", error);
+        throw new Error(t('import.failed', { name: file.name }));
+    }
+    if (sections.length === 0) {
+        throw new Error(t('import.noText', { name: file.name }));
+    }
+    return { fileName: file.name, format, sections };
+}
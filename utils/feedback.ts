@@ -0,0 +1,51 @@
+import { FeedbackEntry } from '../types';
+import { toCsv } from './csv';
+
+/** Prompt parameters that ratings can be grouped by. */
+export type FeedbackDimension = 'tone' | 'level' | 'model';
+
+export interface RatingGroup {
+    value: string;
+    count: number;
+    average: number;
+}
+
+export const averageRating = (entries: FeedbackEntry[]): number =>
+    entries.length > 0 ? entries.reduce((sum, entry) => sum + entry.stars, 0) / entries.length : 0;
+
+/**
+ * The average rating for each value of a parameter, best first. Entries
+ * without that parameter, such as summaries for tone, are left out.
+ */
+export function averageRatingBy(entries: FeedbackEntry[], dimension: FeedbackDimension): RatingGroup[] {
+    const groups = new Map<string, FeedbackEntry[]>();
+    for (const entry of entries) {
+        const value = entry.params[dimension];
+        if (!value) continue;
+        groups.set(value, [...(groups.get(value) ?? []), entry]);
+    }
+    return [...groups.entries()]
+        .map(([value, group]) => ({ value, count: group.length, average: averageRating(group) }))
+        .sort((a, b) => b.average - a.average || b.count - a.count);
+}
+
+export const feedbackToJson = (entries: FeedbackEntry[]): string => JSON.stringify(entries, null, 2);
+
+export const feedbackToCsv = (entries: FeedbackEntry[]): string => toCsv([
+    ['created_at', 'session_id', 'stars', 'comment', 'kind', 'language', 'provider', 'model', 'tone', 'level', 'format', 'voice', 'output'],
+    ...entries.map(({ createdAt, sessionId, stars, comment, params, output }) => [
+        new Date(createdAt).toISOString(),
+        sessionId ?? '',
+        stars,
+        comment,
+        params.kind,
+        params.language,
+        params.provider,
+        params.model,
+        params.tone ?? '',
+        params.level ?? '',
+        params.format ?? '',
+        params.voice ?? '',
+        output,
+    ]),
+]);
@@ -0,0 +1,89 @@
+import { GlossaryTerm } from '../types';
+import { TextRange } from './textChunker';
+import { toCsv } from './csv';
+
+/** A term found in a text; `termIndex` points into the list of terms searched for. */
+export interface TermMatch extends TextRange {
+    termIndex: number;
+}
+
+export interface TermPiece {
+    text: string;
+    /** The term this piece is an occurrence of, or null for the text in between. */
+    termIndex: number | null;
+}
+
+// Case and Arabic letter variants are folded without changing string length, so indexes still line up.
+const fold = (text: string): string => text.toLowerCase().replace(/ي/g, 'ی').replace(/ك/g, 'ک');
+
+const isWordChar = (char: string | undefined): boolean => char !== undefined && /[\p{L}\p{N}]/u.test(char);
+
+/**
+ * Finds every occurrence of the terms as whole words. Longer terms are
+ * matched first, so "neural network" wins over "network" where both fit, and
+ * the matches never overlap. Returns the matches in text order.
+ */
+export function findTermMatches(text: string, terms: string[]): TermMatch[] {
+    const folded = fold(text);
+    const taken = new Uint8Array(text.length);
+    const matches: TermMatch[] = [];
+    const byLength = terms
+        .map((term, termIndex) => ({ needle: fold(term.trim()), termIndex }))
+        .filter(({ needle }) => needle.length > 0)
+        .sort((a, b) => b.needle.length - a.needle.length);
+
+    for (const { needle, termIndex } of byLength) {
+        for (let start = folded.indexOf(needle); start !== -1; start = folded.indexOf(needle, start + 1)) {
+            const end = start + needle.length;
+            if (isWordChar(text[start - 1]) || isWordChar(text[end]) || taken.subarray(start, end).some(Boolean)) continue;
+            taken.fill(1, start, end);
+            matches.push({ start, end, termIndex });
+        }
+    }
+    return matches.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Cuts a slice of a larger text into plain and term pieces. `offset` is where
+ * the slice starts in the text the matches were found in; matches that cross
+ * the slice's edges are left as plain text.
+ */
+export function splitByTerms(slice: string, matches: TermMatch[], offset = 0): TermPiece[] {
+    const pieces: TermPiece[] = [];
+    let cursor = 0;
+    for (const match of matches) {
+        const start = match.start - offset;
+        const end = match.end - offset;
+        if (start < cursor || end > slice.length) continue;
+        if (start > cursor) {
+            pieces.push({ text: slice.slice(cursor, start), termIndex: null });
+        }
+        pieces.push({ text: slice.slice(start, end), termIndex: match.termIndex });
+        cursor = end;
+    }
+    if (cursor < slice.length) {
+        pieces.push({ text: slice.slice(cursor), termIndex: null });
+    }
+    return pieces;
+}
+
+/**
+ * Records where each term occurs in the text, dropping terms that don't occur
+ * at all, and orders the glossary by first occurrence.
+ */
+export function locateGlossary(text: string, entries: Pick<GlossaryTerm, 'term' | 'definition'>[]): GlossaryTerm[] {
+    const matches = findTermMatches(text, entries.map(entry => entry.term));
+    return entries
+        .map((entry, index) => ({
+            term: entry.term,
+            definition: entry.definition,
+            occurrences: matches.filter(match => match.termIndex === index).map(({ start, end }) => ({ start, end })),
+        }))
+        .filter(entry => entry.occurrences.length > 0)
+        .sort((a, b) => a.occurrences[0].start - b.occurrences[0].start);
+}
+
+export const glossaryToCsv = (glossary: GlossaryTerm[]): string => toCsv([
+    ['term', 'definition', 'occurrences'],
+    ...glossary.map(entry => [entry.term, entry.definition, entry.occurrences.length]),
+]);
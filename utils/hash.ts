@@ -0,0 +1,26 @@
+const toHex = (bytes: Uint8Array): string => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+// Two 32-bit FNV-1a passes with different offsets; only used where Web Crypto is unavailable (plain-HTTP origins).
+const fallbackHash = (text: string): string => {
+    let a = 0x811c9dc5;
+    let b = 0x01000193 ^ text.length;
+    for (let i = 0; i < text.length; i++) {
+        const code = text.charCodeAt(i);
+        a = Math.imul(a ^ code, 0x01000193);
+        b = Math.imul(b ^ code, 0x5bd1e995);
+    }
+    return `${(a >>> 0).toString(16).padStart(8, '0')}${(b >>> 0).toString(16).padStart(8, '0')}`;
+};
+
+/**
+ * A content hash of the parts, in hex: SHA-256 where the browser offers it.
+ * Parts are separated by a character that can't be typed, so moving text
+ * between parts changes the hash.
+ */
+export async function hashParts(parts: string[]): Promise<string> {
+    const text = parts.join('\u0000');
+    if (typeof crypto === 'undefined' || !crypto.subtle) {
+        return fallbackHash(text);
+    }
+    return toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))));
+}
@@ -0,0 +1,181 @@
+import { TextRange } from './textChunker';
+
+/**
+ * A small Markdown subset, parsed into nodes that remember where their text
+ * lies in the source, so rendered text can still be mapped back to offsets
+ * for sentence highlighting, glossary terms and selections.
+ */
+export type InlineNode =
+    | { type: 'text'; text: string; start: number }
+    | { type: 'strong' | 'emphasis'; children: InlineNode[] }
+    | { type: 'code'; text: string; start: number }
+    /** `href` is only set for web and mail links; anything else renders as plain text. */
+    | { type: 'link'; href: string | null; children: InlineNode[] };
+
+export type BlockNode =
+    | { type: 'heading'; level: number; children: InlineNode[] }
+    | { type: 'paragraph'; children: InlineNode[] }
+    | { type: 'list'; ordered: boolean; items: InlineNode[][] }
+    | { type: 'quote'; children: InlineNode[] }
+    | { type: 'rule' };
+
+const INLINE_PATTERN = /\*\*(.+?)\*\*|\*(?!\s)(.+?)\*|`([^`\n]+)`|\[([^\]\n]+)\]\(([^)\s]+)\)/g;
+const SAFE_HREF = /^(https?:|mailto:)/i;
+
+/** Inline nodes of `source` from `start` to `end`. */
+export function parseInline(source: string, start: number, end: number): InlineNode[] {
+    const nodes: InlineNode[] = [];
+    const slice = source.slice(start, end);
+    let cursor = 0;
+    const pushText = (from: number, to: number) => {
+        if (to > from) nodes.push({ type: 'text', text: slice.slice(from, to), start: start + from });
+    };
+    for (const match of slice.matchAll(INLINE_PATTERN)) {
+        const index = match.index ?? 0;
+        pushText(cursor, index);
+        const contentStart = start + index + (match[1] !== undefined ? 2 : 1);
+        if (match[1] !== undefined) {
+            nodes.push({ type: 'strong', children: parseInline(source, contentStart, contentStart + match[1].length) });
+        } else if (match[2] !== undefined) {
+            nodes.push({ type: 'emphasis', children: parseInline(source, contentStart, contentStart + match[2].length) });
+        } else if (match[3] !== undefined) {
+            nodes.push({ type: 'code', text: match[3], start: contentStart });
+        } else {
+            const href = SAFE_HREF.test(match[5]) ? match[5] : null;
+            nodes.push({ type: 'link', href, children: parseInline(source, contentStart, contentStart + match[4].length) });
+        }
+        cursor = index + match[0].length;
+    }
+    pushText(cursor, slice.length);
+    return nodes;
+}
+
+interface Line extends TextRange {
+    text: string;
+}
+
+/** The lines of `source` between `start` and `end`, with their offsets. */
+export function sourceLines(source: string, start = 0, end = source.length): Line[] {
+    const lines: Line[] = [];
+    let lineStart = start;
+    while (lineStart <= end) {
+        const newline = source.indexOf('\n', lineStart);
+        const lineEnd = newline === -1 || newline > end ? end : newline;
+        lines.push({ text: source.slice(lineStart, lineEnd), start: lineStart, end: lineEnd });
+        lineStart = lineEnd + 1;
+    }
+    return lines;
+}
+
+const HEADING = /^(#{1,6})\s+/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const LIST_ITEM = /^\s*(?:([-*+•])|([\d۰-۹]+)[.)])\s+/;
+const QUOTE = /^\s*>\s?/;
+
+/**
+ * Block nodes of `source` from `start` to `end`. Consecutive lines form one
+ * paragraph and keep their line breaks, since scripts and dialogue turns are
+ * written one line per thought.
+ */
+export function parseMarkdown(source: string, start = 0, end = source.length): BlockNode[] {
+    const blocks: BlockNode[] = [];
+    let paragraph: TextRange | null = null;
+    const closeParagraph = () => {
+        if (paragraph) blocks.push({ type: 'paragraph', children: parseInline(source, paragraph.start, paragraph.end) });
+        paragraph = null;
+    };
+
+    for (const line of sourceLines(source, start, end)) {
+        const heading = line.text.match(HEADING);
+        const item = line.text.match(LIST_ITEM);
+        const quote = line.text.match(QUOTE);
+        if (!line.text.trim()) {
+            closeParagraph();
+        } else if (heading) {
+            closeParagraph();
+            const contentEnd = line.start + line.text.replace(/\s+#*\s*$/, '').length;
+            blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(source, line.start + heading[0].length, contentEnd) });
+        } else if (RULE.test(line.text)) {
+            closeParagraph();
+            blocks.push({ type: 'rule' });
+        } else if (item) {
+            closeParagraph();
+            const ordered = item[2] !== undefined;
+            const children = parseInline(source, line.start + item[0].length, line.end);
+            const previous = blocks[blocks.length - 1];
+            if (previous?.type === 'list' && previous.ordered === ordered) {
+                previous.items.push(children);
+            } else {
+                blocks.push({ type: 'list', ordered, items: [children] });
+            }
+        } else if (quote) {
+            closeParagraph();
+            blocks.push({ type: 'quote', children: parseInline(source, line.start + quote[0].length, line.end) });
+        } else if (paragraph) {
+            paragraph.end = line.end;
+        } else {
+            paragraph = { start: line.start + (line.text.length - line.text.trimStart().length), end: line.end };
+        }
+    }
+    closeParagraph();
+    return blocks;
+}
+
+/** The text of inline nodes without their markup. */
+export const inlineText = (nodes: InlineNode[]): string =>
+    nodes.map(node => ('children' in node ? inlineText(node.children) : node.text)).join('');
+
+interface PlainText {
+    text: string;
+    /** Where each character of `text` lies in the source. */
+    offsets: number[];
+}
+
+/** The words of `source` without markup, each character mapped back to the source. */
+function plainText(source: string): PlainText {
+    let text = '';
+    const offsets: number[] = [];
+    const append = (nodes: InlineNode[]) => {
+        for (const node of nodes) {
+            if ('children' in node) {
+                append(node.children);
+                continue;
+            }
+            text += node.text;
+            for (let i = 0; i < node.text.length; i++) offsets.push(node.start + i);
+        }
+    };
+    sourceLines(source).forEach((line, index) => {
+        if (index > 0) {
+            text += '\n';
+            offsets.push(line.start - 1);
+        }
+        if (RULE.test(line.text)) return;
+        const prefix = line.text.match(HEADING) ?? line.text.match(LIST_ITEM) ?? line.text.match(QUOTE);
+        append(parseInline(source, line.start + (prefix?.[0].length ?? 0), line.end));
+    });
+    return { text, offsets };
+}
+
+/**
+ * Markdown as it should be read aloud: the words only, without emphasis,
+ * list or heading markers. Paragraphs and lines stay where they were.
+ */
+export const markdownToPlainText = (markdown: string): string => plainText(markdown).text.trim();
+
+/**
+ * Finds pieces of `markdownToPlainText` output, e.g. narrated sentences, in
+ * the Markdown they came from, in order. A piece with markup inside, such as
+ * emphasis or a link, maps to the source range around that markup. Pieces
+ * that can't be found are null.
+ */
+export function locatePlainText(source: string, pieces: string[]): (TextRange | null)[] {
+    const { text, offsets } = plainText(source);
+    let cursor = 0;
+    return pieces.map(piece => {
+        const position = piece ? text.indexOf(piece, cursor) : -1;
+        if (position === -1) return null;
+        cursor = position + piece.length;
+        return { start: offsets[position], end: offsets[cursor - 1] + 1 };
+    });
+}
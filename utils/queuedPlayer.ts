@@ -0,0 +1,182 @@
+/**
+ * Plays a growing list of AudioBuffers back to back without gaps, with
+ * pause/resume and seeking across the whole timeline.
+ *
+ * Segments are scheduled on the AudioContext clock rather than chained from
+ * `onended`, so there is no event-loop jitter between them. Positions are
+ * measured in seconds of source audio, independent of the playback rate.
+ */
+export interface QueuedPlayer {
+    enqueue(buffer: AudioBuffer): void;
+    /** Signals that no more segments will be enqueued. */
+    finish(): void;
+    /** Resumes from the current position, or from the start once playback has ended. */
+    play(): void;
+    pause(): void;
+    /** Pauses and rewinds to the start. */
+    stop(): void;
+    seek(position: number): void;
+    setPlaybackRate(rate: number): void;
+    getPosition(): number;
+    /** Duration of the audio enqueued so far. */
+    getDuration(): number;
+    isPlaying(): boolean;
+    onEnded: (() => void) | null;
+}
+
+export interface QueuedPlayerOptions {
+    playbackRate?: number;
+    /** Start playing as soon as the first segment arrives. Defaults to true. */
+    autoplay?: boolean;
+}
+
+export function createQueuedPlayer(ctx: AudioContext, destination: AudioNode, options: QueuedPlayerOptions = {}): QueuedPlayer {
+    const segments: AudioBuffer[] = [];
+    const segmentOffsets: number[] = [];
+    let totalDuration = 0;
+    let rate = options.playbackRate ?? 1;
+    let playing = options.autoplay ?? true;
+    let complete = false;
+    let sources: AudioBufferSourceNode[] = [];
+    // Bumped on every reschedule so `onended` from stopped nodes is ignored.
+    let generation = 0;
+    // While playing, timeline position `anchorPosition` is heard at context time `anchorTime`.
+    // While paused, `anchorPosition` is simply the paused position.
+    let anchorTime = ctx.currentTime;
+    let anchorPosition = 0;
+
+    const scheduledEndTime = () => anchorTime + (totalDuration - anchorPosition) / rate;
+
+    const currentPosition = () => {
+        if (!playing) return anchorPosition;
+        return Math.min(totalDuration, anchorPosition + (ctx.currentTime - anchorTime) * rate);
+    };
+
+    const stopSources = () => {
+        generation++;
+        for (const source of sources) {
+            source.onended = null;
+            try {
+                source.stop();
+            } catch {
+                // Already stopped.
+            }
+            source.disconnect();
+        }
+        sources = [];
+    };
+
+    const handleDrained = () => {
+        if (playing && complete && ctx.currentTime >= scheduledEndTime() - 0.01) {
+            playing = false;
+            anchorPosition = totalDuration;
+            sources = [];
+            player.onEnded?.();
+        }
+    };
+
+    const scheduleSegment = (index: number, fromPosition: number) => {
+        const buffer = segments[index];
+        const segmentStart = segmentOffsets[index];
+        const offset = Math.max(0, fromPosition - segmentStart);
+        if (offset >= buffer.duration) return;
+
+        const source = ctx.createBufferSource();
+        source.buffer = buffer;
+        source.playbackRate.value = rate;
+        source.connect(destination);
+        const when = anchorTime + (segmentStart + offset - anchorPosition) / rate;
+        source.start(Math.max(ctx.currentTime, when), offset);
+
+        const scheduledGeneration = generation;
+        source.onended = () => {
+            if (scheduledGeneration !== generation) return;
+            sources = sources.filter(s => s !== source);
+            source.disconnect();
+            if (index === segments.length - 1) {
+                handleDrained();
+            }
+        };
+        sources.push(source);
+    };
+
+    const scheduleFrom = (position: number) => {
+        stopSources();
+        anchorTime = ctx.currentTime;
+        anchorPosition = position;
+        segments.forEach((_, index) => scheduleSegment(index, position));
+        if (sources.length === 0) {
+            handleDrained();
+        }
+    };
+
+    const player: QueuedPlayer = {
+        onEnded: null,
+
+        enqueue(buffer) {
+            segmentOffsets.push(totalDuration);
+            segments.push(buffer);
+            if (playing && ctx.currentTime >= scheduledEndTime()) {
+                // The queue ran dry while waiting for this segment; resume from where it stopped.
+                anchorTime = ctx.currentTime;
+                anchorPosition = totalDuration;
+            }
+            totalDuration += buffer.duration;
+            if (playing) {
+                scheduleSegment(segments.length - 1, anchorPosition);
+            }
+        },
+
+        finish() {
+            complete = true;
+            handleDrained();
+        },
+
+        play() {
+            if (playing) return;
+            playing = true;
+            scheduleFrom(complete && anchorPosition >= totalDuration ? 0 : anchorPosition);
+        },
+
+        pause() {
+            if (!playing) return;
+            const position = currentPosition();
+            stopSources();
+            playing = false;
+            anchorPosition = position;
+        },
+
+        stop() {
+            stopSources();
+            playing = false;
+            anchorPosition = 0;
+        },
+
+        seek(position) {
+            const target = Math.max(0, Math.min(totalDuration, position));
+            if (playing) {
+                scheduleFrom(target);
+            } else {
+                anchorPosition = target;
+            }
+        },
+
+        setPlaybackRate(newRate) {
+            if (playing) {
+                const position = currentPosition();
+                rate = newRate;
+                scheduleFrom(position);
+            } else {
+                rate = newRate;
+            }
+        },
+
+        getPosition: currentPosition,
+
+        getDuration: () => totalDuration,
+
+        isPlaying: () => playing,
+    };
+
+    return player;
+}
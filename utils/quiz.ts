@@ -0,0 +1,43 @@
+import { QuizQuestion } from '../types';
+import { toCsv } from './csv';
+import { normalizeText } from './textSearch';
+
+/** The learner's answer to each question, by question id. */
+export type QuizResponses = Record<string, string>;
+
+export interface QuizGrade {
+    /** Whether each answered question was right, by question id. */
+    results: Record<string, boolean>;
+    correct: number;
+    total: number;
+}
+
+// Short answers count as right when they match after folding case, spacing and punctuation.
+const foldAnswer = (text: string): string => normalizeText(text).replace(/[.,;:!?؟،؛"'«»()]/g, '').trim();
+
+export function isAnswerCorrect(question: QuizQuestion, response: string | undefined): boolean {
+    if (response === undefined) return false;
+    return question.type === 'short-answer'
+        ? foldAnswer(response) !== '' && foldAnswer(response) === foldAnswer(question.answer)
+        : response === question.answer;
+}
+
+/**
+ * Grades every question. `accepted` holds short answers the learner marked as
+ * right after comparing them with the expected answer, since wording varies.
+ */
+export function gradeQuiz(questions: QuizQuestion[], responses: QuizResponses, accepted: ReadonlySet<string> = new Set()): QuizGrade {
+    const results: Record<string, boolean> = {};
+    for (const question of questions) {
+        results[question.id] = accepted.has(question.id) || isAnswerCorrect(question, responses[question.id]);
+    }
+    return { results, correct: Object.values(results).filter(Boolean).length, total: questions.length };
+}
+
+export const quizToJson = (questions: QuizQuestion[]): string => JSON.stringify({ questions }, null, 2);
+
+/** One row per question; multiple-choice options are joined with " | ". */
+export const quizToCsv = (questions: QuizQuestion[]): string => toCsv([
+    ['type', 'question', 'options', 'answer', 'explanation'],
+    ...questions.map(question => [question.type, question.question, question.options.join(' | '), question.answer, question.explanation]),
+]);
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { locatePlainText, markdownToPlainText } from './markdown';
+import { parseScript, sectionTimeSpans } from './scriptStructure';
+
+const SCRIPT = [
+    '# Light',
+    '',
+    '## Waves',
+    '',
+    'Light is **both** a wave and a particle. It travels *very* fast.',
+    '',
+    '## Colour',
+    '',
+    'White light holds every colour.',
+    '',
+    '## TAKEAWAYS',
+    '',
+    '- Light is fast.',
+].join('\n');
+
+describe('locatePlainText', () => {
+    it('maps a sentence with emphasis back to its Markdown source', () => {
+        const source = 'It travels *very* fast. Then it **stops**.';
+        const [first, second] = locatePlainText(source, ['It travels very fast.', 'Then it stops.']);
+
+        expect(first).toEqual({ start: 0, end: 23 });
+        expect(source.slice(second!.start, second!.end)).toBe('Then it **stops**.');
+    });
+
+    it('returns null for text that is not in the source', () => {
+        expect(locatePlainText('Plain text.', ['Missing.'])).toEqual([null]);
+    });
+});
+
+describe('sectionTimeSpans', () => {
+    it('times sections whose sentences contain emphasis', () => {
+        const script = parseScript(SCRIPT);
+        const sentences = script.sections
+            .flatMap(section => markdownToPlainText(section.body).split(/(?<=\.) /))
+            .map((text, i) => ({ text, start: i * 2, end: i * 2 + 2 }));
+
+        expect(sentences.map(sentence => sentence.text)).toEqual([
+            'Light is both a wave and a particle.',
+            'It travels very fast.',
+            'White light holds every colour.',
+        ]);
+        expect(sectionTimeSpans(SCRIPT, script, sentences, 7)).toEqual([
+            { start: 0, end: 4 },
+            { start: 4, end: 7 },
+        ]);
+    });
+});
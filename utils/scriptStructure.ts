@@ -0,0 +1,171 @@
+import { inlineText, locatePlainText, markdownToPlainText, parseInline, sourceLines } from './markdown';
+import { TimedSentence } from './sentenceTiming';
+import { TextRange } from './textChunker';
+
+/**
+ * The heading line that introduces the key takeaways. It is the same in every
+ * language, so one parser reads scripts written in any of them; the app shows
+ * a translated title in its place.
+ */
+export const TAKEAWAYS_MARKER = '## TAKEAWAYS';
+
+// Average narration pace, used to estimate section lengths before they are narrated.
+const WORDS_PER_SECOND = 2.4;
+
+export interface ScriptSection {
+    /** Without its `##` marker; empty for an untitled opening before the first heading. */
+    heading: string;
+    headingRange: TextRange | null;
+    /** Markdown of the section's text, heading excluded. */
+    body: string;
+    bodyRange: TextRange;
+    /** From the heading line up to the next heading: what regenerating the section replaces. */
+    range: TextRange;
+    estimatedSeconds: number;
+}
+
+/**
+ * A script written as `# Title`, `## Heading` sections and a takeaways list
+ * after `TAKEAWAYS_MARKER`. Every range points into the script text, so the
+ * text stays the single source and the structure can be parsed again at will,
+ * e.g. from a partial script while it streams in.
+ */
+export interface StructuredScript {
+    title: string;
+    titleRange: TextRange | null;
+    sections: ScriptSection[];
+    takeaways: string[];
+    /** The takeaways list, marker line excluded. */
+    takeawaysRange: TextRange | null;
+}
+
+/** Where a part of the narration lies on the playback timeline, in seconds. */
+export interface TimeSpan {
+    start: number;
+    end: number;
+}
+
+const TITLE = /^#\s+/;
+const SECTION_HEADING = /^##\s+/;
+
+/** The range without the whitespace at either end. */
+const trimmedRange = (text: string, start: number, end: number): TextRange => {
+    while (start < end && /\s/.test(text[start])) start++;
+    while (end > start && /\s/.test(text[end - 1])) end--;
+    return { start, end };
+};
+
+/** A heading's text with its markers and inline markup removed. */
+const headingText = (text: string, range: TextRange): string => inlineText(parseInline(text, range.start, range.end)).trim();
+
+export const estimateNarrationSeconds = (markdown: string): number =>
+    Math.round(markdownToPlainText(markdown).split(/\s+/).filter(Boolean).length / WORDS_PER_SECOND);
+
+/**
+ * Reads the structure of a script. A title is only recognized on the first
+ * non-blank line, and text before the first section heading becomes an
+ * untitled opening section, so no part of the text is left out. Scripts
+ * written before scripts had a structure come out as one untitled section.
+ */
+export function parseScript(text: string): StructuredScript {
+    const lines = sourceLines(text);
+    const firstLine = lines.find(line => line.text.trim());
+    const titleLine = firstLine && TITLE.test(firstLine.text) ? firstLine : null;
+    const titleRange = titleLine ? trimmedRange(text, titleLine.start + titleLine.text.match(TITLE)![0].length, titleLine.end) : null;
+
+    const markerLine = lines.find(line => line.text.trim() === TAKEAWAYS_MARKER);
+    const contentEnd = markerLine ? markerLine.start : text.length;
+    const headingLines = lines.filter(line => SECTION_HEADING.test(line.text) && line.start < contentEnd);
+
+    const starts: { start: number; headingLine: typeof lines[number] | null }[] = [];
+    const openingStart = titleLine ? Math.min(titleLine.end + 1, text.length) : 0;
+    const openingEnd = headingLines[0]?.start ?? contentEnd;
+    if (text.slice(openingStart, openingEnd).trim()) {
+        starts.push({ start: openingStart, headingLine: null });
+    }
+    starts.push(...headingLines.map(line => ({ start: line.start, headingLine: line })));
+
+    const sections = starts.map(({ start, headingLine }, index): ScriptSection => {
+        const end = starts[index + 1]?.start ?? contentEnd;
+        const headingRange = headingLine
+            ? trimmedRange(text, headingLine.start + headingLine.text.match(SECTION_HEADING)![0].length, headingLine.end)
+            : null;
+        const bodyRange = trimmedRange(text, headingLine ? Math.min(headingLine.end + 1, end) : start, end);
+        const body = text.slice(bodyRange.start, bodyRange.end);
+        return {
+            heading: headingRange ? headingText(text, headingRange) : '',
+            headingRange,
+            body,
+            bodyRange,
+            range: { start, end },
+            estimatedSeconds: estimateNarrationSeconds(body),
+        };
+    });
+
+    const takeawaysRange = markerLine ? trimmedRange(text, Math.min(markerLine.end + 1, text.length), text.length) : null;
+    const takeaways = takeawaysRange
+        ? markdownToPlainText(text.slice(takeawaysRange.start, takeawaysRange.end)).split('\n').map(line => line.trim()).filter(Boolean)
+        : [];
+
+    return {
+        title: titleRange ? headingText(text, titleRange) : '',
+        titleRange,
+        sections,
+        takeaways,
+        takeawaysRange,
+    };
+}
+
+/**
+ * What is narrated: each section's text as plain words, without the title,
+ * headings and takeaways, which are there for reading. Sections are kept
+ * apart so each can be synthesized, and later replaced, on its own.
+ */
+export const scriptNarration = (script: StructuredScript): string[] =>
+    script.sections.map(sectionNarration).filter(Boolean);
+
+export const sectionNarration = (section: ScriptSection): string => markdownToPlainText(section.body);
+
+/**
+ * Where each section's narration lies in the audio, worked out from the
+ * sentence timings. Sections are narrated separately, so a section starts
+ * exactly where its first sentence does and ends where the next section
+ * starts. A section is null when that can't be told for certain, e.g. when
+ * a sentence at its edge couldn't be found in the script.
+ */
+export function sectionTimeSpans(text: string, script: StructuredScript, sentences: TimedSentence[], duration: number): (TimeSpan | null)[] {
+    const owners = locatePlainText(text, sentences.map(sentence => sentence.text)).map(range =>
+        (range ? script.sections.findIndex(section => range.start >= section.bodyRange.start && range.start < section.bodyRange.end) : -1));
+
+    return script.sections.map((_, index) => {
+        const first = owners.indexOf(index);
+        if (first === -1 || (first > 0 && owners[first - 1] === -1)) return null;
+        let next = first;
+        while (next < owners.length && owners[next] === index) next++;
+        if (next < owners.length && owners[next] === -1) return null;
+        return { start: sentences[first].start, end: next < sentences.length ? sentences[next].start : duration };
+    });
+}
+
+/** The script with one section replaced by new Markdown, heading included. */
+export function replaceSection(text: string, section: ScriptSection, markdown: string): string {
+    const after = text.slice(section.range.end).trimStart();
+    return `${text.slice(0, section.range.start)}${markdown.trim()}${after ? `\n\n${after}` : ''}`;
+}
+
+/**
+ * A rewritten section cut down to that one section: a stray title and
+ * anything after the section are dropped, and the heading is put back if the
+ * model left it out. An untitled opening stays untitled.
+ */
+export function normalizeSectionReply(reply: string, heading: string): string {
+    let text = reply.trim().replace(/^#\s+.*(\n+|$)/, '');
+    if (!heading) {
+        text = text.replace(/^##\s+.*(\n+|$)/, '');
+    } else if (!SECTION_HEADING.test(text)) {
+        text = `## ${heading}\n\n${text}`;
+    }
+    const firstLineEnd = text.indexOf('\n');
+    const nextHeading = firstLineEnd === -1 ? -1 : text.slice(firstLineEnd).search(/\n#{1,2}\s/);
+    return (nextHeading === -1 ? text : text.slice(0, firstLineEnd + nextHeading)).trim();
+}
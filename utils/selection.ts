@@ -0,0 +1,94 @@
+import { Annotation } from '../types';
+import { Locale, LOCALES } from '../i18n';
+import { detectTextDirection } from './documentImport';
+import { TextRange } from './textChunker';
+
+// Enough of the document on either side to resolve references, without sending all of a long text.
+const CONTEXT_CHARS = 2000;
+
+export interface SelectionContext {
+    passage: string;
+    /** The document just before and after the passage, cut to a bounded length. */
+    before: string;
+    after: string;
+}
+
+export function selectionContext(document: string, { start, end }: TextRange): SelectionContext {
+    return {
+        passage: document.slice(start, end),
+        before: document.slice(Math.max(0, start - CONTEXT_CHARS), start),
+        after: document.slice(end, end + CONTEXT_CHARS),
+    };
+}
+
+/** Translations go into the explanation language, or into the other one if the passage is already written in it. */
+export function translationLanguage(passage: string, language: Locale): Locale {
+    const passageLanguage: Locale = detectTextDirection(passage) === 'rtl' ? 'fa' : 'en';
+    return passageLanguage === language ? LOCALES.find(other => other !== language) ?? language : language;
+}
+
+export const createAnnotationId = (now = Date.now()): string => `note-${now.toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+/**
+ * Anchors the annotations to the text as it is now: an annotation stays where
+ * it was if its quote is still there, moves to the quote's nearest occurrence
+ * otherwise, and is dropped once the quote is gone. Returns them in text order.
+ */
+export function locateAnnotations(text: string, annotations: Annotation[]): Annotation[] {
+    return annotations
+        .map(annotation => {
+            if (text.slice(annotation.start, annotation.end) === annotation.quote) return annotation;
+            const before = text.lastIndexOf(annotation.quote, annotation.start);
+            const after = text.indexOf(annotation.quote, annotation.start);
+            const candidates = [before, after].filter(index => index !== -1);
+            if (candidates.length === 0) return null;
+            const start = candidates.reduce((best, index) => (Math.abs(index - annotation.start) < Math.abs(best - annotation.start) ? index : best));
+            return { ...annotation, start, end: start + annotation.quote.length };
+        })
+        .filter((annotation): annotation is Annotation => annotation !== null)
+        .sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Where a DOM selection point falls in the text rendered inside `root`, read
+ * from the `data-start` offsets of the spans holding that text. Everything
+ * outside those spans, such as markers and tooltips, doesn't count.
+ */
+function textOffset(root: HTMLElement, node: Node, offset: number): number | null {
+    const spans = Array.from(root.querySelectorAll<HTMLElement>('[data-start]'));
+    let position: number | null = null;
+    for (const span of spans) {
+        const range = document.createRange();
+        range.selectNodeContents(span);
+        const comparison = range.comparePoint(node, offset);
+        if (comparison < 0) break;
+        const start = Number(span.dataset.start);
+        if (comparison === 0) {
+            range.setEnd(node, offset);
+            return start + range.toString().length;
+        }
+        position = start + (span.textContent?.length ?? 0);
+    }
+    return position ?? (spans.length > 0 ? Number(spans[0].dataset.start) : null);
+}
+
+const elementOf = (node: Node): Element | null => (node instanceof Element ? node : node.parentElement);
+
+/** The selected span of the text rendered inside `root`, or null if nothing in it is selected. */
+export function rangeFromSelection(root: HTMLElement, selection: Selection | null): TextRange | null {
+    if (!selection || selection.rangeCount === 0 || selection.isCollapsed) return null;
+    const range = selection.getRangeAt(0);
+    if (!root.contains(range.commonAncestorContainer)) return null;
+    // Text selected inside a marker card or a tooltip isn't part of the document.
+    if ([range.startContainer, range.endContainer].some(node => elementOf(node)?.closest('[data-overlay]'))) return null;
+    const start = textOffset(root, range.startContainer, range.startOffset);
+    const end = textOffset(root, range.endContainer, range.endOffset);
+    return start !== null && end !== null && end > start ? { start, end } : null;
+}
+
+/** Trims whitespace off both ends of a selected range, so double-click selections don't drag spaces along. */
+export function trimRange(text: string, { start, end }: TextRange): TextRange | null {
+    while (start < end && /\s/.test(text[start])) start++;
+    while (end > start && /\s/.test(text[end - 1])) end--;
+    return end > start ? { start, end } : null;
+}
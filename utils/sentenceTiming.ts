@@ -0,0 +1,39 @@
+import { splitIntoSentences } from './textChunker';
+
+export interface TimedSentence {
+    text: string;
+    /** Start and end on the playback timeline, in seconds. */
+    start: number;
+    end: number;
+}
+
+// Sentence-final punctuation usually comes with an audible pause; weigh it like a few characters.
+const PAUSE_WEIGHT = 4;
+
+/**
+ * Estimates when each sentence of a synthesized chunk is spoken by spreading
+ * the chunk's measured duration across its sentences by text length.
+ */
+export function estimateSentenceTimings(chunkText: string, chunkStart: number, chunkDuration: number): TimedSentence[] {
+    const sentences = splitIntoSentences(chunkText);
+    const weights = sentences.map(sentence => sentence.replace(/\s+/g, '').length + PAUSE_WEIGHT);
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+    let start = chunkStart;
+    return sentences.map((text, index) => {
+        const end = start + (chunkDuration * weights[index]) / totalWeight;
+        const timed = { text, start, end };
+        start = end;
+        return timed;
+    });
+}
+
+/** Index of the sentence being spoken at `position`, or -1 before the first one. */
+export function findSentenceIndex(sentences: TimedSentence[], position: number): number {
+    for (let i = sentences.length - 1; i >= 0; i--) {
+        if (position >= sentences[i].start) {
+            return i;
+        }
+    }
+    return -1;
+}
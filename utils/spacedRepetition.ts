@@ -0,0 +1,35 @@
+import { Flashcard, ReviewGrade } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// A forgotten card comes back later in the same sitting.
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+const MIN_EASE_FACTOR = 1.3;
+const EASY_BONUS = 1.3;
+
+export const INITIAL_EASE_FACTOR = 2.5;
+
+// SM-2 rates recall from 0 to 5; anything below 3 counts as forgotten.
+const GRADE_QUALITY: Record<ReviewGrade, number> = { again: 1, hard: 3, good: 4, easy: 5 };
+
+/**
+ * Schedules a card's next review with the SM-2 algorithm: the first two
+ * successful reviews are a day and six days apart, and each later interval
+ * grows by the card's ease factor, which tracks how easily it is recalled.
+ */
+export function scheduleReview(card: Flashcard, grade: ReviewGrade, now = Date.now()): Flashcard {
+    const quality = GRADE_QUALITY[grade];
+    const easeFactor = Math.max(MIN_EASE_FACTOR, card.easeFactor + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+    if (quality < 3) {
+        return { ...card, easeFactor, repetitions: 0, intervalDays: 0, dueAt: now + RELEARN_DELAY_MS };
+    }
+    const repetitions = card.repetitions + 1;
+    let intervalDays = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(card.intervalDays * easeFactor);
+    if (grade === 'easy') {
+        intervalDays = Math.round(intervalDays * EASY_BONUS);
+    }
+    return { ...card, easeFactor, repetitions, intervalDays, dueAt: now + intervalDays * DAY_MS };
+}
+
+/** Cards due by `now`, the most overdue first. */
+export const dueCards = (cards: Flashcard[], now = Date.now()): Flashcard[] =>
+    cards.filter(card => card.dueAt <= now).sort((a, b) => a.dueAt - b.dueAt);
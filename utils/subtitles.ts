@@ -0,0 +1,86 @@
+import { TimedSentence } from './sentenceTiming';
+import { detectTextDirection } from './documentImport';
+
+export interface SubtitleCue {
+    start: number;
+    end: number;
+    text: string;
+}
+
+// Two lines of about 42 characters is the usual limit for readable subtitles.
+const MAX_LINE_CHARS = 42;
+const MAX_CUE_CHARS = MAX_LINE_CHARS * 2;
+
+// Prefixing right-to-left cues with a right-to-left mark keeps players from
+// moving leading/trailing punctuation to the wrong side.
+const RLM = '\u200F';
+
+/** Breaks text into pieces of at most `maxChars`, at word boundaries where possible. */
+const splitAtWords = (text: string, maxChars: number): string[] => {
+    const pieces: string[] = [];
+    let current = '';
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+        if (current && current.length + 1 + word.length > maxChars) {
+            pieces.push(current);
+            current = word;
+        } else {
+            current = current ? `${current} ${word}` : word;
+        }
+    }
+    if (current) pieces.push(current);
+    return pieces;
+};
+
+const wrapLines = (text: string): string => {
+    if (text.length <= MAX_LINE_CHARS) return text;
+    // Balance the two lines instead of filling the first one.
+    return splitAtWords(text, Math.ceil(text.length / 2) + 1).join('\n');
+};
+
+/**
+ * Turns timed sentences into subtitle cues. Sentences too long for one cue
+ * are split at word boundaries, and their time is shared out by length.
+ */
+export function buildSubtitleCues(sentences: TimedSentence[]): SubtitleCue[] {
+    const cues: SubtitleCue[] = [];
+    for (const sentence of sentences) {
+        const text = sentence.text.replace(/\s+/g, ' ').trim();
+        if (!text) continue;
+        const pieces = splitAtWords(text, MAX_CUE_CHARS);
+        const totalLength = pieces.reduce((sum, piece) => sum + piece.length, 0);
+        let start = sentence.start;
+        for (const piece of pieces) {
+            const end = start + ((sentence.end - sentence.start) * piece.length) / totalLength;
+            const wrapped = wrapLines(piece);
+            cues.push({
+                start,
+                end,
+                text: detectTextDirection(piece) === 'rtl' ? wrapped.split('\n').map(line => RLM + line).join('\n') : wrapped,
+            });
+            start = end;
+        }
+    }
+    return cues;
+}
+
+export const formatTimestamp = (seconds: number, fractionSeparator: ',' | '.'): string => {
+    const totalMs = Math.max(0, Math.round(seconds * 1000));
+    const hours = Math.floor(totalMs / 3600000);
+    const minutes = Math.floor((totalMs % 3600000) / 60000);
+    const secs = Math.floor((totalMs % 60000) / 1000);
+    const ms = totalMs % 1000;
+    const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+    return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${fractionSeparator}${pad(ms, 3)}`;
+};
+
+export function buildSrt(sentences: TimedSentence[]): string {
+    return buildSubtitleCues(sentences)
+        .map((cue, index) => `${index + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.text}\n`)
+        .join('\n');
+}
+
+export function buildWebVtt(sentences: TimedSentence[]): string {
+    const cues = buildSubtitleCues(sentences)
+        .map(cue => `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.text}\n`);
+    return ['WEBVTT\n', ...cues].join('\n');
+}
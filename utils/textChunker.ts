@@ -0,0 +1,134 @@
+// Sentence terminators for Persian/Arabic and Latin scripts, optionally followed by closing quotes/brackets.
+const SENTENCE_PATTERN = /[^.!?؟…\n]+(?:[.!?؟…]+["'»)\]]*|\n|$)/g;
+
+/** Splits text into trimmed sentences, treating line breaks as hard boundaries. */
+export function splitIntoSentences(text: string): string[] {
+    return (text.match(SENTENCE_PATTERN) ?? [])
+        .map(sentence => sentence.trim())
+        .filter(Boolean);
+}
+
+export interface ChunkOptions {
+    /** Upper bound for every chunk except the first. */
+    maxChars: number;
+    /** A smaller first chunk gets the first audio back sooner. */
+    firstChunkMaxChars?: number;
+}
+
+/**
+ * Packs a script into chunks for speech synthesis. Whole paragraphs are
+ * merged while they fit; longer paragraphs are split on sentence boundaries,
+ * and only a single sentence longer than the limit is cut on whitespace.
+ */
+export function chunkScript(text: string, { maxChars, firstChunkMaxChars = maxChars }: ChunkOptions): string[] {
+    const chunks: string[] = [];
+    let current = '';
+    const limit = () => (chunks.length === 0 ? firstChunkMaxChars : maxChars);
+
+    const append = (piece: string, separator: string) => {
+        if (current && current.length + separator.length + piece.length > limit()) {
+            chunks.push(current);
+            current = '';
+        }
+        current = current ? current + separator + piece : piece;
+    };
+
+    for (const rawParagraph of text.split(/\n\s*\n/)) {
+        const paragraph = rawParagraph.trim();
+        if (!paragraph) continue;
+        if (paragraph.length <= limit()) {
+            append(paragraph, '\n\n');
+            continue;
+        }
+        splitIntoSentences(paragraph).forEach((sentence, index) => {
+            const separator = index === 0 ? '\n\n' : ' ';
+            if (sentence.length <= maxChars) {
+                append(sentence, separator);
+                return;
+            }
+            sentence.split(/\s+/).forEach((word, wordIndex) => append(word, wordIndex === 0 ? separator : ' '));
+        });
+    }
+    if (current) {
+        chunks.push(current);
+    }
+    return chunks;
+}
+
+/**
+ * Rough token count for budgeting prompts without a tokenizer round-trip.
+ * Latin text averages about four characters per token; Persian and other
+ * non-Latin scripts tokenize considerably denser.
+ */
+export function estimateTokens(text: string): number {
+    let ascii = 0;
+    let other = 0;
+    for (let i = 0; i < text.length; i++) {
+        if (text.charCodeAt(i) < 128) ascii++; else other++;
+    }
+    return Math.ceil(ascii / 4 + other / 2.5);
+}
+
+export interface TextRange {
+    start: number;
+    end: number;
+}
+
+/**
+ * Splits text into contiguous ranges whose estimated token count stays under
+ * `maxTokens`, breaking between sentences and preferring paragraph breaks.
+ * Unlike `chunkScript`, the ranges index into the original string.
+ */
+export function splitIntoTokenRanges(text: string, maxTokens: number): TextRange[] {
+    const units: (TextRange & { tokens: number })[] = [];
+    for (const match of text.matchAll(SENTENCE_PATTERN)) {
+        if (!match[0].trim()) continue;
+        const start = match.index ?? 0;
+        const end = start + match[0].length;
+        const tokens = estimateTokens(match[0]);
+        if (tokens <= maxTokens) {
+            units.push({ start, end, tokens });
+            continue;
+        }
+        // A single runaway "sentence" (e.g. a table with no punctuation): cut it at whitespace.
+        const pieceLength = Math.max(1, Math.floor((match[0].length * maxTokens) / tokens));
+        let pieceStart = start;
+        while (pieceStart < end) {
+            let pieceEnd = Math.min(end, pieceStart + pieceLength);
+            const space = text.lastIndexOf(' ', pieceEnd);
+            if (pieceEnd < end && space > pieceStart) pieceEnd = space + 1;
+            units.push({ start: pieceStart, end: pieceEnd, tokens: estimateTokens(text.slice(pieceStart, pieceEnd)) });
+            pieceStart = pieceEnd;
+        }
+    }
+
+    const ranges: TextRange[] = [];
+    let current: { start: number; end: number; tokens: number; paragraphBreak: number } | null = null;
+    for (const unit of units) {
+        if (current && current.tokens + unit.tokens > maxTokens) {
+            // Cut at the last paragraph break if it keeps at least half the budget in this range.
+            const breakAt = current.paragraphBreak;
+            if (breakAt > current.start && estimateTokens(text.slice(current.start, breakAt)) >= maxTokens / 2) {
+                ranges.push({ start: current.start, end: breakAt });
+                current = { start: breakAt, end: current.end, tokens: estimateTokens(text.slice(breakAt, current.end)), paragraphBreak: -1 };
+            }
+            if (current.tokens + unit.tokens > maxTokens) {
+                ranges.push({ start: current.start, end: current.end });
+                current = null;
+            }
+        }
+        if (!current) {
+            current = { start: unit.start, end: unit.end, tokens: unit.tokens, paragraphBreak: -1 };
+        } else {
+            if (/\n\s*\n/.test(text.slice(current.end, unit.start)) || text.slice(current.end - 1, current.end) === '\n') {
+                current.paragraphBreak = unit.start;
+            }
+            current.end = unit.end;
+            current.tokens += unit.tokens;
+        }
+    }
+    if (current) {
+        ranges.push({ start: current.start, end: current.end });
+    }
+    return ranges;
+}
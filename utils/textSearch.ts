@@ -0,0 +1,63 @@
+import { TextRange } from './textChunker';
+
+const ELLIPSIS = /\s*(?:\.\.\.|…)\s*/;
+
+/**
+ * Folds differences a model tends to introduce when quoting: whitespace runs
+ * and ZWNJ become a single space, Arabic yeh/kaf become Persian, and Latin
+ * letters are lowercased. `positions[i]` is the source index of output char i.
+ */
+function normalizeWithPositions(text: string): { normalized: string; positions: number[] } {
+    let normalized = '';
+    const positions: number[] = [];
+    for (let i = 0; i < text.length; i++) {
+        let char = text[i];
+        if (/[\s\u200C]/.test(char)) {
+            if (normalized.endsWith(' ')) continue;
+            char = ' ';
+        } else if (char === 'ي') {
+            char = 'ی';
+        } else if (char === 'ك') {
+            char = 'ک';
+        } else {
+            char = char.toLowerCase();
+        }
+        normalized += char;
+        positions.push(i);
+    }
+    return { normalized, positions };
+}
+
+/** Folds whitespace, ZWNJ, Arabic letter variants and Latin case, for comparing text loosely. */
+export const normalizeText = (text: string): string => normalizeWithPositions(text).normalized.trim();
+
+/**
+ * Finds a model-provided quote in the source text. Tries an exact match first,
+ * then a normalized one; quotes elided with "..." match when every piece is
+ * found in order. Returns the range in the original source, or null.
+ */
+export function locateQuote(source: string, quote: string, from = 0): TextRange | null {
+    const trimmed = quote.trim().replace(/^["'«“]+|["'»”]+$/g, '');
+    if (!trimmed) return null;
+
+    const exact = source.indexOf(trimmed, from);
+    if (exact !== -1) {
+        return { start: exact, end: exact + trimmed.length };
+    }
+
+    const { normalized, positions } = normalizeWithPositions(source);
+    const pieces = trimmed.split(ELLIPSIS).map(piece => normalizeWithPositions(piece).normalized.trim()).filter(Boolean);
+    let cursor = positions.findIndex(position => position >= from);
+    if (cursor === -1 || pieces.length === 0) return null;
+
+    let start = -1;
+    let end = -1;
+    for (const piece of pieces) {
+        const index = normalized.indexOf(piece, cursor);
+        if (index === -1) return null;
+        if (start === -1) start = positions[index];
+        end = positions[index + piece.length - 1] + 1;
+        cursor = index + piece.length;
+    }
+    return { start, end };
+}